@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { type ColumnMapping, type ColumnMappingTemplate, type ColumnReference } from "@shared/schema";
+import { type FileInspection, type SheetInspection, type UploadMappingOptions } from "@/lib/file-utils";
+
+interface ColumnMappingDialogProps {
+  fileName: string;
+  inspection: FileInspection;
+  isUploading: boolean;
+  onConfirm: (options: UploadMappingOptions) => void;
+  onCancel: () => void;
+}
+
+const FIELDS: Array<{ key: keyof ColumnMapping; label: string }> = [
+  { key: 'url', label: 'LinkedIn URL' },
+  { key: 'name', label: 'Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'company', label: 'Company' },
+  { key: 'externalId', label: 'Candidate ID' },
+];
+
+const NONE = 'none';
+
+// Select values are column indexes; a reference may be a header name or an index
+function columnIndex(sheet: SheetInspection, reference: ColumnReference | undefined): string {
+  if (reference === undefined) {
+    return NONE;
+  }
+  const column = typeof reference === 'number' ?
+    sheet.columns.find(c => c.index === reference) :
+    sheet.columns.find(c => c.name?.toLowerCase() === reference.toLowerCase());
+  return column ? String(column.index) : NONE;
+}
+
+function selectColumns(sheet: SheetInspection, mapping: ColumnMapping | null): Record<string, string> {
+  return Object.fromEntries(FIELDS.map(({ key }) => [key, columnIndex(sheet, mapping?.[key])]));
+}
+
+function describeColumn(column: SheetInspection['columns'][number]) {
+  const label = column.name || `Column ${column.index + 1}`;
+  return column.samples.length > 0 ? `${label} (${column.samples[0]})` : label;
+}
+
+export default function ColumnMappingDialog({
+  fileName,
+  inspection,
+  isUploading,
+  onConfirm,
+  onCancel,
+}: ColumnMappingDialogProps) {
+  const defaultSheet = inspection.sheets.find(s => s.suggestedMapping) || inspection.sheets[0];
+  const [sheetName, setSheetName] = useState(defaultSheet.name);
+  const [selected, setSelected] = useState(() => selectColumns(defaultSheet, defaultSheet.suggestedMapping));
+  const [templateId, setTemplateId] = useState<string>(NONE);
+  const [templateName, setTemplateName] = useState("");
+
+  const sheet = inspection.sheets.find(s => s.name === sheetName) || defaultSheet;
+
+  const { data: templates = [] } = useQuery<ColumnMappingTemplate[]>({
+    queryKey: ["/api/mapping-templates"],
+  });
+
+  // Another sheet starts from its own suggested mapping
+  const handleSheetChange = (value: string) => {
+    const target = inspection.sheets.find(s => s.name === value) || defaultSheet;
+    setSheetName(target.name);
+    setSelected(selectColumns(target, target.suggestedMapping));
+  };
+
+  const handleTemplateChange = (value: string) => {
+    setTemplateId(value);
+    const template = templates.find(t => String(t.id) === value);
+    if (!template) {
+      return;
+    }
+
+    const target = inspection.sheets.find(s => s.name === template.sheet) || sheet;
+    setSheetName(target.name);
+    setSelected(selectColumns(target, template.mapping as ColumnMapping));
+  };
+
+  const handleConfirm = () => {
+    const mapping: Partial<ColumnMapping> = {};
+    for (const { key } of FIELDS) {
+      const column = sheet.columns.find(c => String(c.index) === selected[key]);
+      if (column) {
+        mapping[key] = column.name ?? column.index;
+      }
+    }
+
+    onConfirm({
+      sheet: sheet.name,
+      mapping: mapping as ColumnMapping,
+      saveTemplateAs: templateName.trim() || undefined,
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Map columns</DialogTitle>
+          <DialogDescription>
+            Choose which columns of "{fileName}" hold the LinkedIn URL and candidate details.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {templates.length > 0 && (
+            <div className="flex items-center justify-between">
+              <label htmlFor="mapping-template-select" className="text-sm font-medium text-text-dark">Template</label>
+              <Select value={templateId} onValueChange={handleTemplateChange}>
+                <SelectTrigger id="mapping-template-select" className="w-[240px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No template</SelectItem>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={String(template.id)}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {inspection.sheets.length > 1 && (
+            <div className="flex items-center justify-between">
+              <label htmlFor="mapping-sheet-select" className="text-sm font-medium text-text-dark">Sheet</label>
+              <Select value={sheet.name} onValueChange={handleSheetChange}>
+                <SelectTrigger id="mapping-sheet-select" className="w-[240px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {inspection.sheets.map((option) => (
+                    <SelectItem key={option.name} value={option.name}>
+                      {option.name} ({option.rowCount.toLocaleString()} rows)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {FIELDS.map(({ key, label }) => (
+            <div key={key} className="flex items-center justify-between">
+              <label htmlFor={`mapping-${key}-select`} className="text-sm font-medium text-text-dark">
+                {label}{key === 'url' && <span className="text-error-red"> *</span>}
+              </label>
+              <Select
+                value={selected[key] ?? NONE}
+                onValueChange={(value) => setSelected(current => ({ ...current, [key]: value }))}
+              >
+                <SelectTrigger id={`mapping-${key}-select`} className="w-[240px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {key !== 'url' && <SelectItem value={NONE}>Not mapped</SelectItem>}
+                  {sheet.columns.map((column) => (
+                    <SelectItem key={column.index} value={String(column.index)}>
+                      {describeColumn(column)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+
+          {!sheet.suggestedMapping && (
+            <p className="text-sm text-warning-orange">
+              No LinkedIn URLs were found on this sheet.
+            </p>
+          )}
+
+          <div className="flex items-center justify-between">
+            <label htmlFor="mapping-template-name" className="text-sm font-medium text-text-dark">Save as template</label>
+            <Input
+              id="mapping-template-name"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              placeholder="Optional name"
+              className="w-[240px]"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={isUploading || (selected.url ?? NONE) === NONE}
+            className="bg-azure-blue text-white hover:bg-azure-dark"
+          >
+            {isUploading ? 'Uploading...' : 'Upload'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,10 +2,22 @@ import { useState, useCallback } from "react";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { CloudUpload, FileSpreadsheet, X, Play, Pause } from "lucide-react";
+import { CloudUpload, FileSpreadsheet, X, Play, Pause, ClipboardPaste } from "lucide-react";
 import { useFileUpload } from "@/hooks/use-file-upload";
+import ColumnMappingDialog from "@/components/column-mapping-dialog";
+import UploadPreview from "@/components/upload-preview";
 import { useJobProcessing } from "@/hooks/use-job-processing";
 import {
   AlertDialog,
@@ -19,16 +31,33 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 
+interface ProfileSourceOption {
+  name: string;
+  label: string;
+  requiresLinkedInAuth: boolean;
+}
+
+interface ProfileSourcesResponse {
+  default: string;
+  sources: ProfileSourceOption[];
+}
+
 interface UploadedFile {
   id: string;
   name: string;
   size: number;
   profileCount: number;
-  status: 'uploaded' | 'processing' | 'completed' | 'failed';
+  status: 'ingesting' | 'uploaded' | 'processing' | 'completed' | 'failed';
+  ingestedRows: number | null; // rows of the file read so far, while ingesting
 }
 
+const INGESTION_POLL_INTERVAL = 2000;
+
 export default function FileUploadSection() {
   const [batchSize, setBatchSize] = useState("50");
+  const [source, setSource] = useState<string | undefined>();
+  const [pasteOpen, setPasteOpen] = useState(false);
+  const [pastedText, setPastedText] = useState("");
   
   const {
     dragActive,
@@ -36,6 +65,15 @@ export default function FileUploadSection() {
     handleDrop,
     openFileDialog,
     isUploading,
+    pasteUrls,
+    isPasting,
+    pendingFile,
+    confirmMapping,
+    cancelMapping,
+    preview,
+    confirmPreview,
+    isConfirming,
+    discardPreview,
   } = useFileUpload();
 
   const {
@@ -51,7 +89,14 @@ export default function FileUploadSection() {
 
   const { data: uploadedFiles = [], isLoading } = useQuery<UploadedFile[]>({
     queryKey: ["/api/files/uploaded"],
+    // Profiles of a confirmed upload are added in the background
+    refetchInterval: (query) => query.state.data?.some(file => file.status === 'ingesting') ? INGESTION_POLL_INTERVAL : false,
+  });
+
+  const { data: profileSources } = useQuery<ProfileSourcesResponse>({
+    queryKey: ["/api/profile-sources"],
   });
+  const selectedSource = source ?? profileSources?.default;
 
   const removeFileMutation = useMutation({
     mutationFn: async (fileId: string) => {
@@ -69,10 +114,20 @@ export default function FileUploadSection() {
       startJob({
         fileId: firstUploadedFile.id,
         batchSize: parseInt(batchSize),
+        source: selectedSource,
       });
     }
   };
 
+  const handlePaste = () => {
+    pasteUrls({ text: pastedText }, {
+      onSuccess: () => {
+        setPastedText("");
+        setPasteOpen(false);
+      },
+    });
+  };
+
   const handlePauseResume = () => {
     if (currentJob) {
       if (currentJob.status === 'processing') {
@@ -90,7 +145,7 @@ export default function FileUploadSection() {
           File Upload & Processing
         </h2>
         <p className="text-sm text-neutral-gray mt-1">
-          Upload Excel files containing LinkedIn profile URLs for batch processing
+          Upload files or paste lists of LinkedIn profile URLs for batch processing
         </p>
       </CardHeader>
       
@@ -110,10 +165,10 @@ export default function FileUploadSection() {
             <CloudUpload className="text-azure-blue text-2xl" />
           </div>
           <h3 className="text-lg font-medium text-text-dark mb-2">
-            Drop Excel files here
+            Drop files here
           </h3>
           <p className="text-neutral-gray mb-4">
-            or click to browse and upload .xlsx files
+            or click to browse: Excel, CSV, TSV, JSON, NDJSON or text
           </p>
           <Button 
             className="bg-azure-blue text-white hover:bg-azure-dark"
@@ -123,6 +178,60 @@ export default function FileUploadSection() {
           </Button>
         </div>
 
+        <Dialog open={pasteOpen} onOpenChange={setPasteOpen}>
+          <DialogTrigger asChild>
+            <Button variant="link" className="mt-2 px-0 text-azure-blue">
+              <ClipboardPaste className="mr-2 h-4 w-4" />
+              Paste URLs instead
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Paste LinkedIn URLs</DialogTitle>
+              <DialogDescription>
+                One or more URLs per line. Anything else on a line is kept as a note.
+              </DialogDescription>
+            </DialogHeader>
+            <Textarea
+              value={pastedText}
+              onChange={(e) => setPastedText(e.target.value)}
+              placeholder="https://www.linkedin.com/in/..."
+              rows={10}
+              className="font-mono text-sm"
+            />
+            <DialogFooter>
+              <Button
+                onClick={handlePaste}
+                disabled={isPasting || pastedText.trim() === ''}
+                className="bg-azure-blue text-white hover:bg-azure-dark"
+              >
+                {isPasting ? 'Adding...' : 'Add URLs'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {pendingFile && (
+          <ColumnMappingDialog
+            key={pendingFile.file.name}
+            fileName={pendingFile.file.name}
+            inspection={pendingFile.inspection}
+            isUploading={isUploading}
+            onConfirm={confirmMapping}
+            onCancel={cancelMapping}
+          />
+        )}
+
+        {preview && (
+          <UploadPreview
+            key={preview.previewId}
+            preview={preview}
+            isConfirming={isConfirming}
+            onConfirm={(options) => confirmPreview(options)}
+            onDiscard={discardPreview}
+          />
+        )}
+
         {/* Uploaded Files List */}
         {uploadedFiles.length > 0 && (
           <div className="mt-6 space-y-3">
@@ -133,13 +242,15 @@ export default function FileUploadSection() {
                   <div>
                     <p className="font-medium text-text-dark">{file.name}</p>
                     <p className="text-sm text-neutral-gray">
-                      {file.profileCount.toLocaleString()} URLs • {(file.size / 1024 / 1024).toFixed(1)} MB
+                      {file.status === 'ingesting' ?
+                        `Reading file... ${(file.ingestedRows || 0).toLocaleString()} rows, ${file.profileCount.toLocaleString()} URLs so far` :
+                        `${file.profileCount.toLocaleString()} URLs • ${(file.size / 1024 / 1024).toFixed(1)} MB`}
                     </p>
                   </div>
                 </div>
                 <div className="flex items-center space-x-2">
                   <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                    file.status === 'uploaded' ? 'bg-azure-blue bg-opacity-10 text-azure-blue' :
+                    file.status === 'uploaded' || file.status === 'ingesting' ? 'bg-azure-blue bg-opacity-10 text-azure-blue' :
                     file.status === 'processing' ? 'bg-warning-orange bg-opacity-10 text-warning-orange' :
                     file.status === 'completed' ? 'bg-success-green bg-opacity-10 text-success-green' :
                     'bg-error-red bg-opacity-10 text-error-red'
@@ -195,6 +306,23 @@ export default function FileUploadSection() {
                 <SelectItem value="500">500 profiles</SelectItem>
               </SelectContent>
             </Select>
+            {profileSources && (
+              <>
+                <label htmlFor="profile-source-select" className="text-sm font-medium text-text-dark">Source:</label>
+                <Select value={selectedSource} onValueChange={setSource}>
+                  <SelectTrigger id="profile-source-select" name="profileSource" className="w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {profileSources.sources.map((option) => (
+                      <SelectItem key={option.name} value={option.name}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </>
+            )}
           </div>
           <div className="flex space-x-3">
             {hasActiveJob && currentJob && (
@@ -0,0 +1,145 @@
+import { useQuery } from "@tanstack/react-query";
+import { Skeleton } from "@/components/ui/skeleton";
+import { NetworkError } from "@/components/ui/network-error";
+import { apiRequest } from "@/lib/queryClient";
+import { useJobEvents } from "@/hooks/use-job-events";
+import { type JobEventDataMap, type TypedJobEventRecord } from "@shared/schema";
+import {
+  FilePlus,
+  FileCheck,
+  ListStart,
+  Play,
+  Pause,
+  PlayCircle,
+  Square,
+  Layers,
+  ShieldAlert,
+  CheckCircle,
+  XCircle,
+  Ban,
+  Trash2,
+  Undo2,
+  RotateCcw,
+  type LucideIcon,
+} from "lucide-react";
+
+interface JobTimelineProps {
+  jobId: string;
+}
+
+const EVENT_STYLES: Record<string, { label: string; icon: LucideIcon; color: string }> = {
+  created: { label: 'Created', icon: FilePlus, color: 'text-neutral-gray' },
+  ingested: { label: 'File read', icon: FileCheck, color: 'text-neutral-gray' },
+  queued: { label: 'Queued', icon: ListStart, color: 'text-neutral-gray' },
+  started: { label: 'Started', icon: Play, color: 'text-azure-blue' },
+  paused: { label: 'Paused', icon: Pause, color: 'text-warning-orange' },
+  resumed: { label: 'Resumed', icon: PlayCircle, color: 'text-azure-blue' },
+  stopped: { label: 'Stopped', icon: Square, color: 'text-error-red' },
+  batch_finished: { label: 'Batch finished', icon: Layers, color: 'text-neutral-gray' },
+  circuit_tripped: { label: 'Circuit breaker tripped', icon: ShieldAlert, color: 'text-warning-orange' },
+  completed: { label: 'Completed', icon: CheckCircle, color: 'text-success-green' },
+  failed: { label: 'Failed', icon: XCircle, color: 'text-error-red' },
+  cancelled: { label: 'Cancelled', icon: Ban, color: 'text-neutral-gray' },
+  deleted: { label: 'Deleted', icon: Trash2, color: 'text-error-red' },
+  restored: { label: 'Restored', icon: Undo2, color: 'text-azure-blue' },
+  reinstated: { label: 'Reinstated', icon: RotateCcw, color: 'text-azure-blue' },
+};
+
+function describeActor(event: TypedJobEventRecord) {
+  switch (event.actorType) {
+    case 'user':
+      return 'by user';
+    case 'scheduler':
+      return `by schedule #${event.actorId}`;
+    case 'worker':
+      return `on ${event.actorId}`;
+    default:
+      return 'by the system';
+  }
+}
+
+function describeIngestion(data: JobEventDataMap['ingested']) {
+  return `${data.rowsRead} rows read · ${data.totalProfiles} profiles added, ${data.duplicateUrls} duplicates, ${data.skippedRecent} skipped, ${data.reusedRecent} reused`;
+}
+
+function describeBatch(data: JobEventDataMap['batch_finished']) {
+  const pass = data.pass > 0 ? `Retry pass ${data.pass}: ` : '';
+  return `${pass}${data.profiles} profiles · ${data.processedProfiles} processed, ${data.successfulProfiles} successful, ${data.failedProfiles} failed, ${data.retryingProfiles} retrying`;
+}
+
+export default function JobTimeline({ jobId }: JobTimelineProps) {
+  const { live } = useJobEvents();
+  const { data: events = [], isLoading, error, refetch } = useQuery<TypedJobEventRecord[]>({
+    queryKey: ["/api/jobs", jobId, "events"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/jobs/${jobId}/events`);
+      return response.json();
+    },
+    refetchInterval: live ? false : 15000, // Poll every 15 seconds while the event stream is down or quiet
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[...Array(4)].map((_, i) => (
+          <div key={i} className="flex items-start space-x-3">
+            <Skeleton className="h-5 w-5 rounded-full" />
+            <div className="flex-1">
+              <Skeleton className="h-4 w-40 mb-1" />
+              <Skeleton className="h-3 w-64" />
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return <NetworkError error={error} onRetry={() => refetch()} />;
+  }
+
+  if (events.length === 0) {
+    return (
+      <div className="py-8 text-center text-neutral-gray">
+        No events recorded for this job
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {events.map((event) => {
+        const style = EVENT_STYLES[event.type] || EVENT_STYLES.created;
+        const Icon = style.icon;
+
+        return (
+          <li key={event.id} className="mb-4 ml-6">
+            <span className="absolute -left-2.5 flex items-center justify-center w-5 h-5 bg-white rounded-full">
+              <Icon className={`h-4 w-4 ${style.color}`} />
+            </span>
+            <div className="flex items-baseline justify-between">
+              <p className="text-sm font-medium text-text-dark">
+                {style.label}
+                <span className="ml-2 text-xs font-normal text-neutral-gray">{describeActor(event)}</span>
+              </p>
+              <time className="text-xs text-neutral-gray">
+                {event.createdAt ? new Date(event.createdAt).toLocaleString() : ''}
+              </time>
+            </div>
+            {event.reason && (
+              <p className={`text-sm ${event.type === 'failed' ? 'text-error-red' : 'text-neutral-gray'}`}>
+                {event.reason}
+              </p>
+            )}
+            {event.type === 'ingested' && event.data && (
+              <p className="text-xs text-neutral-gray">{describeIngestion(event.data)}</p>
+            )}
+            {event.type === 'batch_finished' && event.data && (
+              <p className="text-xs text-neutral-gray">{describeBatch(event.data)}</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
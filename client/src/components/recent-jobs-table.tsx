@@ -1,11 +1,16 @@
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Skeleton } from "@/components/ui/skeleton";
 import { NetworkError } from "@/components/ui/network-error";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { FileSpreadsheet, Pause, Square, Download, Trash2 } from "lucide-react";
+import { useJobEvents } from "@/hooks/use-job-events";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileSpreadsheet, FileDown, Pause, Square, Download, Trash2, RotateCcw, CalendarClock } from "lucide-react";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -22,17 +27,49 @@ interface JobData {
   id: string;
   fileName: string;
   totalProfiles: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'paused';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'paused' | 'cancelled';
   progress: number;
   successRate: string;
   startedAt: string;
+  parentJobId: number | null;
+  failedProfiles: number;
+  rerunCount: number;
 }
 
+const RERUN_ERROR_TYPES = [
+  { value: 'all', label: 'All failures' },
+  { value: 'captcha', label: 'CAPTCHA' },
+  { value: 'rate_limit', label: 'Rate limited' },
+  { value: 'access_restricted', label: 'Access restricted' },
+  { value: 'auth_expired', label: 'Expired LinkedIn token' },
+  { value: 'not_found', label: 'Not found' },
+  { value: 'unknown', label: 'Other errors' },
+];
+
+// Uploads that can come back as the user's own file with the extracted details appended
+const ENRICHABLE_EXTENSIONS = ['.xlsx', '.xls', '.ods', '.csv', '.tsv', '.tab'];
+
+function fileExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase();
+}
+
+// Recurring re-scrapes of a finished job's profiles, as cron expressions in UTC
+const REFRESH_SCHEDULES = [
+  { value: '0 6 * * 1', label: 'Every week' },
+  { value: '0 6 1 * *', label: 'Every month' },
+  { value: '0 6 1 */3 *', label: 'Every quarter' },
+];
+
 export default function RecentJobsTable() {
+  const { live } = useJobEvents();
+  const { toast } = useToast();
   const { data: jobs = [], isLoading, error, refetch } = useQuery<JobData[]>({
     queryKey: ["/api/jobs/recent"],
-    refetchInterval: 10000, // Poll every 10 seconds
+    refetchInterval: live ? false : 10000, // Poll every 10 seconds while the event stream is down or quiet
   });
+  const [rerunErrorType, setRerunErrorType] = useState("all");
+  const [refreshCron, setRefreshCron] = useState(REFRESH_SCHEDULES[1].value);
 
   const pauseJobMutation = useMutation({
     mutationFn: async (jobId: string) => {
@@ -54,16 +91,53 @@ export default function RecentJobsTable() {
     },
   });
 
+  const rerunFailedMutation = useMutation({
+    mutationFn: async ({ jobId, errorType }: { jobId: string; errorType: string }) => {
+      const response = await apiRequest("POST", `/api/jobs/${jobId}/rerun-failed`, {
+        errorType: errorType === 'all' ? undefined : errorType,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs/recent"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs/current-status"] });
+    },
+  });
+
+  const scheduleRefreshMutation = useMutation({
+    mutationFn: async ({ job, cron }: { job: JobData; cron: string }) => {
+      const response = await apiRequest("POST", "/api/schedules", {
+        name: `${job.fileName} (refresh)`,
+        targetType: 'job',
+        sourceJobId: parseInt(job.id),
+        cron,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schedules/upcoming"] });
+    },
+  });
+
   const downloadResultsMutation = useMutation({
-    mutationFn: async (jobId: string) => {
-      const response = await apiRequest("GET", `/api/jobs/${jobId}/download`);
+    mutationFn: async ({ jobId, combined, enriched, fileName }: { jobId: string; combined: boolean; enriched?: boolean; fileName?: string }) => {
+      const params = new URLSearchParams();
+      if (combined) params.set('combined', 'true');
+      if (enriched) params.set('enriched', 'true');
+      const query = params.toString();
+      const response = await apiRequest("GET", `/api/jobs/${jobId}/download${query ? `?${query}` : ''}`);
       const blob = await response.blob();
       
       // Create download link
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `job_${jobId}_results.xlsx`;
+      if (enriched && fileName) {
+        const extension = fileExtension(fileName);
+        a.download = `${fileName.slice(0, fileName.length - extension.length)}_enriched${extension}`;
+      } else {
+        a.download = combined ? `job_${jobId}_combined_results.xlsx` : `job_${jobId}_results.xlsx`;
+      }
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -71,6 +145,22 @@ export default function RecentJobsTable() {
       
       return { success: true };
     },
+    onError: (error: Error) => {
+      toast({ title: "Download failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const restoreJobMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const response = await apiRequest("POST", `/api/jobs/${jobId}/restore`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs/recent"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to restore job", description: error.message, variant: "destructive" });
+    },
   });
 
   const deleteJobMutation = useMutation({
@@ -78,8 +168,18 @@ export default function RecentJobsTable() {
       const response = await apiRequest("DELETE", `/api/jobs/${jobId}`);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { restoreUntil: string }, jobId) => {
       queryClient.invalidateQueries({ queryKey: ["/api/jobs/recent"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs/current-status"] });
+      toast({
+        title: "Job deleted",
+        description: `It can be restored until ${new Date(data.restoreUntil).toLocaleDateString()}.`,
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => restoreJobMutation.mutate(jobId)}>
+            Undo
+          </ToastAction>
+        ),
+      });
     },
   });
 
@@ -90,6 +190,7 @@ export default function RecentJobsTable() {
       completed: { bg: 'bg-success-green bg-opacity-10', text: 'text-success-green' },
       failed: { bg: 'bg-error-red bg-opacity-10', text: 'text-error-red' },
       paused: { bg: 'bg-warning-orange bg-opacity-10', text: 'text-warning-orange' },
+      cancelled: { bg: 'bg-gray-100', text: 'text-neutral-gray' },
     };
 
     const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.pending;
@@ -259,6 +360,8 @@ export default function RecentJobsTable() {
                           </div>
                           <div className="text-sm text-neutral-gray">
                             {job.totalProfiles.toLocaleString()} profiles
+                            {job.parentJobId && ` · rerun of job #${job.parentJobId}`}
+                            {job.rerunCount > 0 && ` · ${job.rerunCount} rerun${job.rerunCount > 1 ? 's' : ''}`}
                           </div>
                         </div>
                       </div>
@@ -308,12 +411,115 @@ export default function RecentJobsTable() {
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => downloadResultsMutation.mutate(job.id)}
+                            onClick={() => downloadResultsMutation.mutate({
+                              jobId: job.id,
+                              combined: !!job.parentJobId || job.rerunCount > 0,
+                            })}
                             className="text-azure-blue hover:text-azure-dark"
                           >
                             <Download className="h-4 w-4" />
                           </Button>
                         )}
+                        {job.status === 'completed' && ENRICHABLE_EXTENSIONS.includes(fileExtension(job.fileName)) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Download your file with the extracted details added"
+                            onClick={() => downloadResultsMutation.mutate({
+                              jobId: job.id,
+                              combined: !!job.parentJobId || job.rerunCount > 0,
+                              enriched: true,
+                              fileName: job.fileName,
+                            })}
+                            className="text-azure-blue hover:text-azure-dark"
+                          >
+                            <FileDown className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {job.status === 'completed' && (
+                          <AlertDialog onOpenChange={(open) => open && setRefreshCron(REFRESH_SCHEDULES[1].value)}>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Schedule refresh runs"
+                                className="text-azure-blue hover:text-azure-dark"
+                              >
+                                <CalendarClock className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Schedule refresh runs?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  The {job.totalProfiles.toLocaleString()} profiles from "{job.fileName}" will be extracted again on a schedule, without re-uploading the file.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <Select value={refreshCron} onValueChange={setRefreshCron}>
+                                <SelectTrigger id={`refresh-schedule-${job.id}`} name="cron" className="w-[200px]">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {REFRESH_SCHEDULES.map((schedule) => (
+                                    <SelectItem key={schedule.value} value={schedule.value}>
+                                      {schedule.label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => scheduleRefreshMutation.mutate({ job, cron: refreshCron })}
+                                >
+                                  Schedule
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                        {(job.status === 'completed' || job.status === 'failed') && job.failedProfiles > 0 && (
+                          <AlertDialog onOpenChange={(open) => open && setRerunErrorType("all")}>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Rerun failed profiles"
+                                className="text-azure-blue hover:text-azure-dark"
+                              >
+                                <RotateCcw className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Rerun failed profiles?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  A new job will retry the {job.failedProfiles.toLocaleString()} failed profiles from "{job.fileName}". Its results are merged into this job's combined download.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <Select value={rerunErrorType} onValueChange={setRerunErrorType}>
+                                <SelectTrigger id={`rerun-error-type-${job.id}`} name="errorType" className="w-[200px]">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {RERUN_ERROR_TYPES.map((type) => (
+                                    <SelectItem key={type.value} value={type.value}>
+                                      {type.label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => rerunFailedMutation.mutate({ jobId: job.id, errorType: rerunErrorType })}
+                                >
+                                  Rerun
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <Button
@@ -328,7 +534,7 @@ export default function RecentJobsTable() {
                             <AlertDialogHeader>
                               <AlertDialogTitle>Delete job?</AlertDialogTitle>
                               <AlertDialogDescription>
-                                Are you sure you want to delete the job "{job.fileName}"? This action cannot be undone and all associated data will be permanently removed.
+                                Are you sure you want to delete the job "{job.fileName}"? A running job is cancelled. The job can be restored for 7 days, after which it is permanently removed with its uploaded file and results.
                               </AlertDialogDescription>
                             </AlertDialogHeader>
                             <AlertDialogFooter>
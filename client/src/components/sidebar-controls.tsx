@@ -1,11 +1,14 @@
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { NetworkError } from "@/components/ui/network-error";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { toast } from "@/hooks/use-toast";
 import { Download, AlertCircle, FileText, Linkedin, Wifi } from "lucide-react";
+import { type ExportFormat, type ExportTemplate } from "@shared/schema";
 
 interface AuthStatus {
   linkedinConnected: boolean;
@@ -23,13 +26,40 @@ interface ErrorBreakdown {
   accessRestricted: number;
 }
 
+interface ExportTemplates {
+  presets: { id: string; name: string }[];
+  templates: ExportTemplate[];
+}
+
+// A background export, as returned while it runs and once its file is ready
+interface ExportTaskStatus {
+  id: string;
+  status: 'running' | 'ready' | 'failed';
+  progress: number | null;
+  fileName: string;
+  error: string | null;
+  statusUrl: string;
+  downloadUrl: string | null;
+}
+
 interface ExportCounts {
   successful: number;
   failed: number;
   total: number;
 }
 
+const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'xlsx', label: 'Excel (.xlsx)' },
+  { value: 'csv', label: 'CSV (.csv)' },
+  { value: 'json', label: 'JSON (.json)' },
+  { value: 'ndjson', label: 'NDJSON (.ndjson)' },
+];
+
 export default function SidebarControls() {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('xlsx');
+  const [exportTemplate, setExportTemplate] = useState('standard');
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+
   const { data: authStatus, isLoading: authLoading, error: authError } = useQuery<AuthStatus>({
     queryKey: ["/api/auth/status-detailed"],
   });
@@ -42,19 +72,40 @@ export default function SidebarControls() {
     queryKey: ["/api/stats/export-counts"],
   });
 
+  const { data: exportTemplates } = useQuery<ExportTemplates>({
+    queryKey: ["/api/export-templates"],
+  });
+
   const exportMutation = useMutation({
     mutationFn: async (type: 'successful' | 'failed' | 'all') => {
-      const response = await apiRequest("POST", `/api/export/${type}`);
-      const blob = await response.blob();
-      
-      // Create download link
-      const url = window.URL.createObjectURL(blob);
+      const params = new URLSearchParams({ format: exportFormat });
+      if (exportTemplate !== 'standard') {
+        params.set('template', exportTemplate);
+      }
+      const response = await apiRequest("POST", `/api/export/${type}?${params}`);
+      let task: ExportTaskStatus = await response.json();
+
+      // The file is written in the background; follow the task until it's ready
+      setExportProgress(0);
+      try {
+        while (task.status === 'running') {
+          await new Promise(resolve => setTimeout(resolve, 1000));
+          task = await (await apiRequest("GET", task.statusUrl)).json();
+          setExportProgress(task.progress ?? 0);
+        }
+      } finally {
+        setExportProgress(null);
+      }
+      if (task.status !== 'ready' || !task.downloadUrl) {
+        throw new Error(task.error || 'Export failed');
+      }
+
+      // The signed link needs no session, so the browser can download it directly
       const a = document.createElement('a');
-      a.href = url;
-      a.download = `linkedin_data_${type}_${new Date().toISOString().split('T')[0]}.xlsx`;
+      a.href = task.downloadUrl;
+      a.download = task.fileName;
       document.body.appendChild(a);
       a.click();
-      window.URL.revokeObjectURL(url);
       document.body.removeChild(a);
       
       return { success: true };
@@ -65,10 +116,10 @@ export default function SidebarControls() {
         description: "Your file has been downloaded successfully.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Export failed",
-        description: "Failed to export data. Please try again.",
+        description: error.message || "Failed to export data. Please try again.",
         variant: "destructive",
       });
     },
@@ -172,7 +223,7 @@ export default function SidebarControls() {
                   <p>
                     Rate Limit: <span className="font-medium text-text-dark">
                       {authStatus.rateLimitInfo.used}/{authStatus.rateLimitInfo.limit}
-                    </span> requests/hour
+                    </span> requests/day
                   </p>
                   <p className="mt-1">
                     Reset in: <span className="font-medium text-text-dark">
@@ -201,6 +252,38 @@ export default function SidebarControls() {
             </div>
           ) : (
             <div className="space-y-3">
+            <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+              <SelectTrigger id="export-format" name="format" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_FORMATS.map((format) => (
+                  <SelectItem key={format.value} value={format.value}>
+                    {format.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={exportTemplate} onValueChange={setExportTemplate}>
+              <SelectTrigger id="export-template" name="template" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="standard">Standard columns</SelectItem>
+                {exportTemplates?.presets.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+                {exportTemplates?.templates.map((template) => (
+                  <SelectItem key={template.id} value={String(template.id)}>
+                    {template.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
             <Button
               onClick={() => exportMutation.mutate('successful')}
               disabled={exportMutation.isPending}
@@ -229,6 +312,10 @@ export default function SidebarControls() {
               <FileText className="mr-2 h-4 w-4" />
               Export All Results
             </Button>
+
+            {exportProgress !== null && (
+              <p className="text-sm text-neutral-gray">Preparing export... {exportProgress}%</p>
+            )}
           </div>
           )}
         </CardContent>
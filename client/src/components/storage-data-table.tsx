@@ -20,6 +20,7 @@ import {
   Eye
 } from "lucide-react";
 import ProfileModal from "./profile-modal";
+import JobTimeline from "./job-timeline";
 
 interface StorageStats {
   totalJobs: number;
@@ -161,11 +162,14 @@ export default function StorageDataTable() {
 
       <CardContent className="p-6">
         <Tabs defaultValue="jobs" className="w-full">
-          <TabsList className="grid w-full grid-cols-2 mb-4">
+          <TabsList className="grid w-full grid-cols-3 mb-4">
             <TabsTrigger value="jobs">Jobs</TabsTrigger>
             <TabsTrigger value="profiles" disabled={!selectedJobId}>
               Profiles {selectedJobId && `(Job ${selectedJobId})`}
             </TabsTrigger>
+            <TabsTrigger value="timeline" disabled={!selectedJobId}>
+              Timeline
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="jobs" className="space-y-4">
@@ -383,6 +387,10 @@ export default function StorageDataTable() {
               </table>
             </div>
           </TabsContent>
+
+          <TabsContent value="timeline">
+            {selectedJobId && <JobTimeline jobId={selectedJobId} />}
+          </TabsContent>
         </Tabs>
       </CardContent>
     </Card>
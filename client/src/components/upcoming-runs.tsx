@@ -0,0 +1,128 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { NetworkError } from "@/components/ui/network-error";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { CalendarClock, Play, Trash2 } from "lucide-react";
+
+interface UpcomingRun {
+  scheduleId: number;
+  name: string;
+  targetType: 'url_list' | 'job';
+  runAt: string;
+}
+
+const UPCOMING_RUNS_LIMIT = 5;
+
+function formatRunTime(runAt: string) {
+  const date = new Date(runAt);
+  const diffInMinutes = Math.round((date.getTime() - Date.now()) / (1000 * 60));
+
+  if (diffInMinutes < 1) return 'Starting soon';
+  if (diffInMinutes < 60) return `In ${diffInMinutes}m`;
+  if (diffInMinutes < 24 * 60) return `In ${Math.round(diffInMinutes / 60)}h`;
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+export default function UpcomingRuns() {
+  const { toast } = useToast();
+  const { data: runs = [], isLoading, error, refetch } = useQuery<UpcomingRun[]>({
+    queryKey: ["/api/schedules/upcoming"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/schedules/upcoming?limit=${UPCOMING_RUNS_LIMIT}`);
+      return response.json();
+    },
+    refetchInterval: 60000, // Runs move on as schedules fire
+  });
+
+  const runNowMutation = useMutation({
+    mutationFn: async (scheduleId: number) => {
+      const response = await apiRequest("POST", `/api/schedules/${scheduleId}/run`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs/recent"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs/current-status"] });
+      toast({ title: "Scheduled job started" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to start scheduled job", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteScheduleMutation = useMutation({
+    mutationFn: async (scheduleId: number) => {
+      const response = await apiRequest("DELETE", `/api/schedules/${scheduleId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schedules/upcoming"] });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <CalendarClock className="h-5 w-5 text-azure-blue" />
+          <span>Upcoming Runs</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          [...Array(3)].map((_, i) => (
+            <div key={i} className="flex items-center justify-between">
+              <Skeleton className="h-4 w-32" />
+              <Skeleton className="h-4 w-16" />
+            </div>
+          ))
+        ) : error ? (
+          <NetworkError error={error} onRetry={() => refetch()} />
+        ) : runs.length === 0 ? (
+          <div className="text-sm text-neutral-gray">
+            No scheduled runs. Schedule refresh runs from a completed job.
+          </div>
+        ) : (
+          runs.map((run, index) => (
+            <div key={`${run.scheduleId}-${run.runAt}`} className="flex items-center justify-between">
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-text-dark truncate">{run.name}</div>
+                <div className="flex items-center space-x-2 text-xs text-neutral-gray">
+                  <span>{formatRunTime(run.runAt)}</span>
+                  <Badge variant="secondary">{run.targetType === 'job' ? 'Job refresh' : 'URL list'}</Badge>
+                </div>
+              </div>
+              {/* Actions apply to the whole schedule, so only its first listed run gets them */}
+              {runs.findIndex(other => other.scheduleId === run.scheduleId) === index && (
+                <div className="flex items-center">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Run now"
+                    onClick={() => runNowMutation.mutate(run.scheduleId)}
+                    disabled={runNowMutation.isPending}
+                    className="text-azure-blue hover:text-azure-dark"
+                  >
+                    <Play className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Delete schedule"
+                    onClick={() => deleteScheduleMutation.mutate(run.scheduleId)}
+                    className="text-neutral-gray hover:text-error-red"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
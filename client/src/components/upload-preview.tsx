@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Copy, FileSpreadsheet, History, Loader2, XCircle, type LucideIcon } from "lucide-react";
+import {
+  type ConfirmUploadOptions,
+  type RowWarning,
+  type UploadPreview as UploadPreviewData,
+  type UploadPreviewReport,
+} from "@/lib/file-utils";
+
+interface UploadPreviewProps {
+  preview: UploadPreviewData;
+  isConfirming: boolean;
+  onConfirm: (options: ConfirmUploadOptions) => void;
+  onDiscard: () => void;
+}
+
+const WARNING_STYLES: Record<RowWarning['type'], { icon: LucideIcon; color: string }> = {
+  missing_url: { icon: XCircle, color: 'text-error-red' },
+  invalid_url: { icon: XCircle, color: 'text-error-red' },
+  duplicate_in_file: { icon: Copy, color: 'text-neutral-gray' },
+  previously_harvested: { icon: History, color: 'text-warning-orange' },
+};
+
+// Rows with these warnings are read, so they can be left out; the others are skipped anyway
+const EXCLUDABLE: RowWarning['type'][] = ['previously_harvested'];
+
+function isReady(preview: UploadPreviewData): preview is UploadPreviewData & UploadPreviewReport {
+  return preview.status === 'ready';
+}
+
+export default function UploadPreview({ preview, isConfirming, onConfirm, onDiscard }: UploadPreviewProps) {
+  const [excludedRows, setExcludedRows] = useState<Set<number>>(new Set());
+  const [excludeHarvested, setExcludeHarvested] = useState(false);
+
+  const toggleRow = (rowIndex: number, excluded: boolean) => {
+    setExcludedRows(current => {
+      const next = new Set(current);
+      if (excluded) {
+        next.add(rowIndex);
+      } else {
+        next.delete(rowIndex);
+      }
+      return next;
+    });
+  };
+
+  // Large files take a while; the report comes once every row was read
+  if (!isReady(preview)) {
+    return (
+      <div className="mt-6 rounded-lg border border-gray-200 p-4 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Loader2 className="text-azure-blue h-5 w-5 animate-spin" />
+          <div>
+            <p className="font-medium text-text-dark">{preview.name}</p>
+            <p className="text-sm text-neutral-gray">
+              Reading file... {preview.rowsRead.toLocaleString()} rows so far
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" onClick={onDiscard}>
+          Discard
+        </Button>
+      </div>
+    );
+  }
+
+  const { counts } = preview;
+  const stats = [
+    { label: 'Rows', value: counts.rows, color: 'text-text-dark' },
+    { label: 'Valid URLs', value: counts.validUrls, color: 'text-success-green' },
+    { label: 'Invalid rows', value: counts.invalidRows, color: 'text-error-red' },
+    { label: 'Duplicates in file', value: counts.duplicatesInFile, color: 'text-neutral-gray' },
+    { label: 'Already extracted', value: counts.previouslyHarvested, color: 'text-warning-orange' },
+    { label: 'New profiles', value: counts.newProfiles, color: 'text-azure-blue' },
+  ];
+
+  const mappedFields = preview.mapping ?
+    Object.entries(preview.mapping.columns).map(([field, reference]) => `${field}: ${typeof reference === 'number' ? `Column ${reference + 1}` : reference}`) :
+    [];
+
+  return (
+    <div className="mt-6 rounded-lg border border-gray-200">
+      <div className="flex items-center justify-between p-4 border-b border-gray-200">
+        <div className="flex items-center space-x-3">
+          <FileSpreadsheet className="text-azure-blue text-xl" />
+          <div>
+            <p className="font-medium text-text-dark">{preview.name}</p>
+            <p className="text-sm text-neutral-gray">
+              Review before creating the job{preview.mapping ? ` · sheet "${preview.mapping.sheet}"` : ''}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {preview.duplicateOfJobId !== null && (
+          <p className="text-sm text-warning-orange flex items-center">
+            <AlertTriangle className="mr-2 h-4 w-4" />
+            This file was already uploaded as job #{preview.duplicateOfJobId}
+          </p>
+        )}
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+          {stats.map((stat) => (
+            <div key={stat.label} className="rounded-md bg-gray-50 p-3">
+              <p className={`text-xl font-semibold ${stat.color}`}>{stat.value.toLocaleString()}</p>
+              <p className="text-xs text-neutral-gray">{stat.label}</p>
+            </div>
+          ))}
+        </div>
+
+        {preview.columns.length > 0 && (
+          <div>
+            <p className="text-sm font-medium text-text-dark mb-2">Detected columns</p>
+            <div className="flex flex-wrap gap-2">
+              {preview.columns.map((column) => (
+                <Badge key={column.index} variant="outline">
+                  {column.name || `Column ${column.index + 1}`}
+                </Badge>
+              ))}
+            </div>
+            {mappedFields.length > 0 && (
+              <p className="text-xs text-neutral-gray mt-2">Mapped {mappedFields.join(' · ')}</p>
+            )}
+          </div>
+        )}
+
+        <div>
+          <p className="text-sm font-medium text-text-dark mb-2">Sample rows</p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">Row</TableHead>
+                <TableHead>LinkedIn URL</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead className="w-20 text-right">Include</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.sampleRows.map((row) => (
+                <TableRow key={`${row.rowIndex}-${row.url}`}>
+                  <TableCell className="text-neutral-gray">{row.rowIndex + 1}</TableCell>
+                  <TableCell className="font-mono text-xs break-all">{row.url}</TableCell>
+                  <TableCell className="text-xs text-neutral-gray">
+                    {Object.values(row.additionalData || {}).slice(0, 3).join(' · ')}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Checkbox
+                      checked={!excludedRows.has(row.rowIndex)}
+                      onCheckedChange={(checked) => toggleRow(row.rowIndex, checked !== true)}
+                      aria-label={`Include row ${row.rowIndex + 1}`}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {preview.warnings.length > 0 && (
+          <div>
+            <p className="text-sm font-medium text-text-dark mb-2 flex items-center">
+              <AlertTriangle className="mr-2 h-4 w-4 text-warning-orange" />
+              Warnings
+            </p>
+            <ScrollArea className="max-h-56 rounded-md border border-gray-200">
+              <ul className="divide-y divide-gray-100">
+                {preview.warnings.map((warning) => {
+                  const style = WARNING_STYLES[warning.type];
+                  const Icon = style.icon;
+                  return (
+                    <li key={`${warning.rowIndex}-${warning.type}-${warning.url}`} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <div className="flex items-center space-x-2 min-w-0">
+                        <Icon className={`h-4 w-4 flex-shrink-0 ${style.color}`} />
+                        <span className="text-neutral-gray">Row {warning.rowIndex + 1}</span>
+                        <span className="text-text-dark truncate">{warning.message}</span>
+                      </div>
+                      {EXCLUDABLE.includes(warning.type) && (
+                        <Checkbox
+                          checked={!excludeHarvested && !excludedRows.has(warning.rowIndex)}
+                          disabled={excludeHarvested}
+                          onCheckedChange={(checked) => toggleRow(warning.rowIndex, checked !== true)}
+                          aria-label={`Include row ${warning.rowIndex + 1}`}
+                        />
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </ScrollArea>
+            {preview.warningsTruncated && (
+              <p className="text-xs text-neutral-gray mt-1">
+                Only the first {preview.warnings.length.toLocaleString()} warnings are listed.
+              </p>
+            )}
+          </div>
+        )}
+
+        {counts.previouslyHarvested > 0 && (
+          <label className="flex items-center space-x-2 text-sm text-text-dark">
+            <Checkbox
+              checked={excludeHarvested}
+              onCheckedChange={(checked) => setExcludeHarvested(checked === true)}
+            />
+            <span>Skip the {counts.previouslyHarvested.toLocaleString()} profiles already extracted</span>
+          </label>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <Button variant="outline" onClick={onDiscard} disabled={isConfirming}>
+            Discard
+          </Button>
+          <Button
+            onClick={() => onConfirm({ excludeRows: Array.from(excludedRows), excludeHarvested })}
+            disabled={isConfirming}
+            className="bg-azure-blue text-white hover:bg-azure-dark"
+          >
+            {isConfirming ? 'Creating job...' : 'Create job'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
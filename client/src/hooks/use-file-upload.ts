@@ -1,11 +1,24 @@
-import { useCallback, useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useCallback, useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
-import { uploadFile } from "@/lib/file-utils";
+import {
+  uploadFile,
+  inspectFile,
+  confirmUpload,
+  discardUpload,
+  pasteUrls,
+  hasSupportedExtension,
+  SUPPORTED_EXTENSIONS,
+  type FileInspection,
+  type UploadMappingOptions,
+  type UploadPreview,
+  type ConfirmUploadOptions,
+} from "@/lib/file-utils";
 import { toast } from "@/hooks/use-toast";
 
+const PREVIEW_POLL_INTERVAL = 1000; // while the server reads the file
+
 interface UseFileUploadOptions {
-  allowedTypes?: string[];
   maxSizeMB?: number;
   onSuccess?: () => void;
   onError?: (error: Error) => void;
@@ -13,41 +26,139 @@ interface UseFileUploadOptions {
 
 export function useFileUpload(options: UseFileUploadOptions = {}) {
   const {
-    allowedTypes = ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/vnd.ms-excel'],
     maxSizeMB = 50,
     onSuccess,
     onError,
   } = options;
 
   const [dragActive, setDragActive] = useState(false);
+  // File waiting for the user to confirm its sheet and column mapping
+  const [pendingFile, setPendingFile] = useState<{ file: File; inspection: FileInspection } | null>(null);
+  // Upload being read, or waiting to be confirmed or discarded
+  const [previewId, setPreviewId] = useState<string | null>(null);
+
+  const { data: preview } = useQuery<UploadPreview>({
+    queryKey: ["/api/files/previews", previewId],
+    enabled: previewId !== null,
+    refetchInterval: (query) => query.state.data?.status === 'parsing' ? PREVIEW_POLL_INTERVAL : false,
+  });
+
+  // A file that turns out to be unreadable fails after the upload itself succeeded
+  useEffect(() => {
+    if (previewId && preview?.status === 'failed') {
+      const error = new Error(preview.error || "Failed to read the file. Please try again.");
+      toast({
+        title: "Upload failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      setPreviewId(null);
+      onError?.(error);
+    }
+  }, [previewId, preview, onError]);
+
+  const validateFile = useCallback((file: File) => {
+    // Validate file type; browsers report CSV and NDJSON types inconsistently, so go by extension
+    if (!hasSupportedExtension(file.name)) {
+      throw new Error(`Invalid file type. Supported formats: ${SUPPORTED_EXTENSIONS.join(', ')}`);
+    }
+
+    // Validate file size
+    const maxSizeBytes = maxSizeMB * 1024 * 1024;
+    if (file.size > maxSizeBytes) {
+      throw new Error(`File size exceeds ${maxSizeMB}MB limit`);
+    }
+  }, [maxSizeMB]);
 
   const uploadMutation = useMutation({
-    mutationFn: async (file: File) => {
-      // Validate file type
-      if (!allowedTypes.includes(file.type)) {
-        throw new Error(`Invalid file type. Allowed types: ${allowedTypes.join(', ')}`);
+    mutationFn: async ({ file, options }: { file: File; options?: UploadMappingOptions }) => {
+      validateFile(file);
+      return await uploadFile(file, options);
+    },
+    onSuccess: (data, { options }) => {
+      setPendingFile(null);
+      queryClient.setQueryData(["/api/files/previews", data.previewId], data);
+      setPreviewId(data.previewId);
+      if (options?.saveTemplateAs) {
+        queryClient.invalidateQueries({ queryKey: ["/api/mapping-templates"] });
       }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message || "Failed to upload file. Please try again.",
+        variant: "destructive",
+      });
+      onError?.(error);
+    },
+  });
 
-      // Validate file size
-      const maxSizeBytes = maxSizeMB * 1024 * 1024;
-      if (file.size > maxSizeBytes) {
-        throw new Error(`File size exceeds ${maxSizeMB}MB limit`);
-      }
+  const confirmMutation = useMutation({
+    mutationFn: async (options: ConfirmUploadOptions) => confirmUpload(previewId!, options),
+    onSuccess: () => {
+      setPreviewId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/files/uploaded"] });
+      toast({
+        title: "File uploaded successfully",
+        description: "Profiles are being added from the file; start the job once they are all in.",
+      });
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message || "Failed to create the job. Please try again.",
+        variant: "destructive",
+      });
+      onError?.(error);
+    },
+  });
+
+  const discardPreview = useCallback(() => {
+    if (previewId) {
+      // The server purges unconfirmed previews anyway, so a failure here is harmless
+      discardUpload(previewId).catch(() => {});
+      setPreviewId(null);
+    }
+  }, [previewId]);
 
-      return await uploadFile(file);
+  // Files with columns are inspected first so the user can pick the sheet and columns
+  const inspectMutation = useMutation({
+    mutationFn: async (file: File) => {
+      validateFile(file);
+      return { file, inspection: await inspectFile(file) };
+    },
+    onSuccess: ({ file, inspection }) => {
+      if (inspection.sheets.length === 0) {
+        uploadMutation.mutate({ file });
+      } else {
+        setPendingFile({ file, inspection });
+      }
     },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message || "Failed to read the file. Please try again.",
+        variant: "destructive",
+      });
+      onError?.(error);
+    },
+  });
+
+  const pasteMutation = useMutation({
+    mutationFn: async ({ text, name }: { text: string; name?: string }) => pasteUrls(text, name),
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/files/uploaded"] });
       toast({
-        title: "File uploaded successfully",
-        description: "Your file has been processed and is ready for extraction.",
+        title: "URLs added",
+        description: `${data.profileCount.toLocaleString()} LinkedIn URLs are ready for extraction.`,
       });
       onSuccess?.();
     },
     onError: (error: Error) => {
       toast({
-        title: "Upload failed",
-        description: error.message || "Failed to upload file. Please try again.",
+        title: "Paste failed",
+        description: error.message || "Failed to add the pasted URLs. Please try again.",
         variant: "destructive",
       });
       onError?.(error);
@@ -59,27 +170,35 @@ export function useFileUpload(options: UseFileUploadOptions = {}) {
     setDragActive(false);
     
     const files = Array.from(e.dataTransfer.files);
-    const validFile = files.find(file => allowedTypes.includes(file.type));
+    const validFile = files.find(file => hasSupportedExtension(file.name));
     
     if (validFile) {
-      uploadMutation.mutate(validFile);
+      inspectMutation.mutate(validFile);
     } else {
       toast({
         title: "Invalid file type",
-        description: "Please upload Excel files (.xlsx or .xls) only.",
+        description: "Please upload an Excel, CSV, TSV, JSON, NDJSON or text file.",
         variant: "destructive",
       });
     }
-  }, [uploadMutation, allowedTypes]);
+  }, [inspectMutation]);
 
   const handleFileSelect = useCallback((file: File) => {
-    uploadMutation.mutate(file);
-  }, [uploadMutation]);
+    inspectMutation.mutate(file);
+  }, [inspectMutation]);
+
+  const confirmMapping = useCallback((options: UploadMappingOptions) => {
+    if (pendingFile) {
+      uploadMutation.mutate({ file: pendingFile.file, options });
+    }
+  }, [pendingFile, uploadMutation]);
+
+  const cancelMapping = useCallback(() => setPendingFile(null), []);
 
   const openFileDialog = useCallback(() => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.xlsx,.xls';
+    input.accept = SUPPORTED_EXTENSIONS.join(',');
     input.onchange = (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (file) {
@@ -95,8 +214,17 @@ export function useFileUpload(options: UseFileUploadOptions = {}) {
     handleDrop,
     handleFileSelect,
     openFileDialog,
-    isUploading: uploadMutation.isPending,
-    uploadError: uploadMutation.error,
+    isUploading: uploadMutation.isPending || inspectMutation.isPending,
+    uploadError: uploadMutation.error || inspectMutation.error,
     upload: uploadMutation.mutate,
+    pendingFile,
+    confirmMapping,
+    cancelMapping,
+    preview: previewId && preview?.status !== 'failed' ? preview ?? null : null,
+    confirmPreview: confirmMutation.mutate,
+    isConfirming: confirmMutation.isPending,
+    discardPreview,
+    pasteUrls: pasteMutation.mutate,
+    isPasting: pasteMutation.isPending,
   };
 }
\ No newline at end of file
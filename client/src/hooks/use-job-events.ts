@@ -0,0 +1,28 @@
+import { useEffect, useState } from "react";
+import {
+  retainJobEventStream,
+  isJobEventStreamLive,
+  onJobEventStreamLiveChange,
+} from "@/lib/job-events";
+
+/**
+ * Keeps the job event stream open while the calling component is mounted.
+ * Events are written straight into the React Query caches; `live` tells
+ * callers whether they still need to poll.
+ */
+export function useJobEvents() {
+  const [live, setLive] = useState(isJobEventStreamLive);
+
+  useEffect(() => {
+    const release = retainJobEventStream();
+    const unsubscribe = onJobEventStreamLiveChange(setLive);
+    setLive(isJobEventStreamLive());
+
+    return () => {
+      unsubscribe();
+      release();
+    };
+  }, []);
+
+  return { live };
+}
@@ -1,8 +1,9 @@
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { toast } from "@/hooks/use-toast";
+import { useJobEvents } from "@/hooks/use-job-events";
 
-interface JobStatus {
+export interface JobStatus {
   hasActiveJob: boolean;
   currentJob?: {
     id: number;
@@ -17,18 +18,26 @@ interface JobStatus {
     remaining: number;
     processingRate?: string;
     estimatedCompletion?: string;
+    pauseReason?: {
+      type: 'user' | 'circuit_breaker' | 'retry_policy';
+      errorType?: string;
+      failures?: number;
+      message: string;
+    } | null;
+    resumeAt?: string | null;
   };
 }
 
 export function useJobProcessing() {
+  const { live } = useJobEvents();
   const { data: jobStatus, isLoading, error } = useQuery<JobStatus | null>({
     queryKey: ["/api/jobs/current-status"],
-    refetchInterval: 5000, // Poll every 5 seconds
+    refetchInterval: live ? false : 5000, // Poll every 5 seconds while the event stream is down or quiet
     retry: 3,
   });
 
   const startJobMutation = useMutation({
-    mutationFn: async (data: { fileId: string; batchSize: number }) => {
+    mutationFn: async (data: { fileId: string; batchSize: number; source?: string }) => {
       const response = await apiRequest("POST", "/api/jobs/start", data);
       return response.json();
     },
@@ -82,10 +91,10 @@ export function useJobProcessing() {
         description: "Processing has been resumed.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Failed to resume job",
-        description: "Could not resume the processing job.",
+        description: error.message || "Could not resume the processing job.",
         variant: "destructive",
       });
     },
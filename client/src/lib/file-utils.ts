@@ -1,19 +1,138 @@
 import { apiRequest } from '@/lib/queryClient';
+import type { ColumnMapping, InputMapping, LinkedInUrl } from '@shared/schema';
 
-export async function uploadFile(file: File): Promise<{ id: string; profileCount: number }> {
-  const formData = new FormData();
-  formData.append('file', file);
+// Keep in step with CONFIG.FILE_UPLOAD.ALLOWED_EXTENSIONS on the server
+export const SUPPORTED_EXTENSIONS = ['.xlsx', '.xls', '.ods', '.csv', '.tsv', '.tab', '.json', '.ndjson', '.jsonl', '.txt', '.text'];
+
+export function hasSupportedExtension(fileName: string): boolean {
+  const dot = fileName.lastIndexOf('.');
+  return dot !== -1 && SUPPORTED_EXTENSIONS.includes(fileName.slice(dot).toLowerCase());
+}
+
+export interface ColumnInfo {
+  index: number;
+  name: string | null;
+  linkedinUrls: number;
+  samples: string[];
+}
+
+export interface SheetInspection {
+  name: string;
+  rowCount: number;
+  headerRow: number | null;
+  columns: ColumnInfo[];
+  suggestedMapping: ColumnMapping | null;
+}
+
+export interface FileInspection {
+  format: string;
+  sheets: SheetInspection[]; // empty for formats without columns
+}
+
+export interface RowWarning {
+  rowIndex: number; // zero-based; shown one-based like spreadsheet rows
+  url: string | null;
+  type: 'missing_url' | 'invalid_url' | 'duplicate_in_file' | 'previously_harvested';
+  message: string;
+  jobId?: number;
+}
 
-  const response = await fetch('/api/files/upload', {
+// What confirming would create, once the whole file was read
+export interface UploadPreviewReport {
+  format: string;
+  mapping: InputMapping | null;
+  columns: ColumnInfo[];
+  sampleRows: LinkedInUrl[];
+  counts: {
+    rows: number;
+    validUrls: number;
+    invalidRows: number;
+    duplicatesInFile: number;
+    previouslyHarvested: number;
+    newProfiles: number;
+  };
+  warnings: RowWarning[];
+  warningsTruncated: boolean;
+}
+
+// Returned by the upload and polled while the file is read; nothing is created until it is confirmed
+export interface UploadPreview extends Partial<UploadPreviewReport> {
+  previewId: string;
+  name: string;
+  size: number;
+  expiresAt: string;
+  duplicateOfJobId: number | null; // a job of the user's from a file with the same content
+  status: 'parsing' | 'ready' | 'failed';
+  rowsRead: number;
+  error: string | null;
+}
+
+export interface ConfirmUploadOptions {
+  excludeRows?: number[];
+  excludeHarvested?: boolean;
+}
+
+export interface UploadMappingOptions {
+  sheet?: string;
+  mapping?: ColumnMapping;
+  templateId?: number;
+  saveTemplateAs?: string;
+}
+
+// Multipart requests can't go through apiRequest, which sends JSON
+async function postFile(url: string, formData: FormData): Promise<Response> {
+  const accessToken = localStorage.getItem('accessToken');
+  const response = await fetch(url, {
     method: 'POST',
+    headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
     body: formData,
     credentials: 'include',
   });
 
   if (!response.ok) {
-    const error = await response.text();
-    throw new Error(error || 'Failed to upload file');
+    const text = await response.text();
+    let message = text;
+    try {
+      message = JSON.parse(text).error || text;
+    } catch {
+      // not JSON; use the text as is
+    }
+    throw new Error(message || 'Failed to upload file');
   }
 
+  return response;
+}
+
+export async function inspectFile(file: File): Promise<FileInspection> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await postFile('/api/files/inspect', formData);
+  return response.json();
+}
+
+export async function uploadFile(file: File, options: UploadMappingOptions = {}): Promise<UploadPreview> {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (options.sheet) formData.append('sheet', options.sheet);
+  if (options.mapping) formData.append('mapping', JSON.stringify(options.mapping));
+  if (options.templateId) formData.append('templateId', String(options.templateId));
+  if (options.saveTemplateAs) formData.append('saveTemplateAs', options.saveTemplateAs);
+
+  const response = await postFile('/api/files/upload', formData);
+  return response.json();
+}
+
+export async function confirmUpload(previewId: string, options: ConfirmUploadOptions): Promise<{ id: string; profileCount: number }> {
+  const response = await apiRequest('POST', `/api/files/previews/${previewId}/confirm`, options);
+  return response.json();
+}
+
+export async function discardUpload(previewId: string): Promise<void> {
+  await apiRequest('DELETE', `/api/files/previews/${previewId}`);
+}
+
+export async function pasteUrls(text: string, name?: string): Promise<{ id: string; profileCount: number }> {
+  const response = await apiRequest('POST', '/api/files/paste', { text, name });
   return response.json();
-}
\ No newline at end of file
+}
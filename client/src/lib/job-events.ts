@@ -0,0 +1,234 @@
+import type { JobEvent } from "@shared/schema";
+import type { JobStatus } from "@/hooks/use-job-processing";
+import { queryClient } from "./queryClient";
+
+const RECONNECT_DELAY = 5000;
+const INVALIDATE_DELAY = 2000;
+// The server's heartbeat interval. Only the server running a job publishes its
+// events, so a quiet stream may just be on another server; callers poll then.
+const QUIET_AFTER = 25000;
+
+type LiveListener = (live: boolean) => void;
+
+// One stream per tab, shared by every component that needs live job updates
+let consumers = 0;
+let controller: AbortController | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let quietTimer: ReturnType<typeof setTimeout> | null = null;
+let live = false;
+const liveListeners = new Set<LiveListener>();
+const pendingInvalidations = new Map<string, ReturnType<typeof setTimeout>>();
+
+export function retainJobEventStream(): () => void {
+  consumers++;
+  if (consumers === 1) {
+    connect();
+  }
+
+  return () => {
+    consumers--;
+    if (consumers === 0) {
+      disconnect();
+    }
+  };
+}
+
+// True while the stream is open and has delivered an event within the heartbeat interval
+export function isJobEventStreamLive(): boolean {
+  return live;
+}
+
+export function onJobEventStreamLiveChange(listener: LiveListener): () => void {
+  liveListeners.add(listener);
+  return () => {
+    liveListeners.delete(listener);
+  };
+}
+
+function setLive(value: boolean) {
+  if (quietTimer) {
+    clearTimeout(quietTimer);
+    quietTimer = null;
+  }
+  if (value) {
+    quietTimer = setTimeout(() => setLive(false), QUIET_AFTER);
+  }
+  if (live !== value) {
+    live = value;
+    liveListeners.forEach(listener => listener(value));
+  }
+}
+
+async function connect() {
+  const abortController = new AbortController();
+  controller = abortController;
+
+  try {
+    const accessToken = localStorage.getItem("accessToken");
+    const res = await fetch("/api/jobs/events", {
+      headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+      credentials: "include",
+      signal: abortController.signal,
+    });
+    if (!res.ok || !res.body) {
+      throw new Error(`${res.status}: ${res.statusText}`);
+    }
+
+    setLive(true);
+    // Events may have been missed while disconnected
+    queryClient.invalidateQueries({ queryKey: ["/api/jobs/current-status"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/jobs/recent"] });
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let boundary: number;
+      while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        const data = frame
+          .split("\n")
+          .filter(line => line.startsWith("data:"))
+          .map(line => line.slice(5).trimStart())
+          .join("\n");
+        if (data) {
+          setLive(true);
+          applyJobEvent(JSON.parse(data) as JobEvent);
+        }
+      }
+    }
+  } catch (error) {
+    if (!abortController.signal.aborted) {
+      console.warn("Job event stream disconnected:", error);
+    }
+  } finally {
+    setLive(false);
+  }
+
+  // Polling takes over until the stream is back
+  if (!abortController.signal.aborted && consumers > 0) {
+    reconnectTimer = setTimeout(connect, RECONNECT_DELAY);
+  }
+}
+
+function disconnect() {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  controller?.abort();
+  controller = null;
+}
+
+// Coalesces bursts of events into a single refetch
+function invalidateSoon(...queryKey: string[]) {
+  const id = queryKey.join("/");
+  if (pendingInvalidations.has(id)) return;
+  pendingInvalidations.set(id, setTimeout(() => {
+    pendingInvalidations.delete(id);
+    queryClient.invalidateQueries({ queryKey });
+  }, INVALIDATE_DELAY));
+}
+
+function formatEta(estimatedCompletion: string | null): string {
+  if (!estimatedCompletion) return 'Calculating...';
+  return Math.ceil((new Date(estimatedCompletion).getTime() - Date.now()) / (1000 * 60)) + 'm';
+}
+
+function applyJobEvent(event: JobEvent) {
+  // Each progress and status event comes with a new entry on the job's timeline
+  if (event.type === 'job.progress' || event.type === 'job.status') {
+    invalidateSoon("/api/jobs", String(event.jobId), "events");
+  }
+
+  switch (event.type) {
+    case 'job.progress': {
+      let isCurrentJob = false;
+      queryClient.setQueryData<JobStatus | null>(["/api/jobs/current-status"], (old) => {
+        if (!old?.currentJob || old.currentJob.id !== event.jobId) return old;
+        isCurrentJob = true;
+        return {
+          ...old,
+          currentJob: {
+            ...old.currentJob,
+            progress: Math.round((event.processedProfiles / event.totalProfiles) * 100),
+            processedProfiles: event.processedProfiles,
+            successful: event.successfulProfiles,
+            failed: event.failedProfiles,
+            retrying: event.retryingProfiles,
+            remaining: event.totalProfiles - event.processedProfiles,
+            processingRate: event.processingRate,
+            estimatedCompletion: formatEta(event.estimatedCompletion),
+          },
+        };
+      });
+      if (!isCurrentJob) {
+        invalidateSoon("/api/jobs/current-status");
+      }
+
+      queryClient.setQueryData<any[]>(["/api/jobs/recent"], (old) =>
+        old?.map(job => job.id === event.jobId ? {
+          ...job,
+          progress: Math.round((event.processedProfiles / event.totalProfiles) * 100),
+          successRate: (event.successfulProfiles / event.totalProfiles * 100).toFixed(1) + '%',
+          failedProfiles: event.failedProfiles,
+        } : job)
+      );
+      break;
+    }
+
+    case 'job.status': {
+      const active = event.status === 'processing' || event.status === 'paused';
+      let updated = false;
+      queryClient.setQueryData<JobStatus | null>(["/api/jobs/current-status"], (old) => {
+        if (!active || !old?.currentJob || old.currentJob.id !== event.jobId) return old;
+        updated = true;
+        return {
+          ...old,
+          currentJob: {
+            ...old.currentJob,
+            status: event.status,
+            pauseReason: event.pauseReason,
+            resumeAt: event.resumeAt,
+          },
+        };
+      });
+      if (!updated) {
+        invalidateSoon("/api/jobs/current-status");
+      }
+
+      let listed = false;
+      queryClient.setQueryData<any[]>(["/api/jobs/recent"], (old) =>
+        old?.map(job => {
+          if (job.id !== event.jobId) return job;
+          listed = true;
+          return { ...job, status: event.status };
+        })
+      );
+      if (!listed) {
+        invalidateSoon("/api/jobs/recent");
+      }
+
+      if (!active) {
+        invalidateSoon("/api/stats/overview");
+        invalidateSoon("/api/stats/errors");
+        invalidateSoon("/api/stats/export-counts");
+        invalidateSoon("/api/jobs");
+      }
+      break;
+    }
+
+    case 'profile.finished':
+      if (event.status === 'failed') {
+        invalidateSoon("/api/stats/errors");
+      }
+      break;
+  }
+}
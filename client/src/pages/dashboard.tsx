@@ -4,6 +4,7 @@ import ProcessingProgress from "@/components/processing-progress";
 import SidebarControls from "@/components/sidebar-controls";
 import RecentJobsTable from "@/components/recent-jobs-table";
 import SystemHealth from "@/components/system-health";
+import UpcomingRuns from "@/components/upcoming-runs";
 
 export default function Dashboard() {
   return (
@@ -18,6 +19,7 @@ export default function Dashboard() {
         <div className="space-y-6">
           <SystemHealth />
           <SidebarControls />
+          <UpcomingRuns />
         </div>
       </div>
       
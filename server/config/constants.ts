@@ -1,10 +1,56 @@
+import os from 'os';
+import path from 'path';
+import { randomBytes } from 'crypto';
+
 // Configuration constants for the application
 export const CONFIG = {
   // File upload limits
   FILE_UPLOAD: {
     MAX_SIZE: 50 * 1024 * 1024, // 50MB
-    ALLOWED_EXTENSIONS: ['.xlsx', '.xls'],
+    ALLOWED_EXTENSIONS: ['.xlsx', '.xls', '.ods', '.csv', '.tsv', '.tab', '.json', '.ndjson', '.jsonl', '.txt', '.text'],
     TEMP_DIRECTORY: 'uploads/',
+    MAX_PASTE_SIZE: 5 * 1024 * 1024, // 5MB of pasted URLs
+  },
+
+  // Where uploads, results and export files are kept; keys are paths like `uploads/<id>`
+  BLOB_STORE: {
+    DRIVER: process.env.BLOB_STORE || 'local', // 'local' or 's3'
+    LOCAL_ROOT: process.env.BLOB_STORE_ROOT || '.', // keys are paths under this directory
+    SPOOL_DIRECTORY: path.join(os.tmpdir(), 'linkedin-extractor'), // this server's scratch files: incoming uploads, local copies of blobs
+    S3: {
+      ENDPOINT: process.env.S3_ENDPOINT || 'https://s3.amazonaws.com', // e.g. http://localhost:9000 for MinIO
+      REGION: process.env.S3_REGION || 'us-east-1',
+      BUCKET: process.env.S3_BUCKET || '',
+      ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID || '',
+      SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY || '',
+      FORCE_PATH_STYLE: process.env.S3_FORCE_PATH_STYLE === 'true', // bucket in the path rather than the host name, as MinIO expects
+    },
+  },
+
+  // Parsed uploads waiting to be confirmed
+  UPLOAD_PREVIEW: {
+    TTL: 60 * 60 * 1000, // unconfirmed previews and their files are purged after an hour
+    SAMPLE_ROWS: 10,
+    MAX_WARNINGS: 500, // row warnings returned; the counts always cover every row
+  },
+
+  // Uploads are read and turned into profiles in the background, a chunk of rows at a time
+  INGESTION: {
+    CHUNK_SIZE: 1000, // rows per bulk insert and progress update
+    STALE_AFTER: 5 * 60 * 1000, // an ingestion without progress for this long is marked failed
+    SWEEP_INTERVAL: 60 * 1000,
+  },
+
+  // Result downloads are streamed, reading profiles a page at a time
+  EXPORT: {
+    PAGE_SIZE: 1000,
+    ARTIFACT_DIRECTORY: 'artifacts/exports/', // files of background exports
+    ARTIFACT_TTL: 24 * 60 * 60 * 1000, // a finished export's file is kept this long
+    LINK_TTL: 15 * 60 * 1000, // signed download links stop working after this
+    // Without a configured secret, links only verify on the server that signed them
+    LINK_SECRET: process.env.EXPORT_LINK_SECRET || process.env.SESSION_SECRET || randomBytes(32).toString('hex'),
+    STALE_AFTER: 5 * 60 * 1000, // a running export without progress for this long is marked failed
+    SWEEP_INTERVAL: 10 * 60 * 1000, // How often each server removes expired exports
   },
 
   // Job processing
@@ -12,10 +58,40 @@ export const CONFIG = {
     DEFAULT_BATCH_SIZE: 50,
     MIN_BATCH_SIZE: 10,
     MAX_BATCH_SIZE: 100,
-    RATE_LIMIT_DELAY: 2000, // 2 seconds between requests
     BATCH_DELAY: 5000, // 5 seconds between batches
-    MAX_RETRIES: 3,
-    RETRY_DELAY: 1000, // Initial retry delay
+    RETRY_PASS_DELAY: 30 * 1000, // Wait before the first pass over 'retrying' profiles, doubled per pass
+    MAX_RETRY_PASS_DELAY: 5 * 60 * 1000,
+  },
+
+  // Durable job queue
+  JOB_QUEUE: {
+    LEASE_DURATION: 60 * 1000, // A worker must heartbeat within this window to keep a job
+    HEARTBEAT_INTERVAL: 15 * 1000,
+    POLL_INTERVAL: 10 * 1000, // How often idle workers look for queued or orphaned jobs
+    WORKER_CONCURRENCY: parseInt(process.env.JOB_WORKER_CONCURRENCY || '3', 10), // Jobs run at once per server
+    MAX_JOBS_PER_USER: parseInt(process.env.JOB_MAX_JOBS_PER_USER || '1', 10), // Per server, so one user can't fill every slot
+    SCHEDULING_POLICY: (process.env.JOB_SCHEDULING_POLICY || 'round_robin') as 'round_robin' | 'weighted_fair',
+    MAX_PRIORITY: 10,
+    EVENT_STREAM_HEARTBEAT: 25 * 1000, // Keeps idle `/api/jobs/events` connections open through proxies; clients poll after this long without an event
+  },
+
+  // Future and recurring job runs
+  SCHEDULER: {
+    POLL_INTERVAL: 30 * 1000, // How often each server looks for due schedules
+    UPCOMING_RUNS: 10, // Default length of the upcoming runs list
+  },
+
+  // Deleted jobs can be restored for a while before they and their files are purged
+  JOB_DELETION: {
+    RESTORE_WINDOW: 7 * 24 * 60 * 60 * 1000, // 7 days
+    PURGE_INTERVAL: 60 * 60 * 1000, // How often each server purges expired jobs
+    RESULTS_DIRECTORY: 'results/',
+  },
+
+  // Where job profiles are fetched from, chosen per job
+  PROFILE_SOURCES: {
+    DEFAULT: 'mock',
+    FIXTURE_PATH: process.env.PROFILE_FIXTURE_PATH || 'fixtures/profiles.json',
   },
 
   // API limits
@@ -24,6 +100,40 @@ export const CONFIG = {
     RATE_LIMIT_WINDOW: 60 * 60 * 1000, // 1 hour
   },
 
+  // Outbound profile fetch limiter, one token bucket per provider and credential
+  RATE_LIMITER: {
+    PROVIDERS: {
+      linkedin: {
+        REQUESTS_PER_MINUTE: 30,
+        BURST: 5,
+        DAILY_CAP: 1000,
+        RECORD_USAGE: true, // The user's api_stats row is their LinkedIn quota
+      },
+      openai: {
+        REQUESTS_PER_MINUTE: 60,
+        BURST: 10,
+        DAILY_CAP: 5000,
+        RECORD_USAGE: false, // Shared by every user, so its usage is only counted in memory
+      },
+    },
+    USAGE_FLUSH_INTERVAL: 10 * 1000, // How often usage counted in memory is added to api_stats
+    MIN_RATE_MULTIPLIER: 0.1, // Never slow below 10% of the configured rate
+    RECOVERY_STEP: 0.05, // Rate regained per successful request after a slow-down
+    THROTTLE_COOLDOWN: 30 * 1000, // Pause after a 429, doubled for each consecutive one
+    MAX_THROTTLE_COOLDOWN: 10 * 60 * 1000,
+  },
+
+  // Pauses a job when its profile source keeps failing the same way
+  CIRCUIT_BREAKER: {
+    THRESHOLDS: { // Consecutive failures of one error type that trip the breaker
+      captcha: 3,
+      auth_expired: 1,
+      rate_limit: 5,
+    } as Record<string, number>,
+    COOLDOWN: 15 * 60 * 1000, // Tripped jobs resume on their own after this
+    MANUAL_RESUME: ['auth_expired'] as string[], // Only resumed by the user, after reconnecting LinkedIn
+  },
+
   // Demo mode
   DEMO: {
     USERNAME: 'demo_user',
@@ -52,7 +162,9 @@ export const CONFIG = {
     CAPTCHA: 'captcha',
     NOT_FOUND: 'not_found',
     ACCESS_RESTRICTED: 'access_restricted',
+    AUTH_EXPIRED: 'auth_expired',
     RATE_LIMIT: 'rate_limit',
+    UNKNOWN: 'unknown',
   },
 
   // Status types
@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { container } from "./services/dependency-container";
 
 const app = express();
 
@@ -74,5 +75,25 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Pick up jobs left behind by a previous process before accepting new ones
+    container.get('jobQueue').start().catch((error) => {
+      log(`failed to start job queue: ${error instanceof Error ? error.message : error}`);
+    });
+    container.get('jobScheduler').start().catch((error) => {
+      log(`failed to start job scheduler: ${error instanceof Error ? error.message : error}`);
+    });
+    container.get('jobCleanup').start().catch((error) => {
+      log(`failed to start job cleanup: ${error instanceof Error ? error.message : error}`);
+    });
+    container.get('uploadIngestion').start().catch((error) => {
+      log(`failed to start upload ingestion: ${error instanceof Error ? error.message : error}`);
+    });
+    container.get('exportTasks').start().catch((error) => {
+      log(`failed to start export tasks: ${error instanceof Error ? error.message : error}`);
+    });
+    container.get('rateLimiter').start().catch((error) => {
+      log(`failed to start rate limiter: ${error instanceof Error ? error.message : error}`);
+    });
   });
 })();
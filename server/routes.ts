@@ -1,17 +1,51 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
+import fs from "fs";
 import path from "path";
+import { randomUUID } from "crypto";
+import { pipeline } from "stream/promises";
 import { storage } from "./storage";
 import { linkedInService } from "./services/linkedin-api";
-import { excelProcessor } from "./services/excel-processor";
 import { container } from "./services/dependency-container";
 import { aiAssistant } from "./services/ai-assistant";
 import { jobSimulator } from "./services/job-simulator";
-import { insertJobSchema, loginSchema, insertUserSchema, type LinkedInUrl } from "@shared/schema";
+import { CONFIG } from "./config/constants";
+import { insertJobSchema, loginSchema, pasteUrlsSchema, uploadMappingSchema, confirmUploadSchema, insertColumnMappingTemplateSchema, insertUserSchema, retryPolicyOverridesSchema, dedupePolicySchema, insertJobScheduleSchema, updateJobScheduleSchema, exportFormatSchema, exportLayoutSchema, insertExportTemplateSchema, exportFilterSchema, insertSavedSearchSchema, jobTagsSchema, type ExportFormat, type ExportLayout, type LinkedInUrl, type PauseReason, type User, type InputMapping, type ColumnMapping, type UploadPreview, type ExportTask, type ExportTaskOptions, type JobSchedule, type InsertJobSchedule } from "@shared/schema";
+import { DEFAULT_RETRY_POLICY, parseRetryPolicyOverrides, resolveRetryPolicy } from "./services/retry-policy";
+import { nextScheduleRun } from "./services/job-scheduler";
+import type { UploadPreviewReport } from "./services/upload-preview";
+import { DEFAULT_DEDUPE_POLICY, parseDedupePolicy, prepareProfileIntake, type ProfileIntake } from "./services/dedupe-policy";
+import type { InputStream } from "./services/input-parsers";
+import { NotFoundError, ValidationError } from "./types/errors";
+import type { BlobInfo } from "./services/blob-store";
+import { exportFileType } from "./services/excel/export-formats";
+import { EXPORT_TEMPLATE_FIELDS, EXPORT_TEMPLATE_PRESETS, templateColumns } from "./services/excel/export-templates";
 import { hashPassword, verifyPassword, generateAccessToken, generateRefreshToken, verifyRefreshToken, getRefreshTokenExpiry } from "./auth";
 import { authenticateToken, optionalAuth, globalRateLimit, authRateLimit, uploadRateLimit, securityHeaders, validateOrigin } from "./middleware";
 
+// Headers for an export streamed straight into the response
+function sendExportHeaders(res: Response, format: ExportFormat, layout: ExportLayout, baseName: string) {
+  const { contentType, extension } = exportFileType(format, layout);
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename=${baseName}${layout === 'related' ? '_related' : ''}.${extension}`);
+}
+
+// An export's filter: a JSON spec in the body or the `filter` parameter, or its fields as query parameters
+function exportFilterInput(req: Request): unknown {
+  if (req.body && typeof req.body.filter === 'object') {
+    return req.body.filter;
+  }
+  if (typeof req.query.filter === 'string') {
+    try {
+      return JSON.parse(req.query.filter);
+    } catch {
+      throw new ValidationError('must be a JSON object', 'filter');
+    }
+  }
+  return req.query;
+}
+
 // Create sample data for demo
 async function createSampleData(userId: number) {
   try {
@@ -85,10 +119,13 @@ async function createSampleData(userId: number) {
     }
 
     // Update API stats
-    await storage.updateApiStats(userId, {
-      requestsUsed: 156,
+    const now = new Date();
+    await storage.addApiUsage({
+      userId,
+      date: now.toISOString().slice(0, 10),
+      requests: 156,
       requestsLimit: 1000,
-      resetTime: new Date(Date.now() + 45 * 60 * 1000), // 45 minutes from now
+      resetTime: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)),
     });
 
   } catch (error) {
@@ -96,11 +133,25 @@ async function createSampleData(userId: number) {
   }
 }
 
+// Spooled to this server's disk, then moved into the blob store
 const upload = multer({ 
-  dest: 'uploads/',
+  dest: CONFIG.BLOB_STORE.SPOOL_DIRECTORY,
   limits: { fileSize: 50 * 1024 * 1024 }, // 50MB limit
 });
 
+// Copies a spooled upload into the blob store under a new key, hashing its content on the way
+async function storeUpload(file: Express.Multer.File): Promise<BlobInfo> {
+  const key = `${CONFIG.FILE_UPLOAD.TEMP_DIRECTORY}${randomUUID()}`;
+  return container.get('blobStore').put(key, fs.createReadStream(file.path), file.mimetype || undefined);
+}
+
+// Streams a stored file as a download; NotFoundError when the blob is gone
+async function sendBlob(res: Response, key: string, fileName: string) {
+  const body = await container.get('blobStore').get(key);
+  res.attachment(fileName);
+  await pipeline(body, res);
+}
+
 // Helper function to create auth tokens response
 function createAuthResponse(user: any, accessToken: string, refreshToken: string) {
   return {
@@ -115,6 +166,100 @@ function createAuthResponse(user: any, accessToken: string, refreshToken: string
   };
 }
 
+// Creates the pending job and its profiles for an uploaded or pasted URL list
+// The same person is extracted once however their URLs are written, and
+// people extracted recently are skipped or reused per the user's policy
+async function prepareUploadIntake(user: User, linkedinUrls: LinkedInUrl[]): Promise<ProfileIntake> {
+  const policy = parseDedupePolicy(user.dedupePolicy);
+  const intake = await prepareProfileIntake(storage, user.id, linkedinUrls.map(urlData => urlData.url), policy);
+  if (intake.profiles.length === 0) {
+    throw new ValidationError(`Every profile was already extracted in the last ${policy.withinDays} days`);
+  }
+  return intake;
+}
+
+// Without an intake the job starts out empty and its profiles are ingested from the file in the background
+async function createUploadJob(
+  user: User,
+  fileName: string,
+  filePath: string,
+  intake: ProfileIntake | null,
+  inputMapping: InputMapping | null = null,
+  contentHash: string | null = null
+) {
+  const job = await storage.createJob({
+    userId: user.id,
+    fileName,
+    totalProfiles: intake ? intake.profiles.length : 0,
+    batchSize: 50,
+    filePath,
+    inputMapping,
+    ingestionStatus: intake ? null : 'ingesting',
+    contentHash,
+  });
+
+  if (intake) {
+    await storage.createProfiles(intake.profiles.map(profile => ({ ...profile, jobId: job.id })));
+  }
+  await container.get('jobEventLog').record(job.id, 'created', { type: 'user', id: user.id }, null, intake ? {
+    fileName: job.fileName,
+    totalProfiles: intake.profiles.length,
+    duplicateUrls: intake.duplicateUrls,
+    skippedRecent: intake.skipped,
+    reusedRecent: intake.reused,
+  } : { fileName: job.fileName });
+
+  return job;
+}
+
+// The report fields are there once the whole file was read
+function toUploadPreviewResponse(preview: UploadPreview) {
+  return {
+    previewId: preview.id,
+    name: preview.fileName,
+    size: preview.fileSize,
+    expiresAt: preview.expiresAt,
+    duplicateOfJobId: preview.duplicateOfJobId, // the same file was uploaded before
+    status: preview.status,
+    rowsRead: preview.rowsRead,
+    error: preview.error,
+    ...((preview.report as UploadPreviewReport | null) ?? {}),
+  };
+}
+
+// Where the file is kept and how it was asked for stay on the server; ready exports get a fresh download link
+function toExportTaskResponse(task: ExportTask) {
+  const { artifactPath, options, ...rest } = task;
+  return {
+    ...rest,
+    statusUrl: `/api/exports/${task.id}`,
+    downloadUrl: task.status === 'ready' ? container.get('exportTasks').downloadUrl(task) : null,
+  };
+}
+
+// Schedules are listed without their URL lists, which can hold thousands of entries
+function toScheduleResponse(schedule: JobSchedule) {
+  const { urls, ...rest } = schedule;
+  return {
+    ...rest,
+    urlCount: Array.isArray(urls) ? urls.length : null,
+  };
+}
+
+// Checks what zod can't: the source job belongs to the user and the source exists
+async function checkJobScheduleTarget(userId: number, schedule: InsertJobSchedule): Promise<string | null> {
+  if (schedule.targetType === 'job') {
+    const sourceJob = await storage.getJob(schedule.sourceJobId!);
+    if (!sourceJob || sourceJob.userId !== userId) {
+      return "Source job not found";
+    }
+  }
+  if (schedule.profileSource && !container.get('profileSources').has(schedule.profileSource)) {
+    return `Unknown profile source: ${schedule.profileSource}`;
+  }
+  return null;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Apply security middleware
   app.use(securityHeaders());
@@ -365,73 +510,285 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Validate file extension
-      const allowedExtensions = ['.xlsx', '.xls'];
+      const allowedExtensions: readonly string[] = CONFIG.FILE_UPLOAD.ALLOWED_EXTENSIONS;
       const fileExtension = path.extname(req.file.originalname || '').toLowerCase();
       
       if (!allowedExtensions.includes(fileExtension)) {
         return res.status(400).json({ 
-          error: "Invalid file format. Only Excel files (.xlsx, .xls) are supported." 
+          error: `Invalid file format. Supported formats: ${allowedExtensions.join(', ')}` 
+        });
+      }
+
+      const user = await storage.getUser(req.user!.userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      // Multipart fields arrive as strings, so the mapping comes JSON encoded
+      let options;
+      try {
+        options = uploadMappingSchema.parse({
+          ...req.body,
+          mapping: req.body.mapping ? JSON.parse(req.body.mapping) : undefined,
         });
+      } catch (error: any) {
+        return res.status(400).json({ error: "Validation error", details: error.issues || error.message });
       }
 
-      // Parse LinkedIn URLs from the uploaded Excel file
-      let linkedinUrls: LinkedInUrl[] = [];
+      const template = options.templateId ? await storage.getColumnMappingTemplate(options.templateId) : undefined;
+      if (options.templateId && (!template || template.userId !== user.id)) {
+        return res.status(404).json({ error: "Mapping template not found" });
+      }
+
+      // Kept in the blob store, so the server that confirms the preview or runs the job can read it
+      const blobStore = container.get('blobStore');
+      const stored = await storeUpload(req.file);
+
+      // The sheet and mapping are settled from the first rows; the rest is read in the background
+      let stream: InputStream;
       try {
-        linkedinUrls = await excelProcessor.parseLinkedInUrls(req.file.path);
+        stream = await container.get('inputParsers').streamBlob(blobStore, stored.key, {
+          fileName: req.file.originalname,
+          contentType: req.file.mimetype,
+        }, {
+          sheet: options.sheet,
+          preferredSheet: template?.sheet || undefined,
+          mapping: options.mapping || (template?.mapping as ColumnMapping | undefined),
+        });
         
-        if (linkedinUrls.length === 0) {
+        if (!stream.mapping && stream.columns.length > 0) {
+          await stream.close();
+          await blobStore.delete(stored.key);
           return res.status(400).json({ 
-            error: "No LinkedIn URLs found in the uploaded file. Please ensure your Excel file contains LinkedIn profile URLs." 
+            error: "No LinkedIn URLs found in the uploaded file. Please ensure your file contains LinkedIn profile URLs." 
           });
         }
       } catch (parseError) {
-        console.error('Excel parsing error:', parseError);
+        console.error('File parsing error:', parseError);
+        await blobStore.delete(stored.key);
         return res.status(400).json({ 
-          error: "Failed to parse Excel file. Please ensure it's a valid Excel file with LinkedIn URLs." 
+          error: parseError instanceof ValidationError ?
+            `Failed to parse file: ${parseError.message}` :
+            "Failed to parse file. Please ensure it's a valid file with LinkedIn URLs."
         });
       }
 
-      // Create a job for this upload
+      try {
+        if (options.saveTemplateAs && stream.mapping) {
+          await storage.createColumnMappingTemplate(user.id, {
+            name: options.saveTemplateAs,
+            sheet: stream.mapping.sheet,
+            mapping: stream.mapping.columns,
+          });
+        }
+
+        // Nothing is created until the user confirms the preview; a file seen before is pointed out
+        const duplicateOf = await storage.getJobByContentHash(user.id, stored.sha256);
+        const preview = await storage.createUploadPreview({
+          id: randomUUID(),
+          userId: user.id,
+          fileName: req.file.originalname || 'uploaded_file.xlsx',
+          filePath: stored.key,
+          fileSize: stored.size,
+          contentType: req.file.mimetype || null,
+          contentHash: stored.sha256,
+          duplicateOfJobId: duplicateOf?.id ?? null,
+          inputMapping: stream.mapping,
+          expiresAt: new Date(Date.now() + CONFIG.UPLOAD_PREVIEW.TTL),
+        });
+        container.get('uploadIngestion').readPreview(preview, stream);
+
+        res.json(toUploadPreviewResponse(preview));
+      } catch (error) {
+        await stream.close();
+        await blobStore.delete(stored.key);
+        throw error;
+      }
+    } catch (error) {
+      console.error('Upload error:', error);
+      res.status(500).json({ error: "Failed to process uploaded file" });
+    } finally {
+      if (req.file) {
+        fs.promises.rm(req.file.path, { force: true }).catch(() => {});
+      }
+    }
+  });
+
+  // Polled while the file is read, until the preview is ready or failed
+  app.get("/api/files/previews/:id", authenticateToken, async (req, res) => {
+    try {
+      const preview = await storage.getUploadPreview(req.params.id);
+      if (!preview || preview.userId !== req.user!.userId || preview.expiresAt <= new Date()) {
+        return res.status(404).json({ error: "Upload preview not found" });
+      }
+      res.json(toUploadPreviewResponse(preview));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get upload preview" });
+    }
+  });
+
+  // Creates the job for a previewed upload, leaving out the excluded rows
+  app.post("/api/files/previews/:id/confirm", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const options = confirmUploadSchema.parse(req.body || {});
+      const preview = await storage.getUploadPreview(req.params.id);
+      if (!preview || preview.userId !== req.user!.userId || preview.expiresAt <= new Date()) {
+        return res.status(404).json({ error: "Upload preview not found" });
+      }
+
       const user = await storage.getUser(req.user!.userId);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      const job = await storage.createJob({
-        userId: user.id,
-        fileName: req.file.originalname || 'uploaded_file.xlsx',
-        totalProfiles: linkedinUrls.length,
-        batchSize: 50,
-        filePath: req.file.path,
-      });
 
-      // Create profile records with deduplication
-      for (const urlData of linkedinUrls) {
-        // Check if profile already exists for this job and URL
-        const existingProfiles = await storage.getProfilesByJob(job.id);
-        const exists = existingProfiles.some(p => p.linkedinUrl === urlData.url);
-        
-        if (!exists) {
-          await storage.createProfile({
-            jobId: job.id,
-            linkedinUrl: urlData.url,
-            status: 'pending',
-          });
-        }
+      if (preview.status !== 'ready') {
+        return res.status(409).json({
+          error: preview.status === 'failed' ? preview.error || "The file could not be read" : "The file is still being read",
+        });
       }
-      
+
+      const { counts } = preview.report as UploadPreviewReport;
+      if (counts.newProfiles + (options.excludeHarvested ? 0 : counts.previouslyHarvested) === 0) {
+        return res.status(400).json({ error: "Every row was excluded; nothing to extract" });
+      }
+
+      // The file is read again the same way the preview read it, this time into the job's profiles
+      const inputMapping = preview.inputMapping as InputMapping | null;
+      const stream = await container.get('inputParsers').streamBlob(container.get('blobStore'), preview.filePath, {
+        fileName: preview.fileName,
+        contentType: preview.contentType || undefined,
+      }, inputMapping ? { sheet: inputMapping.sheet, mapping: inputMapping.columns } : {});
+
+      if (!await storage.deleteUploadPreview(preview.id)) {
+        await stream.close();
+        return res.status(404).json({ error: "Upload preview not found" }); // confirmed concurrently
+      }
+
+      // The preview is gone, so nothing else would release the stream or remove the upload
+      const job = await createUploadJob(user, preview.fileName, preview.filePath, null, inputMapping, preview.contentHash).catch(async error => {
+        await stream.close();
+        await container.get('blobStore').delete(preview.filePath);
+        throw error;
+      });
+      container.get('uploadIngestion').ingestJob(job, user, stream, options);
+
       res.json({
         id: job.id.toString(),
-        name: req.file.originalname,
-        size: req.file.size,
-        profileCount: linkedinUrls.length,
-        status: 'uploaded',
+        name: preview.fileName,
+        size: preview.fileSize,
+        profileCount: 0,
+        status: 'ingesting',
+        ingestedRows: 0,
+        mapping: inputMapping,
       });
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Upload confirm error:', error);
+      res.status(500).json({ error: "Failed to create job from upload" });
+    }
+  });
+
+  app.delete("/api/files/previews/:id", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const preview = await storage.getUploadPreview(req.params.id);
+      if (!preview || preview.userId !== req.user!.userId) {
+        return res.status(404).json({ error: "Upload preview not found" });
+      }
+
+      if (await storage.deleteUploadPreview(preview.id)) {
+        await container.get('blobStore').delete(preview.filePath);
+      }
+      res.json({ success: true });
     } catch (error) {
-      console.error('Upload error:', error);
-      res.status(500).json({ error: "Failed to process Excel file" });
+      res.status(500).json({ error: "Failed to discard upload" });
+    }
+  });
+
+  // Sheets, header rows and columns of a file, for choosing a column mapping before upload
+  app.post("/api/files/inspect", authenticateToken, uploadRateLimit, upload.single('file'), async (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    try {
+      const inspection = await container.get('inputParsers').inspect(await fs.promises.readFile(req.file.path), {
+        fileName: req.file.originalname,
+        contentType: req.file.mimetype,
+      });
+      res.json(inspection);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('File inspection error:', error);
+      res.status(400).json({ error: "Failed to read file" });
+    } finally {
+      fs.promises.rm(req.file.path, { force: true }).catch(() => {});
     }
   });
 
+  // Pasted URL lists: JSON `{ text, name }`, or a text/plain body with `?name=`
+  app.post(
+    "/api/files/paste",
+    authenticateToken,
+    uploadRateLimit,
+    express.text({ type: 'text/plain', limit: CONFIG.FILE_UPLOAD.MAX_PASTE_SIZE }),
+    async (req, res) => {
+      try {
+        const { text, name } = pasteUrlsSchema.parse(
+          typeof req.body === 'string' ? { text: req.body, name: req.query.name || undefined } : req.body
+        );
+
+        const { urls: linkedinUrls } = await container.get('inputParsers').parse(Buffer.from(text, 'utf-8'), {
+          contentType: 'text/plain',
+        });
+        if (linkedinUrls.length === 0) {
+          return res.status(400).json({ error: "No LinkedIn URLs found in the pasted text" });
+        }
+
+        const user = await storage.getUser(req.user!.userId);
+        if (!user) {
+          return res.status(404).json({ error: "User not found" });
+        }
+
+        const intake = await prepareUploadIntake(user, linkedinUrls);
+
+        // Kept as a file like any upload, so reprocessing and cleanup treat it the same
+        const stored = await container.get('blobStore').put(
+          `${CONFIG.FILE_UPLOAD.TEMP_DIRECTORY}${randomUUID()}`,
+          Buffer.from(text, 'utf-8'),
+          'text/plain; charset=utf-8'
+        );
+
+        // The extension lets the job be parsed again from its file as plain text
+        const fileName = name ? (path.extname(name) ? name : `${name}.txt`) : 'Pasted URLs.txt';
+        const job = await createUploadJob(user, fileName, stored.key, intake, null, stored.sha256);
+
+        res.json({
+          id: job.id.toString(),
+          name: fileName,
+          size: Buffer.byteLength(text, 'utf-8'),
+          profileCount: job.totalProfiles,
+          status: 'uploaded',
+        });
+      } catch (error: any) {
+        if (error.issues) {
+          return res.status(400).json({ error: "Validation error", details: error.issues });
+        }
+        if (error instanceof ValidationError) {
+          return res.status(400).json({ error: error.message });
+        }
+        console.error('Paste error:', error);
+        res.status(500).json({ error: "Failed to process pasted URLs" });
+      }
+    }
+  );
+
   app.get("/api/files/uploaded", authenticateToken, async (req, res) => {
     // Return any recently uploaded files from jobs
     try {
@@ -448,7 +805,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           name: job.fileName,
           size: 1024 * 1024, // Mock 1MB
           profileCount: job.totalProfiles,
-          status: job.status === 'pending' ? 'uploaded' : job.status,
+          status: job.ingestionStatus === 'ingesting' ? 'ingesting' : job.status === 'pending' ? 'uploaded' : job.status,
+          ingestedRows: job.ingestedRows, // rows of the file read so far, while ingesting
         }));
       
       res.json(uploadedFiles);
@@ -457,10 +815,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/files/:id", async (req, res) => {
+  // Uploaded files are listed by the id of the job created for them
+  app.delete("/api/files/:id", authenticateToken, validateOrigin, async (req, res) => {
     try {
-      // Remove file logic here
-      res.json({ success: true });
+      const job = await storage.getJob(parseInt(req.params.id));
+      if (!job || job.userId !== req.user!.userId || job.deletedAt) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      const restoreUntil = await container.get('jobCleanup').deleteJob(job, { type: 'user', id: req.user!.userId });
+      res.json({ success: true, restoreUntil });
     } catch (error) {
       res.status(500).json({ error: "Failed to remove file" });
     }
@@ -469,40 +833,478 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Job management routes
   app.post("/api/jobs/start", authenticateToken, validateOrigin, async (req, res) => {
     try {
-      const { fileId, batchSize } = req.body;
+      const { fileId, batchSize, priority, source } = req.body;
       const user = await storage.getUser(req.user!.userId);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
 
+      const profileSources = container.get('profileSources');
+      const profileSource = source || CONFIG.PROFILE_SOURCES.DEFAULT;
+      if (!profileSources.has(profileSource)) {
+        return res.status(400).json({ error: `Unknown profile source: ${profileSource}` });
+      }
+      if (profileSources.get(profileSource).requiresLinkedInAuth && !user.linkedinAccessToken) {
+        return res.status(400).json({ error: "Connect LinkedIn before starting a LinkedIn API job" });
+      }
+
       // Get the job by ID
       const job = await storage.getJob(parseInt(fileId));
-      if (!job) {
+      if (!job || job.userId !== user.id || job.deletedAt) {
         return res.status(404).json({ error: "Job not found" });
       }
+      // Paused, finished and cancelled jobs go through resume and rerun instead
+      if (job.status !== CONFIG.STATUS.PENDING) {
+        return res.status(409).json({ error: `Job is already ${job.status}` });
+      }
+      if (job.ingestionStatus === 'ingesting') {
+        return res.status(409).json({ error: "The file is still being read; start the job once every profile is added" });
+      }
 
-      // Update job status to processing
-      await storage.updateJobStatus(job.id, 'processing', {
-        startedAt: new Date(),
-        batchSize: parseInt(batchSize) || 50,
-      });
-      
-      // Add job to the queue for AI-powered processing
+      // Add job to the durable queue; a worker claims it from storage
       const jobQueue = container.get('jobQueue');
       await jobQueue.addJob({
         jobId: job.id,
         userId: user.id,
         filePath: job.filePath,
         batchSize: parseInt(batchSize) || 50,
+        priority: Math.min(Math.max(parseInt(priority) || 0, 0), CONFIG.JOB_QUEUE.MAX_PRIORITY),
+        profileSource,
+        actor: { type: 'user', id: user.id },
       });
 
-      res.json({ jobId: job.id, status: 'started' });
+      res.json({ jobId: job.id, status: 'started', profileSource });
     } catch (error) {
       console.error('Start job error:', error);
       res.status(500).json({ error: "Failed to start job processing" });
     }
   });
 
+  app.get("/api/profile-sources", authenticateToken, async (req, res) => {
+    const profileSources = container.get('profileSources');
+    res.json({
+      default: CONFIG.PROFILE_SOURCES.DEFAULT,
+      sources: profileSources.list().map(source => ({
+        name: source.name,
+        label: source.label,
+        requiresLinkedInAuth: source.requiresLinkedInAuth,
+      })),
+    });
+  });
+
+  // Retry policy: the user's overrides apply to all of their jobs, a job's own overrides win
+  app.get("/api/retry-policy", authenticateToken, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const overrides = parseRetryPolicyOverrides(user.retryPolicy);
+      res.json({
+        defaults: DEFAULT_RETRY_POLICY,
+        overrides,
+        effective: resolveRetryPolicy(overrides),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get retry policy" });
+    }
+  });
+
+  app.put("/api/retry-policy", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const overrides = retryPolicyOverridesSchema.parse(req.body);
+      await storage.updateUserRetryPolicy(req.user!.userId, overrides);
+
+      res.json({
+        defaults: DEFAULT_RETRY_POLICY,
+        overrides,
+        effective: resolveRetryPolicy(overrides),
+      });
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      res.status(500).json({ error: "Failed to update retry policy" });
+    }
+  });
+
+  // Dedupe policy: whether people extracted within the last N days are skipped or reused on upload
+  app.get("/api/dedupe-policy", authenticateToken, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      res.json({
+        defaults: DEFAULT_DEDUPE_POLICY,
+        policy: parseDedupePolicy(user.dedupePolicy),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get dedupe policy" });
+    }
+  });
+
+  app.put("/api/dedupe-policy", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const policy = dedupePolicySchema.parse(req.body);
+      await storage.updateUserDedupePolicy(req.user!.userId, policy);
+
+      res.json({
+        defaults: DEFAULT_DEDUPE_POLICY,
+        policy,
+      });
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      res.status(500).json({ error: "Failed to update dedupe policy" });
+    }
+  });
+
+  app.get("/api/jobs/:id/retry-policy", authenticateToken, async (req, res) => {
+    try {
+      const job = await storage.getJob(parseInt(req.params.id));
+      const user = await storage.getUser(req.user!.userId);
+      if (!job || !user || job.userId !== user.id) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      const overrides = parseRetryPolicyOverrides(job.retryPolicy);
+      res.json({
+        overrides,
+        effective: resolveRetryPolicy(parseRetryPolicyOverrides(user.retryPolicy), overrides),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get job retry policy" });
+    }
+  });
+
+  app.put("/api/jobs/:id/retry-policy", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const job = await storage.getJob(parseInt(req.params.id));
+      const user = await storage.getUser(req.user!.userId);
+      if (!job || !user || job.userId !== user.id) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      // A running job picks up the new policy at its next batch
+      const overrides = retryPolicyOverridesSchema.parse(req.body);
+      await storage.updateJobRetryPolicy(job.id, overrides);
+
+      res.json({
+        overrides,
+        effective: resolveRetryPolicy(parseRetryPolicyOverrides(user.retryPolicy), overrides),
+      });
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      res.status(500).json({ error: "Failed to update job retry policy" });
+    }
+  });
+
+  app.put("/api/jobs/:id/tags", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const job = await storage.getJob(parseInt(req.params.id));
+      if (!job || job.userId !== req.user!.userId || job.deletedAt) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      const { tags } = jobTagsSchema.parse(req.body);
+      const unique = Array.from(new Set(tags));
+      await storage.updateJobTags(job.id, unique);
+      res.json({ tags: unique });
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      res.status(500).json({ error: "Failed to update job tags" });
+    }
+  });
+
+  // Job schedules: one-off or cron-like recurring runs over a URL list or a previous job's profiles
+  app.get("/api/schedules", authenticateToken, async (req, res) => {
+    try {
+      const schedules = await storage.getJobSchedulesByUser(req.user!.userId);
+      res.json(schedules.map(toScheduleResponse));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get schedules" });
+    }
+  });
+
+  app.get("/api/schedules/upcoming", authenticateToken, async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || CONFIG.SCHEDULER.UPCOMING_RUNS, 100);
+      const jobScheduler = container.get('jobScheduler');
+      res.json(await jobScheduler.getUpcomingRuns(req.user!.userId, limit));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get upcoming runs" });
+    }
+  });
+
+  app.post("/api/schedules", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const data = insertJobScheduleSchema.parse(req.body);
+      const targetError = await checkJobScheduleTarget(req.user!.userId, data);
+      if (targetError) {
+        return res.status(400).json({ error: targetError });
+      }
+
+      const nextRunAt = nextScheduleRun({ runAt: data.runAt ?? null, cron: data.cron ?? null }, new Date());
+      if (!nextRunAt) {
+        return res.status(400).json({ error: "runAt must be in the future" });
+      }
+
+      const schedule = await storage.createJobSchedule(req.user!.userId, data, nextRunAt);
+      res.status(201).json(toScheduleResponse(schedule));
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to create schedule" });
+    }
+  });
+
+  app.patch("/api/schedules/:id", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const existing = await storage.getJobSchedule(parseInt(req.params.id));
+      if (!existing || existing.userId !== req.user!.userId) {
+        return res.status(404).json({ error: "Schedule not found" });
+      }
+
+      const changes = updateJobScheduleSchema.parse(req.body);
+      const data = insertJobScheduleSchema.parse({
+        name: existing.name,
+        targetType: existing.targetType,
+        urls: existing.urls ?? undefined,
+        sourceJobId: existing.sourceJobId ?? undefined,
+        runAt: existing.runAt ?? undefined,
+        cron: existing.cron ?? undefined,
+        batchSize: existing.batchSize ?? undefined,
+        priority: existing.priority ?? undefined,
+        profileSource: existing.profileSource ?? undefined,
+        enabled: existing.enabled ?? undefined,
+        ...Object.fromEntries(Object.entries(changes).map(([key, value]) => [key, value ?? undefined])),
+      });
+      const targetError = await checkJobScheduleTarget(req.user!.userId, data);
+      if (targetError) {
+        return res.status(400).json({ error: targetError });
+      }
+
+      // Timing changes restart the schedule from now; other edits keep the pending run
+      const timingChanged = 'runAt' in changes || 'cron' in changes;
+      const nextRunAt = timingChanged || !existing.nextRunAt ?
+        nextScheduleRun({ runAt: data.runAt ?? null, cron: data.cron ?? null }, new Date()) :
+        existing.nextRunAt;
+      if (timingChanged && !nextRunAt) {
+        return res.status(400).json({ error: "runAt must be in the future" });
+      }
+
+      const schedule = await storage.updateJobSchedule(existing.id, {
+        name: data.name,
+        targetType: data.targetType,
+        urls: data.targetType === 'url_list' ? data.urls : null,
+        sourceJobId: data.targetType === 'job' ? data.sourceJobId : null,
+        runAt: data.runAt ?? null,
+        cron: data.cron ?? null,
+        batchSize: data.batchSize,
+        priority: data.priority,
+        profileSource: data.profileSource ?? null,
+        enabled: data.enabled,
+        nextRunAt,
+      });
+      res.json(toScheduleResponse(schedule!));
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update schedule" });
+    }
+  });
+
+  app.delete("/api/schedules/:id", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const schedule = await storage.getJobSchedule(parseInt(req.params.id));
+      if (!schedule || schedule.userId !== req.user!.userId) {
+        return res.status(404).json({ error: "Schedule not found" });
+      }
+
+      await storage.deleteJobSchedule(schedule.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete schedule" });
+    }
+  });
+
+  app.post("/api/schedules/:id/run", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const schedule = await storage.getJobSchedule(parseInt(req.params.id));
+      if (!schedule || schedule.userId !== req.user!.userId) {
+        return res.status(404).json({ error: "Schedule not found" });
+      }
+
+      const jobScheduler = container.get('jobScheduler');
+      const job = await jobScheduler.runNow(schedule);
+      if (!job) {
+        const updated = await storage.getJobSchedule(schedule.id);
+        return res.status(400).json({ error: updated?.lastError || "Failed to start scheduled job" });
+      }
+
+      res.json({ jobId: job.id, scheduleId: schedule.id, totalProfiles: job.totalProfiles, status: 'started' });
+    } catch (error) {
+      console.error('Run schedule error:', error);
+      res.status(500).json({ error: "Failed to run schedule" });
+    }
+  });
+
+  // Column mapping templates
+  app.get("/api/mapping-templates", authenticateToken, async (req, res) => {
+    try {
+      res.json(await storage.getColumnMappingTemplatesByUser(req.user!.userId));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get mapping templates" });
+    }
+  });
+
+  app.post("/api/mapping-templates", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const data = insertColumnMappingTemplateSchema.parse(req.body);
+      const template = await storage.createColumnMappingTemplate(req.user!.userId, data);
+      res.status(201).json(template);
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      res.status(500).json({ error: "Failed to create mapping template" });
+    }
+  });
+
+  app.delete("/api/mapping-templates/:id", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const template = await storage.getColumnMappingTemplate(parseInt(req.params.id));
+      if (!template || template.userId !== req.user!.userId) {
+        return res.status(404).json({ error: "Mapping template not found" });
+      }
+
+      await storage.deleteColumnMappingTemplate(template.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete mapping template" });
+    }
+  });
+
+  // Export templates: the built-in presets and the user's own
+  app.get("/api/export-templates", authenticateToken, async (req, res) => {
+    try {
+      res.json({
+        presets: EXPORT_TEMPLATE_PRESETS,
+        fields: EXPORT_TEMPLATE_FIELDS,
+        templates: await storage.getExportTemplatesByUser(req.user!.userId),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get export templates" });
+    }
+  });
+
+  app.post("/api/export-templates", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const data = insertExportTemplateSchema.parse(req.body);
+      templateColumns(data); // rejects unknown sources
+      const template = await storage.createExportTemplate(req.user!.userId, data);
+      res.status(201).json(template);
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to create export template" });
+    }
+  });
+
+  app.delete("/api/export-templates/:id", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const template = await storage.getExportTemplate(parseInt(req.params.id));
+      if (!template || template.userId !== req.user!.userId) {
+        return res.status(404).json({ error: "Export template not found" });
+      }
+
+      await storage.deleteExportTemplate(template.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete export template" });
+    }
+  });
+
+  // Saved searches: named export filters
+  app.get("/api/saved-searches", authenticateToken, async (req, res) => {
+    try {
+      res.json(await storage.getSavedSearchesByUser(req.user!.userId));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get saved searches" });
+    }
+  });
+
+  app.post("/api/saved-searches", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const data = insertSavedSearchSchema.parse(req.body);
+      const search = await storage.createSavedSearch(req.user!.userId, data);
+      res.status(201).json(search);
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      res.status(500).json({ error: "Failed to create saved search" });
+    }
+  });
+
+  app.delete("/api/saved-searches/:id", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const search = await storage.getSavedSearch(parseInt(req.params.id));
+      if (!search || search.userId !== req.user!.userId) {
+        return res.status(404).json({ error: "Saved search not found" });
+      }
+
+      await storage.deleteSavedSearch(search.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete saved search" });
+    }
+  });
+
+  // Server-Sent Events stream of the user's job events
+  app.get("/api/jobs/events", authenticateToken, (req, res) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write(`retry: 5000\n\n`);
+
+    const jobEvents = container.get('jobEvents');
+    const unsubscribe = jobEvents.subscribe(req.user!.userId, (event) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+    const heartbeat = setInterval(() => {
+      res.write(`: heartbeat\n\n`);
+    }, CONFIG.JOB_QUEUE.EVENT_STREAM_HEARTBEAT);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
   app.get("/api/jobs/current-status", authenticateToken, async (req, res) => {
     try {
       const user = await storage.getUser(req.user!.userId);
@@ -536,6 +1338,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           estimatedCompletion: activeJob.estimatedCompletion ? 
             Math.ceil((activeJob.estimatedCompletion.getTime() - Date.now()) / (1000 * 60)) + 'm' : 
             'Calculating...',
+          pauseReason: activeJob.status === 'paused' ? activeJob.pauseReason || null : null,
+          resumeAt: activeJob.status === 'paused' ? activeJob.resumeAt?.toISOString() || null : null,
         },
       });
     } catch (error) {
@@ -552,18 +1356,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       const jobs = await storage.getJobsByUser(user.id);
       
-      const recentJobs = jobs.slice(0, 10).map(job => ({
+      const recentJobs = await Promise.all(jobs.slice(0, 10).map(async job => ({
         id: job.id,
         fileName: job.fileName,
         totalProfiles: job.totalProfiles,
         status: job.status,
+        profileSource: job.profileSource,
+        parentJobId: job.parentJobId,
+        failedProfiles: job.failedProfiles || 0,
+        rerunCount: (await storage.getChildJobs(job.id)).length,
         progress: job.processedProfiles ? 
           Math.round((job.processedProfiles / job.totalProfiles) * 100) : 0,
         successRate: job.totalProfiles > 0 ? 
           ((job.successfulProfiles || 0) / job.totalProfiles * 100).toFixed(1) + '%' : 
           '0%',
         startedAt: job.startedAt?.toISOString() || job.createdAt?.toISOString() || new Date().toISOString(),
-      }));
+      })));
 
       res.json(recentJobs);
     } catch (error) {
@@ -571,79 +1379,243 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/jobs/:id/pause", async (req, res) => {
+  app.post("/api/jobs/:id/pause", authenticateToken, validateOrigin, async (req, res) => {
     try {
-      const jobId = parseInt(req.params.id);
-      await storage.updateJobStatus(jobId, 'paused');
+      const job = await storage.getJob(parseInt(req.params.id));
+      if (!job || job.userId !== req.user!.userId) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
       const jobQueue = container.get('jobQueue');
-      await jobQueue.pauseJob(jobId);
+      await jobQueue.pauseJob(job.id, undefined, null, { type: 'user', id: req.user!.userId });
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to pause job" });
     }
   });
 
-  app.post("/api/jobs/:id/stop", async (req, res) => {
+  app.post("/api/jobs/:id/stop", authenticateToken, validateOrigin, async (req, res) => {
     try {
-      const jobId = parseInt(req.params.id);
-      await storage.updateJobStatus(jobId, 'failed');
+      const job = await storage.getJob(parseInt(req.params.id));
+      if (!job || job.userId !== req.user!.userId) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
       const jobQueue = container.get('jobQueue');
-      await jobQueue.stopJob(jobId);
+      const stopped = await jobQueue.stopJob(job.id, { type: 'user', id: req.user!.userId });
+      if (!stopped) {
+        return res.status(409).json({ error: `Job is already ${job.status}` });
+      }
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to stop job" });
     }
   });
 
-  app.post("/api/jobs/:id/cancel", async (req, res) => {
+  app.post("/api/jobs/:id/cancel", authenticateToken, validateOrigin, async (req, res) => {
     try {
-      const jobId = parseInt(req.params.id);
-      await storage.updateJobStatus(jobId, 'failed');
+      const job = await storage.getJob(parseInt(req.params.id));
+      if (!job || job.userId !== req.user!.userId) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
       const jobQueue = container.get('jobQueue');
-      await jobQueue.stopJob(jobId);
+      const cancelled = await jobQueue.cancelJob(job.id, { type: 'user', id: req.user!.userId });
+      if (!cancelled) {
+        return res.status(409).json({ error: `Job is already ${job.status}` });
+      }
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to cancel job" });
     }
   });
 
-  app.post("/api/jobs/:id/resume", async (req, res) => {
+  app.post("/api/jobs/:id/resume", authenticateToken, validateOrigin, async (req, res) => {
     try {
-      const jobId = parseInt(req.params.id);
-      await storage.updateJobStatus(jobId, 'processing');
+      const job = await storage.getJob(parseInt(req.params.id));
+      if (!job || job.userId !== req.user!.userId) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      // A job paused for an expired token would trip again straight away
+      const pauseReason = job.pauseReason as PauseReason | null;
+      if (pauseReason?.errorType === CONFIG.ERROR_TYPES.AUTH_EXPIRED) {
+        const user = await storage.getUser(job.userId);
+        const tokenValid = !!user?.linkedinAccessToken &&
+          (!user.linkedinTokenExpiry || user.linkedinTokenExpiry > new Date());
+        if (!tokenValid) {
+          return res.status(409).json({ error: "Reconnect LinkedIn before resuming this job" });
+        }
+      }
+
       const jobQueue = container.get('jobQueue');
-      await jobQueue.resumeJob(jobId);
+      await jobQueue.resumeJob(job.id, { type: 'user', id: req.user!.userId });
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to resume job" });
     }
   });
 
-  app.get("/api/jobs/:id/download", async (req, res) => {
+  // Audit timeline of the job's state transitions, oldest first
+  app.get("/api/jobs/:id/events", authenticateToken, async (req, res) => {
+    try {
+      const job = await storage.getJob(parseInt(req.params.id));
+      if (!job || job.userId !== req.user!.userId) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      res.json(await storage.getJobEvents(job.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get job events" });
+    }
+  });
+
+  app.post("/api/jobs/:id/rerun-failed", authenticateToken, validateOrigin, async (req, res) => {
     try {
       const jobId = parseInt(req.params.id);
+      const { errorType, batchSize, priority, source } = req.body || {};
       const job = await storage.getJob(jobId);
-      
-      if (!job || !job.resultPath) {
-        return res.status(404).json({ error: "Results not found" });
+      if (!job || job.userId !== req.user!.userId || job.deletedAt) {
+        return res.status(404).json({ error: "Job not found" });
       }
 
-      res.download(job.resultPath);
+      const profileSources = container.get('profileSources');
+      if (source && !profileSources.has(source)) {
+        return res.status(400).json({ error: `Unknown profile source: ${source}` });
+      }
+
+      const jobQueue = container.get('jobQueue');
+      const rerunJob = await jobQueue.rerunFailedProfiles({
+        parentJobId: job.id,
+        userId: job.userId,
+        errorTypes: errorType ? (Array.isArray(errorType) ? errorType : [errorType]) : undefined,
+        batchSize: parseInt(batchSize) || undefined,
+        priority: priority !== undefined ?
+          Math.min(Math.max(parseInt(priority) || 0, 0), CONFIG.JOB_QUEUE.MAX_PRIORITY) :
+          undefined,
+        profileSource: source,
+      });
+
+      if (!rerunJob) {
+        return res.status(400).json({ error: "No failed profiles to rerun" });
+      }
+
+      res.json({
+        jobId: rerunJob.id,
+        parentJobId: job.id,
+        totalProfiles: rerunJob.totalProfiles,
+        status: 'started',
+      });
     } catch (error) {
-      res.status(500).json({ error: "Failed to download results" });
+      console.error('Rerun failed profiles error:', error);
+      res.status(500).json({ error: "Failed to rerun failed profiles" });
     }
   });
 
-  app.delete("/api/jobs/:id", async (req, res) => {
+  app.get("/api/jobs/:id/download", authenticateToken, async (req, res) => {
     try {
       const jobId = parseInt(req.params.id);
-      // In real implementation, remove job from database
-      res.json({ success: true });
+      const format = exportFormatSchema.parse(req.query.format ?? 'xlsx');
+      const layout = exportLayoutSchema.parse(req.query.layout ?? 'flat');
+      const job = await storage.getJob(jobId);
+      if (!job || job.userId !== req.user!.userId || job.deletedAt) {
+        return res.status(404).json({ error: "Results not found" });
+      }
+
+      // The uploaded file itself, with the extracted details appended to its rows
+      if (req.query.enriched === 'true') {
+        const enrichedPath = await container.get('jobQueue').saveEnrichedResults(jobId, req.query.combined === 'true');
+        if (!enrichedPath) {
+          return res.status(404).json({ error: "Results not found" });
+        }
+        const extension = path.extname(job.fileName);
+        return await sendBlob(res, enrichedPath, `${path.basename(job.fileName, extension)}_enriched${extension}`);
+      }
+
+      // Other formats, layouts and templates are streamed from storage rather than kept as files
+      const templateReference = typeof req.query.template === 'string' ? req.query.template : '';
+      if (format !== 'xlsx' || layout !== 'flat' || templateReference) {
+        const combined = req.query.combined === 'true';
+        const template = templateReference ? await container.get('excelExporter').findTemplate(req.user!.userId, templateReference) : undefined;
+        if (templateReference && !template) {
+          return res.status(404).json({ error: "Export template not found" });
+        }
+        if (template && layout !== 'flat') {
+          return res.status(400).json({ error: "Export templates apply to flat exports only" });
+        }
+
+        sendExportHeaders(res, format, layout, `job_${jobId}_${combined ? 'combined_' : ''}results`);
+        await container.get('jobQueue').writeResults(jobId, combined, res, { format, layout, template });
+        return;
+      }
+
+      // Results of the job and all of its reruns merged into one file
+      if (req.query.combined === 'true') {
+        const jobQueue = container.get('jobQueue');
+        const combinedPath = await jobQueue.saveCombinedResults(jobId);
+        if (!combinedPath) {
+          return res.status(404).json({ error: "Results not found" });
+        }
+        return await sendBlob(res, combinedPath, path.posix.basename(combinedPath));
+      }
+
+      if (!job.resultPath) {
+        return res.status(404).json({ error: "Results not found" });
+      }
+
+      await sendBlob(res, job.resultPath, path.posix.basename(job.resultPath));
+    } catch (error: any) {
+      if (res.headersSent) {
+        return res.destroy(error);
+      }
+      if (error instanceof NotFoundError) {
+        return res.status(404).json({ error: "Results not found" });
+      }
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to download results" });
+    }
+  });
+
+  // Deleted jobs are kept for the restore window, then purged with their files
+  app.delete("/api/jobs/:id", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const job = await storage.getJob(parseInt(req.params.id));
+      if (!job || job.userId !== req.user!.userId || job.deletedAt) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      const restoreUntil = await container.get('jobCleanup').deleteJob(job, { type: 'user', id: req.user!.userId });
+      res.json({ success: true, restoreUntil });
     } catch (error) {
       res.status(500).json({ error: "Failed to delete job" });
     }
   });
 
+  app.post("/api/jobs/:id/restore", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const job = await storage.getJob(parseInt(req.params.id));
+      if (!job || job.userId !== req.user!.userId) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      if (!job.deletedAt) {
+        return res.status(409).json({ error: "Job is not deleted" });
+      }
+
+      const restored = await container.get('jobCleanup').restoreJob(job, { type: 'user', id: req.user!.userId });
+      if (!restored) {
+        return res.status(410).json({ error: "The restore window for this job has passed" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to restore job" });
+    }
+  });
+
   // Storage routes
   app.get("/api/storage/stats", authenticateToken, async (req, res) => {
     try {
@@ -814,6 +1786,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         skills: '',
         connections: '',
         linkedinUrl: profile.linkedinUrl,
+        canonicalUrl: profile.canonicalUrl,
+        publicId: profile.publicId,
         status: profile.status,
         profileData: profile.profileData,
         jobId: profile.jobId,
@@ -822,6 +1796,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         retryCount: profile.retryCount,
         lastAttempt: profile.lastAttempt,
         extractedAt: profile.extractedAt,
+        reusedFromProfileId: profile.reusedFromProfileId,
       };
 
       const analysis = await aiAssistant.analyzeProfile(profileForAnalysis);
@@ -875,6 +1850,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           skills: '',
           connections: '',
           linkedinUrl: profile.linkedinUrl,
+          canonicalUrl: profile.canonicalUrl,
+          publicId: profile.publicId,
           status: profile.status,
           profileData: profile.profileData,
           jobId: profile.jobId,
@@ -883,6 +1860,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           retryCount: profile.retryCount,
           lastAttempt: profile.lastAttempt,
           extractedAt: profile.extractedAt,
+          reusedFromProfileId: profile.reusedFromProfileId,
         };
       });
 
@@ -938,6 +1916,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           skills: '',
           connections: '',
           linkedinUrl: profile.linkedinUrl,
+          canonicalUrl: profile.canonicalUrl,
+          publicId: profile.publicId,
           status: profile.status,
           profileData: profile.profileData,
           jobId: profile.jobId,
@@ -946,6 +1926,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           retryCount: profile.retryCount,
           lastAttempt: profile.lastAttempt,
           extractedAt: profile.extractedAt,
+          reusedFromProfileId: profile.reusedFromProfileId,
         };
       });
 
@@ -1019,21 +2000,96 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/export/:type", authenticateToken, async (req, res) => {
     try {
       const { type } = req.params;
+      if (type !== 'successful' && type !== 'failed' && type !== 'all') {
+        return res.status(400).json({ error: "Export type must be successful, failed or all" });
+      }
+      const format = exportFormatSchema.parse(req.query.format ?? 'xlsx');
+      const layout = exportLayoutSchema.parse(req.query.layout ?? 'flat');
       const user = await storage.getUser(req.user!.userId);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      
-      const excelBuffer = await excelProcessor.exportResults(user.id, type as 'successful' | 'failed' | 'all');
-      
-      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
-      res.setHeader('Content-Disposition', `attachment; filename=linkedin_data_${type}_${new Date().toISOString().split('T')[0]}.xlsx`);
-      res.send(excelBuffer);
-    } catch (error) {
+
+      const exporter = container.get('excelExporter');
+      const templateReference = typeof req.query.template === 'string' ? req.query.template : '';
+      const template = templateReference ? await exporter.findTemplate(user.id, templateReference) : undefined;
+      if (templateReference && !template) {
+        return res.status(404).json({ error: "Export template not found" });
+      }
+      if (template && layout !== 'flat') {
+        return res.status(400).json({ error: "Export templates apply to flat exports only" });
+      }
+
+      // Scoped by job, date, error type, industry, location, tag or saved search
+      const filter = await exporter.resolveFilter(user.id, exportFilterSchema.parse(exportFilterInput(req)));
+      if (!filter) {
+        return res.status(404).json({ error: "Saved search not found" });
+      }
+
+      // Written in the background; the client follows the task until its file is ready
+      const options: ExportTaskOptions = { format, layout, template, filter };
+      const task = await container.get('exportTasks').createTask(user.id, type, options);
+      res.status(202).json(toExportTaskResponse(task));
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to export data" });
     }
   });
 
+  app.get("/api/exports", authenticateToken, async (req, res) => {
+    try {
+      const tasks = await storage.getExportTasksByUser(req.user!.userId);
+      res.json(tasks.map(toExportTaskResponse));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get exports" });
+    }
+  });
+
+  app.get("/api/exports/:id", authenticateToken, async (req, res) => {
+    try {
+      const task = await storage.getExportTask(req.params.id);
+      if (!task || task.userId !== req.user!.userId) {
+        return res.status(404).json({ error: "Export not found" });
+      }
+      res.json(toExportTaskResponse(task));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get export" });
+    }
+  });
+
+  // Signed links stand in for the session, so they can be opened straight from the browser
+  app.get("/api/exports/:id/download", async (req, res) => {
+    try {
+      const expires = typeof req.query.expires === 'string' ? req.query.expires : '';
+      const signature = typeof req.query.signature === 'string' ? req.query.signature : '';
+      const task = await container.get('exportTasks').verifyDownload(req.params.id, expires, signature);
+      if (task === 'invalid') {
+        return res.status(403).json({ error: "Invalid download link" });
+      }
+      if (task === 'expired') {
+        return res.status(410).json({ error: "Download link has expired" });
+      }
+      if (task === 'not_ready') {
+        return res.status(409).json({ error: "Export is not ready" });
+      }
+
+      await sendBlob(res, task.artifactPath!, task.fileName);
+    } catch (error) {
+      if (res.headersSent) {
+        return res.destroy(error as Error);
+      }
+      if (error instanceof NotFoundError) {
+        return res.status(410).json({ error: "Export file is no longer available" });
+      }
+      res.status(500).json({ error: "Failed to download export" });
+    }
+  });
+
   // Job profiles route for AI Assistant
   app.get("/api/jobs/:id/profiles", async (req, res) => {
     try {
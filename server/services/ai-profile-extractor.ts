@@ -34,7 +34,7 @@ export class AIProfileExtractor {
     });
   }
 
-  async extractProfileFromURL(linkedinUrl: string): Promise<ExtractedProfile> {
+  async extractProfileFromURL(linkedinUrl: string, signal?: AbortSignal): Promise<ExtractedProfile> {
     try {
       // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
       const response = await this.openai.chat.completions.create({
@@ -84,7 +84,7 @@ export class AIProfileExtractor {
         response_format: { type: "json_object" },
         temperature: 0.3,
         max_tokens: 1000
-      });
+      }, { signal });
 
       const result = JSON.parse(response.choices[0].message.content || "{}");
       
@@ -103,6 +103,9 @@ export class AIProfileExtractor {
         education: Array.isArray(result.education) ? result.education : []
       };
     } catch (error) {
+      if (signal?.aborted) {
+        throw error; // cancelled, not a failed extraction
+      }
       console.error('AI extraction error:', error);
       // Fallback to basic extraction from URL
       return this.basicExtractionFromURL(linkedinUrl);
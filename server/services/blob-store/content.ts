@@ -0,0 +1,57 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { Readable, Transform, type TransformCallback } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { BlobBody } from './types';
+import { ValidationError } from '../../types/errors';
+
+/**
+ * Passes content through unchanged while taking its SHA-256 digest and
+ * size, so a blob is hashed as it is stored instead of being read twice.
+ */
+export class ContentHasher extends Transform {
+  private hash = createHash('sha256');
+  size: number = 0;
+
+  _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+    this.hash.update(chunk);
+    this.size += chunk.length;
+    callback(null, chunk);
+  }
+
+  // Only once all of the content has passed through
+  digest(): string {
+    return this.hash.digest('hex');
+  }
+}
+
+function bodyStream(body: BlobBody): Readable {
+  return typeof body === 'string' || Buffer.isBuffer(body) ? Readable.from([Buffer.from(body)]) : body;
+}
+
+// Writes the body to a file, returning its size and SHA-256 digest
+export async function writeHashed(body: BlobBody, filePath: string): Promise<{ size: number; sha256: string }> {
+  const hasher = new ContentHasher();
+  await pipeline(bodyStream(body), hasher, fs.createWriteStream(filePath));
+  return { size: hasher.size, sha256: hasher.digest() };
+}
+
+// A new scratch file name in the spool directory, which is created if needed
+export async function spoolPath(spoolDirectory: string): Promise<string> {
+  await fs.promises.mkdir(spoolDirectory, { recursive: true });
+  return path.join(spoolDirectory, `${randomUUID()}.partial`);
+}
+
+/**
+ * The key in the form stores use: forward slashes, no `.` segments. Keys
+ * that would leave the store, like `../secrets` or `/etc/passwd`, are
+ * refused.
+ */
+export function normalizeKey(key: string): string {
+  const normalized = path.posix.normalize(key.replace(/\\/g, '/')).replace(/^\.\//, '');
+  if (!normalized || normalized === '.' || normalized.startsWith('/') || normalized.split('/').includes('..')) {
+    throw new ValidationError(`invalid blob key "${key}"`, 'key');
+  }
+  return normalized;
+}
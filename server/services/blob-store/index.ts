@@ -0,0 +1,45 @@
+import { CONFIG } from '../../config/constants';
+import type { BlobStore } from './types';
+import { LocalBlobStore } from './local-store';
+import { S3BlobStore } from './s3-store';
+
+export type { BlobBody, BlobInfo, BlobStore, LocalFile } from './types';
+export { ContentHasher, normalizeKey, spoolPath, writeHashed } from './content';
+export { LocalBlobStore } from './local-store';
+export { S3BlobStore, type S3BlobStoreOptions } from './s3-store';
+
+// The store `CONFIG.BLOB_STORE.DRIVER` names: local files unless it is 's3'
+export function createBlobStore(): BlobStore {
+  const { DRIVER, LOCAL_ROOT, SPOOL_DIRECTORY, S3 } = CONFIG.BLOB_STORE;
+  switch (DRIVER) {
+    case 'local':
+      return new LocalBlobStore(LOCAL_ROOT);
+    case 's3':
+      if (!S3.BUCKET) {
+        throw new Error('S3_BUCKET is required when BLOB_STORE is s3');
+      }
+      return new S3BlobStore({
+        endpoint: S3.ENDPOINT,
+        region: S3.REGION,
+        bucket: S3.BUCKET,
+        accessKeyId: S3.ACCESS_KEY_ID,
+        secretAccessKey: S3.SECRET_ACCESS_KEY,
+        forcePathStyle: S3.FORCE_PATH_STYLE,
+        spoolDirectory: SPOOL_DIRECTORY,
+      });
+    default:
+      throw new Error(`Unknown blob store: ${DRIVER}`);
+  }
+}
+
+// Runs `read` on a file holding the blob, releasing any copy made for it afterwards
+export async function withLocalFile<T>(store: BlobStore, key: string, read: (filePath: string) => Promise<T>): Promise<T> {
+  const file = await store.localFile(key);
+  try {
+    return await read(file.path);
+  } finally {
+    await file.release();
+  }
+}
+
+export const blobStore = createBlobStore();
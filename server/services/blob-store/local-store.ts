@@ -0,0 +1,73 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { Readable } from 'stream';
+import type { BlobBody, BlobInfo, BlobStore, LocalFile } from './types';
+import { normalizeKey, writeHashed } from './content';
+import { NotFoundError } from '../../types/errors';
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * Blobs as files under a root directory, at their key's path. Fine for a
+ * single server; with several, each would only see the files it wrote.
+ */
+export class LocalBlobStore implements BlobStore {
+  readonly name = 'local';
+
+  constructor(private root: string) {}
+
+  // Written under a temporary name and renamed when complete
+  async put(key: string, body: BlobBody): Promise<BlobInfo> {
+    const filePath = this.filePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    const partialPath = `${filePath}.${randomUUID()}.partial`;
+    try {
+      const digest = await writeHashed(body, partialPath);
+      await fs.promises.rename(partialPath, filePath);
+      return { key: normalizeKey(key), ...digest };
+    } catch (error) {
+      await fs.promises.rm(partialPath, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<Readable> {
+    const filePath = this.filePath(key);
+    const handle = await fs.promises.open(filePath, 'r').catch(error => {
+      throw isMissing(error) ? new NotFoundError(`Blob ${key}`) : error;
+    });
+    return handle.createReadStream();
+  }
+
+  async stat(key: string): Promise<{ size: number } | undefined> {
+    try {
+      const { size } = await fs.promises.stat(this.filePath(key));
+      return { size };
+    } catch (error) {
+      if (isMissing(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.filePath(key), { force: true });
+  }
+
+  // The blob's own file; nothing to release
+  async localFile(key: string): Promise<LocalFile> {
+    if (!(await this.stat(key))) {
+      throw new NotFoundError(`Blob ${key}`);
+    }
+    return { path: this.filePath(key), release: async () => {} };
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.root, normalizeKey(key));
+  }
+}
@@ -0,0 +1,206 @@
+import fs from 'fs';
+import http, { type IncomingMessage } from 'http';
+import https from 'https';
+import { createHash, createHmac } from 'crypto';
+import type { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { BlobBody, BlobInfo, BlobStore, LocalFile } from './types';
+import { normalizeKey, spoolPath, writeHashed } from './content';
+import { ExternalServiceError, NotFoundError } from '../../types/errors';
+
+export interface S3BlobStoreOptions {
+  endpoint: string; // https://s3.amazonaws.com, or e.g. http://localhost:9000 for MinIO
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean; // bucket in the path rather than the host name
+  spoolDirectory: string; // puts are spooled here to learn their length and hash before upload
+}
+
+interface S3Request {
+  payloadHash?: string; // hex SHA-256 of the body; of an empty body when left out
+  headers?: Record<string, string>;
+  body?: Readable;
+}
+
+export const EMPTY_PAYLOAD_HASH = createHash('sha256').update('').digest('hex');
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// Each path segment encoded as RFC 3986 requires, as Signature Version 4 expects
+export function encodeKey(key: string): string {
+  return key
+    .split('/')
+    .map(segment => encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`))
+    .join('/');
+}
+
+export interface SignableRequest {
+  method: string;
+  url: URL; // its path already encoded, as `encodeKey` leaves it
+  headers: Record<string, string>; // lower-case names
+  payloadHash: string;
+  amzDate: string; // e.g. 20240131T120000Z
+}
+
+/**
+ * The request's headers with the host, payload hash, date and the
+ * Signature Version 4 authorization S3 expects added; every header is
+ * signed. `npx tsx server/check-s3-signing.ts` checks it against AWS's
+ * published examples.
+ */
+export function signRequest(
+  { method, url, headers, payloadHash, amzDate }: SignableRequest,
+  { region, accessKeyId, secretAccessKey }: Pick<S3BlobStoreOptions, 'region' | 'accessKeyId' | 'secretAccessKey'>
+): Record<string, string> {
+  const date = amzDate.slice(0, 8);
+  const signedHeaders: Record<string, string> = {
+    ...headers,
+    host: url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+
+  const names = Object.keys(signedHeaders).sort();
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    '', // no query string
+    ...names.map(name => `${name}:${signedHeaders[name].trim()}`),
+    '',
+    names.join(';'),
+    payloadHash,
+  ].join('\n');
+  const scope = `${date}/${region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, createHash('sha256').update(canonicalRequest).digest('hex')].join('\n');
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${secretAccessKey}`, date), region)
+  );
+  const signature = hmac(signingKey, stringToSign).toString('hex');
+  return {
+    ...signedHeaders,
+    authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${names.join(';')}, Signature=${signature}`,
+  };
+}
+
+/**
+ * Blobs as objects in an S3 bucket, or any store that speaks the S3 API
+ * such as MinIO, so every server sees the same files. Requests are signed
+ * with Signature Version 4; a put's content hash is sent as its payload
+ * hash, so the store rejects a body that changed on the way.
+ */
+export class S3BlobStore implements BlobStore {
+  readonly name = 's3';
+
+  constructor(private options: S3BlobStoreOptions) {}
+
+  async put(key: string, body: BlobBody, contentType?: string): Promise<BlobInfo> {
+    const partialPath = await spoolPath(this.options.spoolDirectory);
+    try {
+      const digest = await writeHashed(body, partialPath);
+      const response = await this.request('PUT', key, {
+        payloadHash: digest.sha256,
+        headers: {
+          'content-length': String(digest.size),
+          ...(contentType ? { 'content-type': contentType } : {}),
+        },
+        body: fs.createReadStream(partialPath),
+      });
+      await this.checkResponse(response, 'PUT', key);
+      response.resume();
+      return { key: normalizeKey(key), ...digest };
+    } finally {
+      await fs.promises.rm(partialPath, { force: true });
+    }
+  }
+
+  async get(key: string): Promise<Readable> {
+    const response = await this.request('GET', key);
+    await this.checkResponse(response, 'GET', key);
+    return response;
+  }
+
+  async stat(key: string): Promise<{ size: number } | undefined> {
+    const response = await this.request('HEAD', key);
+    response.resume();
+    if (response.statusCode === 404) {
+      return undefined;
+    }
+    await this.checkResponse(response, 'HEAD', key);
+    return { size: Number(response.headers['content-length'] || 0) };
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (response.statusCode !== 404) {
+      await this.checkResponse(response, 'DELETE', key);
+    }
+    response.resume();
+  }
+
+  // Downloaded to the spool directory and removed on release
+  async localFile(key: string): Promise<LocalFile> {
+    const body = await this.get(key);
+    const filePath = await spoolPath(this.options.spoolDirectory);
+    try {
+      await pipeline(body, fs.createWriteStream(filePath));
+    } catch (error) {
+      await fs.promises.rm(filePath, { force: true });
+      throw error;
+    }
+    return { path: filePath, release: () => fs.promises.rm(filePath, { force: true }) };
+  }
+
+  private objectUrl(key: string): URL {
+    const endpoint = new URL(this.options.endpoint);
+    const objectPath = encodeKey(normalizeKey(key));
+    if (this.options.forcePathStyle) {
+      endpoint.pathname = `${endpoint.pathname.replace(/\/+$/, '')}/${this.options.bucket}/${objectPath}`;
+    } else {
+      endpoint.hostname = `${this.options.bucket}.${endpoint.hostname}`;
+      endpoint.pathname = `/${objectPath}`;
+    }
+    return endpoint;
+  }
+
+  private request(method: string, key: string, { payloadHash = EMPTY_PAYLOAD_HASH, headers = {}, body }: S3Request = {}): Promise<IncomingMessage> {
+    const url = this.objectUrl(key);
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, ''); // 20240131T120000Z
+    const signedHeaders = signRequest({ method, url, headers, payloadHash, amzDate }, this.options);
+
+    return new Promise((resolve, reject) => {
+      const client = url.protocol === 'https:' ? https : http;
+      const request = client.request(url, { method, headers: signedHeaders }, resolve);
+      request.on('error', error => reject(new ExternalServiceError('S3', error)));
+      if (body) {
+        body.on('error', error => request.destroy(error));
+        body.pipe(request);
+      } else {
+        request.end();
+      }
+    });
+  }
+
+  // Reads the error body of a failed request for its S3 error code
+  private async checkResponse(response: IncomingMessage, method: string, key: string): Promise<void> {
+    const status = response.statusCode || 0;
+    if (status >= 200 && status < 300) {
+      return;
+    }
+    if (status === 404 && method !== 'DELETE') {
+      response.resume();
+      throw new NotFoundError(`Blob ${key}`);
+    }
+
+    let text = '';
+    for await (const chunk of response) {
+      text += chunk;
+    }
+    const code = text.match(/<Code>([^<]*)<\/Code>/)?.[1];
+    throw new ExternalServiceError('S3', new Error(`${method} ${key} returned ${status}${code ? ` ${code}` : ''}`));
+  }
+}
@@ -0,0 +1,34 @@
+import type { Readable } from 'stream';
+
+export type BlobBody = Readable | Buffer | string;
+
+// What was stored under a key
+export interface BlobInfo {
+  key: string;
+  size: number; // bytes
+  sha256: string; // hex digest of the content, taken while it was stored
+}
+
+// A blob as a file on this server, for readers that need to seek in it
+export interface LocalFile {
+  path: string;
+  release(): Promise<void>; // removes the copy, if one was made; safe to call more than once
+}
+
+/**
+ * Where uploads, results and export files are kept, by key. Keys are
+ * relative paths such as `uploads/<id>` or `results/job_1_results.xlsx`.
+ * A put only becomes visible once all of its content is stored, so readers
+ * never see part of a file.
+ */
+export interface BlobStore {
+  readonly name: string;
+
+  put(key: string, body: BlobBody, contentType?: string): Promise<BlobInfo>;
+  get(key: string): Promise<Readable>; // NotFoundError when there is no such blob
+  stat(key: string): Promise<{ size: number } | undefined>;
+  delete(key: string): Promise<void>; // nothing happens when there is no such blob
+
+  // Stores that don't keep blobs on this server's disk download a copy
+  localFile(key: string): Promise<LocalFile>;
+}
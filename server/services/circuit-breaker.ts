@@ -0,0 +1,59 @@
+import type { PauseReason } from '@shared/schema';
+import { CONFIG } from '../config/constants';
+
+export interface CircuitTrip {
+  reason: PauseReason;
+  resumeAt: Date | null; // null when the job has to be resumed by the user
+}
+
+/**
+ * Watches the outcomes of one job run and trips once the profile source fails
+ * with the same error type too many times in a row, e.g. a wall of captcha
+ * challenges or an expired LinkedIn token. Any success, or a failure of a
+ * different type, starts the count over.
+ */
+export class CircuitBreaker {
+  private streakType: string | null = null;
+  private streak: number = 0;
+
+  constructor(private thresholds: Record<string, number> = CONFIG.CIRCUIT_BREAKER.THRESHOLDS) {}
+
+  recordSuccess(): void {
+    this.reset();
+  }
+
+  recordFailure(errorType: string): CircuitTrip | null {
+    const threshold = this.thresholds[errorType];
+    if (!threshold) {
+      this.reset();
+      return null;
+    }
+
+    this.streak = this.streakType === errorType ? this.streak + 1 : 1;
+    this.streakType = errorType;
+    if (this.streak < threshold) {
+      return null;
+    }
+
+    const failures = this.streak;
+    this.reset();
+
+    const manualResume = CONFIG.CIRCUIT_BREAKER.MANUAL_RESUME.includes(errorType);
+    return {
+      reason: {
+        type: 'circuit_breaker',
+        errorType,
+        failures,
+        message: manualResume
+          ? `Paused after ${failures} consecutive ${errorType} error(s); reconnect LinkedIn and resume the job`
+          : `Paused after ${failures} consecutive ${errorType} error(s); resuming automatically after a cool-down`,
+      },
+      resumeAt: manualResume ? null : new Date(Date.now() + CONFIG.CIRCUIT_BREAKER.COOLDOWN),
+    };
+  }
+
+  private reset(): void {
+    this.streakType = null;
+    this.streak = 0;
+  }
+}
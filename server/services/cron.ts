@@ -0,0 +1,160 @@
+import { ValidationError } from '../types/errors';
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Far enough to find any valid expression, e.g. "0 0 29 2 *" in a leap year
+const MAX_SEARCH_YEARS = 8;
+
+/**
+ * Parses a standard five-field cron expression (minute, hour, day of month,
+ * month, day of week) with lists, ranges, steps, month and day names and the
+ * usual @daily style aliases. As in cron, when both day fields are restricted
+ * a day matching either one runs.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = expression.trim().toLowerCase();
+  const fields = (ALIASES[normalized] || normalized).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new ValidationError('expected 5 fields (minute hour day-of-month month day-of-week)', 'cron');
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, DAY_NAMES);
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0); // 7 is also Sunday
+  }
+
+  return {
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 1, 31),
+    months: parseField(month, 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    anyDayOfMonth: dayOfMonth === '*',
+    anyDayOfWeek: dayOfWeek === '*',
+  };
+}
+
+/**
+ * First time strictly after `after` that matches the expression, in UTC.
+ */
+export function nextCronRun(expression: string | CronSchedule, after: Date): Date {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  const next = new Date(after.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  while (next.getTime() <= limit) {
+    if (!schedule.months.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1);
+      continue;
+    }
+    return next;
+  }
+
+  throw new ValidationError('expression never matches a date', 'cron');
+}
+
+/**
+ * The next `count` run times after `after`.
+ */
+export function upcomingCronRuns(expression: string | CronSchedule, after: Date, count: number): Date[] {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const runs: Date[] = [];
+  let cursor = after;
+  for (let i = 0; i < count; i++) {
+    cursor = nextCronRun(schedule, cursor);
+    runs.push(cursor);
+  }
+  return runs;
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+function parseField(field: string, min: number, max: number, names: string[] = [], nameOffset: number = 0): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (!Number.isInteger(step) || step < 1 || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+      throw new ValidationError(`invalid step in "${part}"`, 'cron');
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else {
+      const [startText, endText] = range.split('-');
+      start = parseValue(startText, names, nameOffset);
+      end = endText === undefined ? (stepText === undefined ? start : max) : parseValue(endText, names, nameOffset);
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new ValidationError(`"${part}" is outside ${min}-${max}`, 'cron');
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(text: string, names: string[], nameOffset: number): number {
+  const nameIndex = names.indexOf(text);
+  if (nameIndex !== -1) {
+    return nameIndex + nameOffset;
+  }
+  if (!/^\d+$/.test(text)) {
+    throw new ValidationError(`invalid value "${text}"`, 'cron');
+  }
+  return parseInt(text, 10);
+}
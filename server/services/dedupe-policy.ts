@@ -0,0 +1,103 @@
+import { dedupePolicySchema, type DedupePolicy, type InsertProfile } from '@shared/schema';
+import type { IStorage } from '../storage';
+import { uniqueProfileIdentities } from './linkedin-url';
+import { logger } from '../utils/logger';
+
+export const DEFAULT_DEDUPE_POLICY: DedupePolicy = { mode: 'off', withinDays: 30 };
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Reads the policy stored on the user. Invalid data falls back to the
+ * default rather than failing the upload, since it was validated when saved.
+ */
+export function parseDedupePolicy(value: unknown): DedupePolicy {
+  if (!value) {
+    return DEFAULT_DEDUPE_POLICY;
+  }
+
+  const result = dedupePolicySchema.safeParse(value);
+  if (!result.success) {
+    logger.warn('Ignoring invalid stored dedupe policy', { issues: result.error.issues });
+    return DEFAULT_DEDUPE_POLICY;
+  }
+  return result.data;
+}
+
+export interface ProfileIntake {
+  profiles: Array<Omit<InsertProfile, 'jobId'>>;
+  duplicateUrls: number; // URLs for a person already in the list
+  skipped: number; // left out under a 'skip' policy
+  reused: number; // created as successful with the earlier data under a 'reuse' policy
+}
+
+/**
+ * Profile rows for a new job: one per person, by canonical public id, with
+ * the user's policy applied to people they extracted within the window.
+ */
+export async function prepareProfileIntake(
+  storage: IStorage,
+  userId: number,
+  linkedinUrls: string[],
+  policy: DedupePolicy
+): Promise<ProfileIntake> {
+  const builder = new ProfileIntakeBuilder(storage, userId, policy);
+  const profiles = await builder.add(linkedinUrls);
+  return { ...builder.totals(), profiles };
+}
+
+/**
+ * `prepareProfileIntake` for a file read in chunks. A person is kept the
+ * first time they come up in any chunk.
+ */
+export class ProfileIntakeBuilder {
+  private seen = new Set<string>();
+  private duplicateUrls = 0;
+  private skipped = 0;
+  private reused = 0;
+
+  constructor(private storage: IStorage, private userId: number, private policy: DedupePolicy) {}
+
+  // Profile rows for the people first seen in these URLs
+  async add(linkedinUrls: string[]): Promise<ProfileIntake['profiles']> {
+    const identities = uniqueProfileIdentities(linkedinUrls).filter(identity => {
+      const key = identity.publicId ?? identity.linkedinUrl.trim();
+      if (this.seen.has(key)) {
+        return false;
+      }
+      this.seen.add(key);
+      return true;
+    });
+    this.duplicateUrls += linkedinUrls.length - identities.length;
+
+    const publicIds = identities.flatMap(identity => identity.publicId ? [identity.publicId] : []);
+    const recent = this.policy.mode === 'off' || publicIds.length === 0 ?
+      new Map() :
+      new Map((await this.storage.getHarvestedProfiles(this.userId, publicIds, new Date(Date.now() - this.policy.withinDays * DAY)))
+        .map(profile => [profile.publicId, profile]));
+
+    const profiles: ProfileIntake['profiles'] = [];
+    for (const identity of identities) {
+      const earlier = identity.publicId ? recent.get(identity.publicId) : undefined;
+      if (!earlier) {
+        profiles.push({ ...identity, status: 'pending' });
+      } else if (this.policy.mode === 'skip') {
+        this.skipped++;
+      } else {
+        this.reused++;
+        profiles.push({
+          ...identity,
+          status: 'success',
+          profileData: earlier.profileData,
+          extractedAt: earlier.extractedAt,
+          reusedFromProfileId: earlier.profileId,
+        });
+      }
+    }
+    return profiles;
+  }
+
+  totals(): Omit<ProfileIntake, 'profiles'> {
+    return { duplicateUrls: this.duplicateUrls, skipped: this.skipped, reused: this.reused };
+  }
+}
@@ -2,19 +2,54 @@
 import { storage } from '../storage';
 import { ExcelParser } from './excel/parser';
 import { ExcelExporter } from './excel/exporter';
+import {
+  InputParserRegistry,
+  SpreadsheetInputParser,
+  DelimitedInputParser,
+  JsonInputParser,
+  NdjsonInputParser,
+  TextInputParser,
+} from './input-parsers';
 import { LinkedInService } from './linkedin-api';
 import { AIProfileExtractor } from './ai-profile-extractor';
 import { JobSimulator } from './job-simulator';
 import { JobQueue } from './job-queue';
+import { JobScheduler } from './job-scheduler';
+import { JobCleanup } from './job-cleanup';
+import { UploadIngestion } from './upload-ingestion';
+import { ExportTasks } from './export-tasks';
+import { type BlobStore, blobStore } from './blob-store';
+import { RateLimiter, rateLimiter } from './rate-limiter';
+import { JobEventBus, jobEvents } from './job-events';
+import { JobEventLog } from './job-event-log';
+import { mockProfileGenerator } from './mock-profile-generator';
+import {
+  ProfileSourceRegistry,
+  LinkedInProfileSource,
+  AIProfileSource,
+  MockProfileSource,
+  FixtureProfileSource,
+} from './profile-sources';
+import { CONFIG } from '../config/constants';
 
 interface Services {
   storage: typeof storage;
+  blobStore: BlobStore;
   excelParser: ExcelParser;
   excelExporter: ExcelExporter;
+  inputParsers: InputParserRegistry;
   linkedinService: LinkedInService;
   aiProfileExtractor: AIProfileExtractor;
   jobSimulator: JobSimulator;
+  rateLimiter: RateLimiter;
+  profileSources: ProfileSourceRegistry;
+  jobEvents: JobEventBus;
+  jobEventLog: JobEventLog;
   jobQueue: JobQueue;
+  jobScheduler: JobScheduler;
+  jobCleanup: JobCleanup;
+  uploadIngestion: UploadIngestion;
+  exportTasks: ExportTasks;
 }
 
 class DependencyContainer {
@@ -35,14 +70,45 @@ class DependencyContainer {
   registerAll(): void {
     // Register all services
     this.register('storage', storage);
+    this.register('blobStore', blobStore);
     this.register('excelParser', new ExcelParser());
-    this.register('excelExporter', new ExcelExporter());
+    this.register('excelExporter', this.createExcelExporter());
+    this.register('inputParsers', this.createInputParsers());
     
     // These will be updated to use dependency injection
     this.register('linkedinService', this.createLinkedInService());
     this.register('aiProfileExtractor', this.createAIProfileExtractor());
     this.register('jobSimulator', this.createJobSimulator());
+    this.register('rateLimiter', rateLimiter);
+    this.register('profileSources', this.createProfileSources());
+    this.register('jobEvents', jobEvents);
+    this.register('jobEventLog', new JobEventLog(storage));
     this.register('jobQueue', this.createJobQueue());
+    this.register('jobScheduler', this.createJobScheduler());
+    this.register('jobCleanup', this.createJobCleanup());
+    this.register('uploadIngestion', this.createUploadIngestion());
+    this.register('exportTasks', this.createExportTasks());
+  }
+
+  private createExcelExporter(): ExcelExporter {
+    const storageService = this.services.storage;
+    const blobStoreService = this.services.blobStore;
+
+    if (!storageService || !blobStoreService) {
+      throw new Error('Required services not registered before ExcelExporter creation');
+    }
+
+    return new ExcelExporter(storageService, blobStoreService);
+  }
+
+  private createInputParsers(): InputParserRegistry {
+    const registry = new InputParserRegistry();
+    registry.register(new SpreadsheetInputParser());
+    registry.register(new DelimitedInputParser());
+    registry.register(new JsonInputParser());
+    registry.register(new NdjsonInputParser());
+    registry.register(new TextInputParser());
+    return registry;
   }
 
   private createLinkedInService(): LinkedInService {
@@ -61,23 +127,98 @@ class DependencyContainer {
     return service;
   }
 
+  private createProfileSources(): ProfileSourceRegistry {
+    const linkedinService = this.services.linkedinService;
+    const aiExtractorService = this.services.aiProfileExtractor;
+
+    if (!linkedinService || !aiExtractorService) {
+      throw new Error('Required services not registered before profile sources creation');
+    }
+
+    const registry = new ProfileSourceRegistry();
+    registry.register(new LinkedInProfileSource(linkedinService));
+    registry.register(new AIProfileSource(aiExtractorService));
+    registry.register(new MockProfileSource(mockProfileGenerator));
+    registry.register(new FixtureProfileSource(CONFIG.PROFILE_SOURCES.FIXTURE_PATH));
+    return registry;
+  }
+
   private createJobQueue(): JobQueue {
     // Avoid circular dependency by getting services that are already registered
     const storageService = this.services.storage;
-    const excelParserService = this.services.excelParser;
-    const aiExtractorService = this.services.aiProfileExtractor;
+    const inputParsersService = this.services.inputParsers;
+    const profileSourcesService = this.services.profileSources;
+    const rateLimiterService = this.services.rateLimiter;
+    const jobEventsService = this.services.jobEvents;
+    const jobEventLogService = this.services.jobEventLog;
+    const blobStoreService = this.services.blobStore;
+    const excelExporterService = this.services.excelExporter;
     
-    if (!storageService || !excelParserService || !aiExtractorService) {
+    if (!storageService || !inputParsersService || !profileSourcesService || !rateLimiterService || !jobEventsService || !jobEventLogService || !blobStoreService || !excelExporterService) {
       throw new Error('Required services not registered before JobQueue creation');
     }
     
     const service = new JobQueue(
       storageService,
-      excelParserService,
-      aiExtractorService
+      inputParsersService,
+      profileSourcesService,
+      rateLimiterService,
+      jobEventsService,
+      jobEventLogService,
+      blobStoreService,
+      excelExporterService
     );
     return service;
   }
+
+  private createJobScheduler(): JobScheduler {
+    const storageService = this.services.storage;
+    const jobQueueService = this.services.jobQueue;
+    const jobEventLogService = this.services.jobEventLog;
+
+    if (!storageService || !jobQueueService || !jobEventLogService) {
+      throw new Error('Required services not registered before JobScheduler creation');
+    }
+
+    return new JobScheduler(storageService, jobQueueService, jobEventLogService);
+  }
+
+  private createJobCleanup(): JobCleanup {
+    const storageService = this.services.storage;
+    const jobQueueService = this.services.jobQueue;
+    const jobEventLogService = this.services.jobEventLog;
+    const blobStoreService = this.services.blobStore;
+
+    if (!storageService || !jobQueueService || !jobEventLogService || !blobStoreService) {
+      throw new Error('Required services not registered before JobCleanup creation');
+    }
+
+    return new JobCleanup(storageService, jobQueueService, jobEventLogService, blobStoreService);
+  }
+
+  private createUploadIngestion(): UploadIngestion {
+    const storageService = this.services.storage;
+    const jobEventLogService = this.services.jobEventLog;
+
+    if (!storageService || !jobEventLogService) {
+      throw new Error('Required services not registered before UploadIngestion creation');
+    }
+
+    return new UploadIngestion(storageService, jobEventLogService);
+  }
+
+  private createExportTasks(): ExportTasks {
+    const storageService = this.services.storage;
+    const excelExporterService = this.services.excelExporter;
+    const jobEventsService = this.services.jobEvents;
+    const blobStoreService = this.services.blobStore;
+
+    if (!storageService || !excelExporterService || !jobEventsService || !blobStoreService) {
+      throw new Error('Required services not registered before ExportTasks creation');
+    }
+
+    return new ExportTasks(storageService, excelExporterService, jobEventsService, blobStoreService);
+  }
 }
 
 export const container = new DependencyContainer();
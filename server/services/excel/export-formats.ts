@@ -0,0 +1,165 @@
+import { Readable, type Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ExportFormat, ExportLayout } from '@shared/schema';
+import { XlsxStreamWriter, type CellValue, type SheetColumn } from './xlsx-writer';
+import { ZipWriter } from '../../utils/zip';
+
+// A column of an export: `header` in spreadsheets and CSV, `key` in JSON
+export interface ExportColumn<T> extends SheetColumn {
+  key: string;
+  value(record: T): CellValue;
+}
+
+/**
+ * One of the record types of a related export. `records` is called once per
+ * pass over the sheet, so it can read from storage again each time rather
+ * than holding every record in memory.
+ */
+export interface ExportSheet<T = unknown> {
+  name: string; // the sheet's name in workbooks
+  key: string; // the file name in CSV archives, the property or `sheet` value in JSON
+  columns: ExportColumn<T>[];
+  records(): Iterable<T> | AsyncIterable<T>;
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+// Related CSV exports are a zip archive with a file per sheet
+export function exportFileType(format: ExportFormat, layout: ExportLayout): { contentType: string; extension: string } {
+  if (layout === 'related' && format === 'csv') {
+    return { contentType: 'application/zip', extension: 'zip' };
+  }
+  return { contentType: EXPORT_CONTENT_TYPES[format], extension: format };
+}
+
+export function csvField(value: string, delimiter = ','): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function csvLine(values: CellValue[]): string {
+  return values.map(value => csvField(value === null ? '' : String(value))).join(',') + '\r\n';
+}
+
+function jsonRecord<T>(columns: ExportColumn<T>[], record: T, sheet?: string): string {
+  const fields = columns.map(column => [column.key, column.value(record)]);
+  return JSON.stringify(Object.fromEntries(sheet === undefined ? fields : [['sheet', sheet], ...fields]));
+}
+
+async function* rowValues<T>(columns: ExportColumn<T>[], records: Iterable<T> | AsyncIterable<T>): AsyncGenerator<CellValue[]> {
+  for await (const record of records) {
+    yield columns.map(column => column.value(record));
+  }
+}
+
+async function* csvLines<T>(columns: ExportColumn<T>[], records: Iterable<T> | AsyncIterable<T>): AsyncGenerator<string> {
+  yield '\ufeff' + csvLine(columns.map(column => column.header));
+  for await (const values of rowValues(columns, records)) {
+    yield csvLine(values);
+  }
+}
+
+/**
+ * Writes records to the stream as they are read: as a one-sheet workbook or
+ * a CSV file with the columns' headers, or as JSON objects with every
+ * column's key present, null when empty. CSV files are UTF-8 with a byte
+ * order mark so Excel opens them correctly. The stream is ended when done.
+ */
+export async function writeExport<T>(
+  format: ExportFormat,
+  sheetName: string,
+  columns: ExportColumn<T>[],
+  records: Iterable<T> | AsyncIterable<T>,
+  output: Writable
+): Promise<void> {
+  if (format === 'xlsx') {
+    const workbook = new XlsxStreamWriter(output);
+    await workbook.addSheet(sheetName, columns, rowValues(columns, records));
+    await workbook.finish();
+    return;
+  }
+  if (format === 'csv') {
+    await pipeline(Readable.from(csvLines(columns, records)), output);
+    return;
+  }
+
+  const lines = async function* (): AsyncGenerator<string> {
+    let first = true;
+    if (format === 'json') {
+      yield '[';
+    }
+
+    for await (const record of records) {
+      switch (format) {
+        case 'json':
+          yield `${first ? '\n' : ',\n'}${jsonRecord(columns, record)}`;
+          break;
+        case 'ndjson':
+          yield `${jsonRecord(columns, record)}\n`;
+          break;
+      }
+      first = false;
+    }
+
+    if (format === 'json') {
+      yield first ? ']\n' : '\n]\n';
+    }
+  };
+
+  await pipeline(Readable.from(lines()), output);
+}
+
+/**
+ * Writes several record types joined by a key column: a workbook with a
+ * sheet each, a zip archive of CSV files, a JSON object with an array per
+ * sheet key, or NDJSON lines whose `sheet` field names their record type.
+ * Sheets are written one after the other. The stream is ended when done.
+ */
+export async function writeSheetsExport(format: ExportFormat, sheets: ExportSheet[], output: Writable): Promise<void> {
+  if (format === 'xlsx') {
+    const workbook = new XlsxStreamWriter(output);
+    for (const sheet of sheets) {
+      await workbook.addSheet(sheet.name, sheet.columns, rowValues(sheet.columns, sheet.records()));
+    }
+    await workbook.finish();
+    return;
+  }
+  if (format === 'csv') {
+    const zip = new ZipWriter(output);
+    for (const sheet of sheets) {
+      await zip.addEntry(`${sheet.key}.csv`, csvLines(sheet.columns, sheet.records()));
+    }
+    await zip.finish();
+    return;
+  }
+
+  const lines = async function* (): AsyncGenerator<string> {
+    if (format === 'json') {
+      yield '{';
+    }
+    for (const sheet of sheets) {
+      let first = true;
+      if (format === 'json') {
+        yield `${sheet === sheets[0] ? '\n' : ',\n'}${JSON.stringify(sheet.key)}: [`;
+      }
+      for await (const record of sheet.records()) {
+        yield format === 'json'
+          ? `${first ? '\n' : ',\n'}${jsonRecord(sheet.columns, record)}`
+          : `${jsonRecord(sheet.columns, record, sheet.key)}\n`;
+        first = false;
+      }
+      if (format === 'json') {
+        yield first ? ']' : '\n]';
+      }
+    }
+    if (format === 'json') {
+      yield sheets.length === 0 ? '}\n' : '\n}\n';
+    }
+  };
+
+  await pipeline(Readable.from(lines()), output);
+}
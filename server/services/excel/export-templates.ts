@@ -0,0 +1,155 @@
+import type { ExportTemplateColumn, ExportTemplateSpec, Profile } from '@shared/schema';
+import { ValidationError } from '../../types/errors';
+import type { ExportColumn } from './export-formats';
+import { RESULT_COLUMNS, profileData } from './result-columns';
+import type { CellValue } from './xlsx-writer';
+
+// A built-in template, selected by its id instead of a saved template's number
+export interface ExportTemplatePreset extends ExportTemplateSpec {
+  id: string;
+  name: string;
+}
+
+type FieldValue = CellValue | Date;
+
+function text(value: string | null | undefined): string | null {
+  return value ? value : null;
+}
+
+/**
+ * What a template column can read: every result column by its key, with
+ * dates kept as dates so the template can format them, and a few fields ATS
+ * and CRM imports ask for that the standard download leaves out.
+ */
+const TEMPLATE_FIELDS = new Map<string, (profile: Profile) => FieldValue>([
+  ...RESULT_COLUMNS.map(column => [column.key, (profile: Profile) => column.value(profile)] as const),
+  ['extractedAt', profile => profile.extractedAt],
+  ['lastAttempt', profile => profile.lastAttempt],
+  ['fullName', profile => {
+    const data = profileData(profile);
+    return text([data.firstName, data.lastName].filter(Boolean).join(' '));
+  }],
+  ['email', profile => text(profileData(profile).email)],
+  ['phone', profile => text(profileData(profile).phone)],
+]);
+
+export const EXPORT_TEMPLATE_FIELDS = Array.from(TEMPLATE_FIELDS.keys());
+
+/**
+ * Layouts for the candidate and contact importers of common ATS and CRM
+ * tools. They follow the headers those importers map automatically; any
+ * column they don't recognise can be mapped or skipped during import.
+ */
+export const EXPORT_TEMPLATE_PRESETS: ExportTemplatePreset[] = [
+  {
+    id: 'greenhouse',
+    name: 'Greenhouse candidates',
+    dateFormat: 'YYYY-MM-DD',
+    columns: [
+      { header: 'First Name', source: 'firstName' },
+      { header: 'Last Name', source: 'lastName' },
+      { header: 'Company', source: 'currentCompany' },
+      { header: 'Title', source: 'currentPosition' },
+      { header: 'Email', source: 'email' },
+      { header: 'Phone', source: 'phone' },
+      { header: 'Social Media', source: 'linkedinUrl' },
+      { header: 'Location', source: 'location' },
+      { header: 'Source', value: 'LinkedIn' },
+    ],
+  },
+  {
+    id: 'lever',
+    name: 'Lever candidates',
+    dateFormat: 'YYYY-MM-DD',
+    columns: [
+      { header: 'Name', source: 'fullName' },
+      { header: 'Email', source: 'email' },
+      { header: 'Phone', source: 'phone' },
+      { header: 'Current Company', source: 'currentCompany' },
+      { header: 'Current Title', source: 'currentPosition' },
+      { header: 'Location', source: 'location' },
+      { header: 'Links', source: 'linkedinUrl' },
+      { header: 'Tags', source: 'industry' },
+      { header: 'Source', value: 'LinkedIn' },
+    ],
+  },
+  {
+    id: 'hubspot',
+    name: 'HubSpot contacts',
+    dateFormat: 'MM/DD/YYYY',
+    columns: [
+      { header: 'First Name', source: 'firstName' },
+      { header: 'Last Name', source: 'lastName' },
+      { header: 'Email', source: 'email' },
+      { header: 'Phone Number', source: 'phone' },
+      { header: 'Company Name', source: 'currentCompany' },
+      { header: 'Job Title', source: 'currentPosition' },
+      { header: 'City', source: 'location' },
+      { header: 'Industry', source: 'industry' },
+      { header: 'LinkedIn Profile', source: 'linkedinUrl' },
+      { header: 'Lifecycle Stage', value: 'lead' },
+      { header: 'Create Date', source: 'extractedAt' },
+    ],
+  },
+];
+
+const DATE_TOKENS = /YYYY|YY|MM|M|DD|D|HH|mm|ss/g;
+
+// Formats a date in UTC with the tokens of `ExportTemplateColumn.dateFormat`
+export function formatDate(date: Date, format: string): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return format.replace(DATE_TOKENS, token => {
+    switch (token) {
+      case 'YYYY': return String(date.getUTCFullYear());
+      case 'YY': return pad(date.getUTCFullYear() % 100);
+      case 'MM': return pad(date.getUTCMonth() + 1);
+      case 'M': return String(date.getUTCMonth() + 1);
+      case 'DD': return pad(date.getUTCDate());
+      case 'D': return String(date.getUTCDate());
+      case 'HH': return pad(date.getUTCHours());
+      case 'mm': return pad(date.getUTCMinutes());
+      default: return pad(date.getUTCSeconds());
+    }
+  });
+}
+
+function transformText(value: string, transform: NonNullable<ExportTemplateColumn['transform']>): string {
+  switch (transform) {
+    case 'uppercase':
+      return value.toUpperCase();
+    case 'lowercase':
+      return value.toLowerCase();
+    case 'titlecase':
+      return value.toLowerCase().replace(/(^|[\s\-'])(\S)/g, (match, separator, letter) => separator + letter.toUpperCase());
+    case 'trim':
+      return value.replace(/\s+/g, ' ').trim();
+  }
+}
+
+/**
+ * The export columns a template describes, in its order and under its
+ * headers, which are also the keys in JSON downloads. Throws a
+ * ValidationError for a source that isn't a template field.
+ */
+export function templateColumns(spec: ExportTemplateSpec): ExportColumn<Profile>[] {
+  return spec.columns.map(column => {
+    const field = column.source === undefined ? undefined : TEMPLATE_FIELDS.get(column.source);
+    if (column.source !== undefined && !field) {
+      throw new ValidationError(`unknown source "${column.source}"; expected one of ${EXPORT_TEMPLATE_FIELDS.join(', ')}`, 'columns');
+    }
+    const dateFormat = column.dateFormat ?? spec.dateFormat ?? undefined;
+
+    return {
+      key: column.header,
+      header: column.header,
+      value: profile => {
+        const raw = field ? field(profile) : column.value ?? null;
+        let value: CellValue = raw instanceof Date ? (dateFormat ? formatDate(raw, dateFormat) : raw.toISOString()) : raw;
+        if (typeof value === 'string' && column.transform) {
+          value = transformText(value, column.transform);
+        }
+        return (value === null || value === '') && column.fallback !== undefined ? column.fallback : value;
+      },
+    };
+  });
+}
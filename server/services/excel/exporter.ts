@@ -1,137 +1,252 @@
 import fs from 'fs';
 import path from 'path';
-import { storage } from '../../storage';
-import type { ProcessedProfile } from '@shared/schema';
-import { AppError } from '../../types/errors';
+import type { Writable } from 'stream';
+import type { IStorage, ProfileQuery } from '../../storage';
+import { exportFilterSchema, type ExportFilter, type ExportFormat, type ExportLayout, type ExportTemplateSpec, type InputMapping, type Job, type Profile } from '@shared/schema';
+import { CONFIG } from '../../config/constants';
+import { AppError, ValidationError } from '../../types/errors';
+import { writeBackFile } from './writeback';
+import { writeExport, writeSheetsExport } from './export-formats';
+import { RESULT_COLUMNS, profileData } from './result-columns';
+import { relatedSheets } from './related-sheets';
+import { EXPORT_TEMPLATE_PRESETS, templateColumns } from './export-templates';
+import { type BlobStore, spoolPath, withLocalFile } from '../blob-store';
+
+export type ExportType = 'successful' | 'failed' | 'all';
+
+// Profiles to export; called again for each pass a related export makes over them
+export type ProfileRecords = () => Iterable<Profile> | AsyncIterable<Profile>;
+
+// An export's filter with any saved search it names filled in
+export type ProfileFilter = Omit<ProfileQuery, 'userId' | 'statuses'>;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  layout?: ExportLayout; // flat when left out
+  template?: ExportTemplateSpec; // the columns of a flat export, instead of the standard ones
+  onProgress?: (percent: number) => void; // called as each page of profiles is written, below 100 until done
+}
+
+const PROFILE_STATUSES = ['pending', 'processing', 'success', 'failed', 'retrying'];
+
+const EXPORT_STATUSES: Record<ExportType, string[]> = {
+  successful: ['success'],
+  failed: ['failed'],
+  all: PROFILE_STATUSES,
+};
+
+// What became of one row of an uploaded file
+export type RowOutcome =
+  | { profile: Profile }
+  | { status: 'skipped' | 'invalid'; error: string }; // no profile: left out of the job, or not a profile URL
+
+// Appended to the rows of the user's own file, after their last column
+const ENRICHED_COLUMNS = [
+  'LinkedIn Name',
+  'LinkedIn Headline',
+  'Current Title',
+  'Current Company',
+  'LinkedIn Location',
+  'Extraction Status',
+  'Extraction Error',
+];
+
+function enrichedValues(outcome: RowOutcome): string[] {
+  if (!('profile' in outcome)) {
+    return ['', '', '', '', '', outcome.status, outcome.error];
+  }
+
+  const { profile } = outcome;
+  const data = profile.status === 'success' ? profileData(profile) : null;
+  const latest = data?.positions?.[0];
+  return [
+    [data?.firstName, data?.lastName].filter(Boolean).join(' '),
+    data?.headline || '',
+    data?.currentPosition || latest?.title || '',
+    data?.currentCompany || latest?.company || '',
+    data?.location || '',
+    profile.status,
+    profile.status === 'success' ? '' : profile.errorMessage || '',
+  ];
+}
 
 export class ExcelExporter {
-  async exportResults(userId: number, type: 'successful' | 'failed' | 'all'): Promise<Buffer> {
+  constructor(
+    private storage: IStorage,
+    private blobs: BlobStore
+  ) {}
+
+  // Streams the user's profiles that match the filter, read from storage a page at a time
+  async exportResults(
+    userId: number,
+    type: ExportType,
+    output: Writable,
+    options: ExportOptions,
+    filter: ProfileFilter = {}
+  ): Promise<void> {
     try {
-      const jobs = await storage.getJobsByUser(userId);
-      let profiles: any[] = [];
+      const query: ProfileQuery = { ...filter, userId, statuses: EXPORT_STATUSES[type] };
+      const profiles: ProfileRecords = () => this.matchingProfiles(query);
+      await this.exportProfiles(options.onProgress ? await this.tracked(query, profiles, options) : profiles, output, options);
+    } catch (error) {
+      throw new AppError(`Failed to export results: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * The filter with the fields of the saved search it names, if any, under
+   * its own. Undefined when the saved search isn't one of the user's.
+   */
+  async resolveFilter(userId: number, filter: ExportFilter): Promise<ProfileFilter | undefined> {
+    const { savedSearchId, ...fields } = filter;
+    if (savedSearchId === undefined) {
+      return fields;
+    }
+
+    const savedSearch = await this.storage.getSavedSearch(savedSearchId);
+    if (!savedSearch || savedSearch.userId !== userId) {
+      return undefined;
+    }
+    const { savedSearchId: _, ...saved } = exportFilterSchema.parse(savedSearch.filter);
+    const defined = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+    return { ...saved, ...defined };
+  }
 
-      for (const job of jobs) {
-        const jobProfiles = await storage.getProfilesByJob(job.id);
-        profiles.push(...jobProfiles);
+  /**
+   * Writes the profiles with the standard result columns or a template's,
+   * or as related sheets of profiles, positions, education, skills and errors.
+   */
+  async exportProfiles(profiles: ProfileRecords, output: Writable, options: ExportOptions): Promise<void> {
+    if (options.layout === 'related') {
+      if (options.template) {
+        throw new ValidationError('export templates apply to flat exports only', 'template');
       }
+      await writeSheetsExport(options.format, relatedSheets(profiles), output);
+    } else {
+      const columns = options.template ? templateColumns(options.template) : RESULT_COLUMNS;
+      await writeExport(options.format, 'Results', columns, profiles(), output);
+    }
+  }
 
-      // Filter based on type
-      switch (type) {
-        case 'successful':
-          profiles = profiles.filter(p => p.status === 'success');
-          break;
-        case 'failed':
-          profiles = profiles.filter(p => p.status === 'failed');
-          break;
+  /**
+   * A template by reference: a preset's id, or the number of one of the
+   * user's saved templates. Undefined when there's no such template.
+   */
+  async findTemplate(userId: number, reference: string): Promise<ExportTemplateSpec | undefined> {
+    const preset = EXPORT_TEMPLATE_PRESETS.find(candidate => candidate.id === reference);
+    if (preset) {
+      return preset;
+    }
+    if (!/^\d+$/.test(reference)) {
+      return undefined;
+    }
+
+    const template = await this.storage.getExportTemplate(parseInt(reference));
+    if (!template || template.userId !== userId) {
+      return undefined;
+    }
+    return { columns: template.columns as ExportTemplateSpec['columns'], dateFormat: template.dateFormat };
+  }
+
+  /**
+   * The profiles, counting them as they are read to report progress: a
+   * related export reads them once per sheet, so each pass is a share of it.
+   */
+  private async tracked(query: ProfileQuery, profiles: ProfileRecords, options: ExportOptions): Promise<ProfileRecords> {
+    const onProgress = options.onProgress!;
+    const passes = options.layout === 'related' ? relatedSheets(() => []).length : 1;
+    const total = (await this.storage.countProfilesMatching(query)) * passes;
+    let read = 0;
+
+    return async function* () {
+      for await (const profile of profiles()) {
+        yield profile;
+        read++;
+        if (read % CONFIG.EXPORT.PAGE_SIZE === 0 && total > 0) {
+          onProgress(Math.min(99, Math.floor((read / total) * 100)));
+        }
       }
+    };
+  }
 
-      const XLSX = await import('xlsx');
-      const worksheet = XLSX.default.utils.json_to_sheet(
-        profiles.map(p => ({
-          'LinkedIn URL': p.linkedinUrl,
-          'Status': p.status,
-          'First Name': p.profileData?.firstName || '',
-          'Last Name': p.profileData?.lastName || '',
-          'Headline': p.profileData?.headline || '',
-          'Location': p.profileData?.location || '',
-          'Industry': p.profileData?.industry || '',
-          'Error Type': p.errorType || '',
-          'Error Message': p.errorMessage || '',
-          'Retry Count': p.retryCount || 0,
-          'Last Attempt': p.lastAttempt || '',
-          'Extracted At': p.extractedAt || '',
-        }))
-      );
-
-      const workbook = XLSX.default.utils.book_new();
-      XLSX.default.utils.book_append_sheet(workbook, worksheet, 'Profiles');
-
-      return XLSX.default.write(workbook, { type: 'buffer', bookType: 'xlsx' });
-    } catch (error) {
-      throw new AppError(`Failed to export results: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  // The profiles matching the query in id order, read from storage a page at a time
+  async *matchingProfiles(query: ProfileQuery): AsyncGenerator<Profile> {
+    let cursor = 0;
+    while (true) {
+      const page = await this.storage.getProfilesMatching(query, cursor, CONFIG.EXPORT.PAGE_SIZE);
+      yield* page;
+      if (page.length < CONFIG.EXPORT.PAGE_SIZE) {
+        break;
+      }
+      cursor = page[page.length - 1].id;
+    }
+  }
+
+  // The jobs' profiles in id order, read from storage a page at a time
+  async *jobProfiles(jobIds: number[], statuses: string[] = PROFILE_STATUSES): AsyncGenerator<Profile> {
+    for (const jobId of jobIds) {
+      let cursor = 0;
+      while (true) {
+        const page = await this.storage.getProfilesAfter(jobId, cursor, statuses, CONFIG.EXPORT.PAGE_SIZE);
+        yield* page;
+        if (page.length < CONFIG.EXPORT.PAGE_SIZE) {
+          break;
+        }
+        cursor = page[page.length - 1].id;
+      }
     }
   }
 
-  async saveJobResults(jobId: number, processedProfiles: ProcessedProfile[]): Promise<string> {
+  async saveJobResults(
+    jobId: number,
+    profiles: Iterable<Profile> | AsyncIterable<Profile>,
+    fileName: string = `job_${jobId}_results.xlsx`
+  ): Promise<string> {
     try {
-      const job = await storage.getJob(jobId);
+      const job = await this.storage.getJob(jobId);
       if (!job) {
         throw new AppError('Job not found', 404);
       }
 
-      const XLSX = await import('xlsx');
-      
-      // Transform profiles to spreadsheet format
-      const data = processedProfiles.map((profile, index) => {
-        const row: any = {
-          'Row #': index + 1,
-          'LinkedIn URL': profile.url,
-          'Status': profile.status,
-        };
-
-        if (profile.status === 'success' && profile.data) {
-          row['First Name'] = profile.data.firstName || '';
-          row['Last Name'] = profile.data.lastName || '';
-          row['Headline'] = profile.data.headline || '';
-          row['Location'] = profile.data.location || '';
-          row['Industry'] = profile.data.industry || '';
-          row['Current Position'] = profile.data.currentPosition || '';
-          row['Current Company'] = profile.data.currentCompany || '';
-          row['Summary'] = profile.data.summary || '';
-          
-          // Skills as comma-separated list
-          if (profile.data.skills && Array.isArray(profile.data.skills)) {
-            row['Skills'] = profile.data.skills.join(', ');
-          }
-          
-          // Experience summary
-          if (profile.data.experience && profile.data.experience.length > 0) {
-            row['Years of Experience'] = profile.data.experience.length;
-            row['Latest Position'] = profile.data.experience[0]?.title || '';
-            row['Latest Company'] = profile.data.experience[0]?.company || '';
-          }
-          
-          // Education summary
-          if (profile.data.education && profile.data.education.length > 0) {
-            row['Highest Education'] = profile.data.education[0]?.degree || '';
-            row['School'] = profile.data.education[0]?.school || '';
-            row['Field of Study'] = profile.data.education[0]?.field || '';
-          }
-        } else if (profile.status === 'failed' || profile.status === 'retrying') {
-          row['Error Type'] = profile.errorType || 'Unknown';
-          row['Error Message'] = profile.error || 'Failed to extract profile';
-          row['Retry Count'] = profile.retryCount || 0;
-          row['Status'] = profile.status;
-        }
+      return await this.writeResultFile(fileName, partialPath =>
+        this.exportProfiles(() => profiles, fs.createWriteStream(partialPath), { format: 'xlsx' }));
+    } catch (error) {
+      throw new AppError(`Failed to save job results: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-        return row;
-      });
-
-      // Create worksheet and workbook
-      const worksheet = XLSX.default.utils.json_to_sheet(data);
-      const workbook = XLSX.default.utils.book_new();
-      
-      // Auto-size columns
-      const keys = Object.keys(data[0] || {});
-      const colWidths = keys.map(key => ({
-        wch: Math.max(key.length, 15)
-      }));
-      worksheet['!cols'] = colWidths;
-
-      XLSX.default.utils.book_append_sheet(workbook, worksheet, 'Results');
-
-      // Save to file
-      const resultsDir = 'results';
-      if (!fs.existsSync(resultsDir)) {
-        fs.mkdirSync(resultsDir, { recursive: true });
+  /**
+   * Writes the job's uploaded file back with the extracted details appended
+   * to the rows they were read from. Returns the blob key of the written copy.
+   */
+  async saveEnrichedWorkbook(job: Job, mapping: InputMapping, outcomes: Map<number, RowOutcome>): Promise<string> {
+    try {
+      const rows = new Map(Array.from(outcomes.entries()).map(([rowIndex, outcome]) => [rowIndex, enrichedValues(outcome)]));
+      const fileName = `job_${job.id}_enriched${path.extname(job.fileName).toLowerCase()}`;
+      return await withLocalFile(this.blobs, job.filePath, sourcePath =>
+        this.writeResultFile(fileName, partialPath => writeBackFile(sourcePath, job.fileName, {
+          sheet: mapping.sheet,
+          headerRow: mapping.headerRow,
+          headers: ENRICHED_COLUMNS,
+          rows,
+        }, partialPath)));
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw error;
       }
+      throw new AppError(`Failed to save enriched workbook: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      const resultPath = path.join(resultsDir, `job_${jobId}_results.xlsx`);
-      XLSX.default.writeFile(workbook, resultPath);
-
-      return resultPath;
-    } catch (error) {
-      throw new AppError(`Failed to save job results: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  // Written to a scratch file, then stored under the results prefix; returns the blob key
+  private async writeResultFile(fileName: string, write: (partialPath: string) => Promise<void>): Promise<string> {
+    const partialPath = await spoolPath(CONFIG.BLOB_STORE.SPOOL_DIRECTORY);
+    try {
+      await write(partialPath);
+      const { key } = await this.blobs.put(`${CONFIG.JOB_DELETION.RESULTS_DIRECTORY}${fileName}`, fs.createReadStream(partialPath));
+      return key;
+    } finally {
+      await fs.promises.rm(partialPath, { force: true });
     }
   }
-}
\ No newline at end of file
+}
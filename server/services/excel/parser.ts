@@ -1,6 +1,7 @@
 import fs from 'fs';
 import type { LinkedInUrl } from '@shared/schema';
 import { CONFIG } from '../../config/constants';
+import { urlsFromRows } from '../input-parsers';
 
 export class ExcelParser {
   async parseLinkedInUrls(filePath: string): Promise<LinkedInUrl[]> {
@@ -10,35 +11,7 @@ export class ExcelParser {
       const worksheet = workbook.Sheets[workbook.SheetNames[0]];
       const data = XLSX.default.utils.sheet_to_json(worksheet, { header: 1 }) as any[][];
 
-      const linkedinUrls: LinkedInUrl[] = [];
-      const linkedinPattern = /linkedin\.com\/(in|pub)\//i;
-
-      // Find columns that contain LinkedIn URLs
-      for (let rowIndex = 0; rowIndex < data.length; rowIndex++) {
-        const row = data[rowIndex];
-        
-        for (let colIndex = 0; colIndex < row.length; colIndex++) {
-          const cellValue = row[colIndex];
-          
-          if (typeof cellValue === 'string' && linkedinPattern.test(cellValue)) {
-            // Extract additional data from the same row
-            const additionalData: Record<string, any> = {};
-            row.forEach((cell, idx) => {
-              if (idx !== colIndex && cell) {
-                additionalData[`column_${idx}`] = cell;
-              }
-            });
-
-            linkedinUrls.push({
-              url: cellValue.trim(),
-              rowIndex,
-              additionalData,
-            });
-          }
-        }
-      }
-
-      return linkedinUrls;
+      return urlsFromRows(data);
     } catch (error) {
       throw new Error(`Failed to parse Excel file: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
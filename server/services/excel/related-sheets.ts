@@ -0,0 +1,193 @@
+import type { Profile } from '@shared/schema';
+import type { SourceProfile } from '../profile-sources';
+import type { ExportColumn, ExportSheet } from './export-formats';
+import type { ProfileRecords } from './exporter';
+import { RESULT_COLUMNS, profileData } from './result-columns';
+
+type Position = SourceProfile['positions'][number];
+type Education = SourceProfile['education'][number];
+
+// A position, school or skill of a profile, numbered from 1 in the profile's order
+interface ProfileItem<T> {
+  profile: Profile;
+  item: T;
+  order: number;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const ONGOING = /present|current|now|today/i;
+
+/**
+ * Months since year 0 of a profile date: sources write "2020", "2020-3",
+ * "03/2020" or "Mar 2020". A year alone counts from January. Null when the
+ * text holds no year.
+ */
+function monthNumber(text: string | undefined): number | null {
+  const year = text?.match(/(?:19|20)\d{2}/);
+  if (!text || !year) {
+    return null;
+  }
+
+  const lower = text.toLowerCase();
+  let month = MONTHS.findIndex(name => lower.includes(name)) + 1;
+  if (month === 0) {
+    const numeric = text.replace(year[0], '').match(/\b(\d{1,2})\b/);
+    month = numeric && Number(numeric[1]) >= 1 && Number(numeric[1]) <= 12 ? Number(numeric[1]) : 1;
+  }
+  return Number(year[0]) * 12 + month - 1;
+}
+
+// The months a role spans, up to `now` while it's ongoing; null when its dates can't be read
+function roleMonths(position: Position, now: Date): { start: number; end: number } | null {
+  const start = monthNumber(position.startDate);
+  const ongoing = !position.endDate || ONGOING.test(position.endDate);
+  const end = ongoing ? now.getFullYear() * 12 + now.getMonth() : monthNumber(position.endDate);
+  if (start === null || end === null || end < start) {
+    return null;
+  }
+  return { start, end };
+}
+
+function years(months: number): number {
+  return Math.round((months / 12) * 10) / 10;
+}
+
+function tenureMonths(position: Position, now: Date): number | null {
+  const span = roleMonths(position, now);
+  return span ? span.end - span.start : null;
+}
+
+/**
+ * Years worked across all of a profile's roles, counting months covered by
+ * overlapping roles once. Null when no role has readable dates.
+ */
+function totalYearsOfExperience(profile: Profile, now: Date): number | null {
+  const spans = (profileData(profile).positions || [])
+    .map(position => roleMonths(position, now))
+    .filter((span): span is { start: number; end: number } => span !== null)
+    .sort((a, b) => a.start - b.start);
+  if (spans.length === 0) {
+    return null;
+  }
+
+  let months = 0;
+  let coveredUntil = -Infinity;
+  for (const { start, end } of spans) {
+    months += Math.max(0, end - Math.max(start, coveredUntil));
+    coveredUntil = Math.max(coveredUntil, end);
+  }
+  return years(months);
+}
+
+function text(value: string | null | undefined): string | null {
+  return value ? value : null;
+}
+
+async function* profileItems<T>(profiles: ProfileRecords, items: (profile: Profile) => T[] | undefined): AsyncGenerator<ProfileItem<T>> {
+  for await (const profile of profiles()) {
+    const list = items(profile) || [];
+    for (let index = 0; index < list.length; index++) {
+      yield { profile, item: list[index], order: index + 1 };
+    }
+  }
+}
+
+async function* failedProfiles(profiles: ProfileRecords): AsyncGenerator<Profile> {
+  for await (const profile of profiles()) {
+    if (profile.status === 'failed' || profile.errorMessage) {
+      yield profile;
+    }
+  }
+}
+
+const PROFILE_KEY: ExportColumn<Profile> = { key: 'profileId', header: 'Profile ID', value: profile => profile.id };
+
+function itemKey<T>(): ExportColumn<ProfileItem<T>> {
+  return { key: 'profileId', header: 'Profile ID', value: row => row.profile.id };
+}
+
+function positionColumns(now: Date): ExportColumn<ProfileItem<Position>>[] {
+  return [
+    itemKey(),
+    { key: 'order', header: 'Order', value: row => row.order },
+    { key: 'title', header: 'Title', width: 30, value: row => text(row.item.title) },
+    { key: 'company', header: 'Company', width: 30, value: row => text(row.item.company) },
+    { key: 'startDate', header: 'Start Date', value: row => text(row.item.startDate) },
+    { key: 'endDate', header: 'End Date', value: row => text(row.item.endDate) },
+    { key: 'current', header: 'Current', value: row => !row.item.endDate || ONGOING.test(row.item.endDate) },
+    { key: 'tenureMonths', header: 'Tenure (Months)', value: row => tenureMonths(row.item, now) },
+    {
+      key: 'tenureYears',
+      header: 'Tenure (Years)',
+      value: row => {
+        const months = tenureMonths(row.item, now);
+        return months === null ? null : years(months);
+      },
+    },
+    { key: 'description', header: 'Description', width: 40, value: row => text(row.item.description) },
+  ];
+}
+
+const EDUCATION_COLUMNS: ExportColumn<ProfileItem<Education>>[] = [
+  itemKey(),
+  { key: 'order', header: 'Order', value: row => row.order },
+  { key: 'school', header: 'School', width: 30, value: row => text(row.item.school) },
+  { key: 'degree', header: 'Degree', value: row => text(row.item.degree) },
+  { key: 'fieldOfStudy', header: 'Field of Study', value: row => text(row.item.fieldOfStudy) },
+  { key: 'startDate', header: 'Start Date', value: row => text(row.item.startDate) },
+  { key: 'endDate', header: 'End Date', value: row => text(row.item.endDate) },
+];
+
+const SKILL_COLUMNS: ExportColumn<ProfileItem<string>>[] = [
+  itemKey(),
+  { key: 'order', header: 'Order', value: row => row.order },
+  { key: 'skill', header: 'Skill', width: 30, value: row => text(row.item) },
+];
+
+const ERROR_COLUMNS: ExportColumn<Profile>[] = [
+  PROFILE_KEY,
+  { key: 'linkedinUrl', header: 'LinkedIn URL', width: 40, value: profile => profile.linkedinUrl },
+  { key: 'status', header: 'Status', value: profile => profile.status },
+  { key: 'errorType', header: 'Error Type', value: profile => text(profile.errorType) },
+  { key: 'errorMessage', header: 'Error Message', width: 40, value: profile => text(profile.errorMessage) },
+  { key: 'retryCount', header: 'Retry Count', value: profile => profile.retryCount ?? 0 },
+  { key: 'lastAttempt', header: 'Last Attempt', value: profile => profile.lastAttempt ? profile.lastAttempt.toISOString() : null },
+  { key: 'jobId', header: 'Job ID', value: profile => profile.jobId },
+];
+
+/**
+ * The sheets of a related export: a row per profile with the flat result
+ * columns, and a row per position, school, skill and failed profile, all
+ * joined by the profile's id. Each sheet reads the profiles again, and
+ * tenure runs up to `now` for ongoing roles.
+ */
+export function relatedSheets(profiles: ProfileRecords, now: Date = new Date()): ExportSheet[] {
+  const profileColumns: ExportColumn<Profile>[] = [
+    PROFILE_KEY,
+    ...RESULT_COLUMNS,
+    { key: 'totalYearsOfExperience', header: 'Total Years of Experience', value: profile => totalYearsOfExperience(profile, now) },
+  ];
+
+  return [
+    { name: 'Profiles', key: 'profiles', columns: profileColumns, records: profiles },
+    {
+      name: 'Positions',
+      key: 'positions',
+      columns: positionColumns(now),
+      records: () => profileItems(profiles, profile => profileData(profile).positions),
+    },
+    {
+      name: 'Education',
+      key: 'education',
+      columns: EDUCATION_COLUMNS,
+      records: () => profileItems(profiles, profile => profileData(profile).education),
+    },
+    {
+      name: 'Skills',
+      key: 'skills',
+      columns: SKILL_COLUMNS,
+      records: () => profileItems(profiles, profile => profileData(profile).skills),
+    },
+    { name: 'Errors', key: 'errors', columns: ERROR_COLUMNS, records: () => failedProfiles(profiles) },
+  ];
+}
@@ -0,0 +1,58 @@
+import type { Profile } from '@shared/schema';
+import type { SourceProfile } from '../profile-sources';
+import type { ExportColumn } from './export-formats';
+
+// Older rows hold the profile as a JSON string
+export function profileData(profile: Profile): Partial<SourceProfile> {
+  if (typeof profile.profileData === 'string') {
+    try {
+      return JSON.parse(profile.profileData);
+    } catch {
+      return {};
+    }
+  }
+  return (profile.profileData as Partial<SourceProfile> | null) ?? {};
+}
+
+function text(value: string | null | undefined): string | null {
+  return value ? value : null;
+}
+
+function timestamp(value: Date | null): string | null {
+  return value ? value.toISOString() : null;
+}
+
+/**
+ * The columns of every results download, whatever its format. Other systems
+ * import these files by header and key, so columns are only ever added at
+ * the end: never renamed, reordered or left out when empty.
+ */
+export const RESULT_COLUMNS: ExportColumn<Profile>[] = [
+  { key: 'linkedinUrl', header: 'LinkedIn URL', width: 40, value: profile => profile.linkedinUrl },
+  { key: 'status', header: 'Status', value: profile => profile.status },
+  { key: 'firstName', header: 'First Name', value: profile => text(profileData(profile).firstName) },
+  { key: 'lastName', header: 'Last Name', value: profile => text(profileData(profile).lastName) },
+  { key: 'headline', header: 'Headline', width: 40, value: profile => text(profileData(profile).headline) },
+  { key: 'location', header: 'Location', value: profile => text(profileData(profile).location) },
+  { key: 'industry', header: 'Industry', value: profile => text(profileData(profile).industry) },
+  {
+    key: 'currentPosition',
+    header: 'Current Position',
+    value: profile => text(profileData(profile).currentPosition || profileData(profile).positions?.[0]?.title),
+  },
+  {
+    key: 'currentCompany',
+    header: 'Current Company',
+    value: profile => text(profileData(profile).currentCompany || profileData(profile).positions?.[0]?.company),
+  },
+  { key: 'summary', header: 'Summary', width: 40, value: profile => text(profileData(profile).summary) },
+  { key: 'skills', header: 'Skills', width: 40, value: profile => text(profileData(profile).skills?.join(', ')) },
+  { key: 'school', header: 'School', value: profile => text(profileData(profile).education?.[0]?.school) },
+  { key: 'degree', header: 'Degree', value: profile => text(profileData(profile).education?.[0]?.degree) },
+  { key: 'fieldOfStudy', header: 'Field of Study', value: profile => text(profileData(profile).education?.[0]?.fieldOfStudy) },
+  { key: 'errorType', header: 'Error Type', value: profile => text(profile.errorType) },
+  { key: 'errorMessage', header: 'Error Message', width: 40, value: profile => text(profile.errorMessage) },
+  { key: 'retryCount', header: 'Retry Count', value: profile => profile.retryCount ?? 0 },
+  { key: 'extractedAt', header: 'Extracted At', value: profile => timestamp(profile.extractedAt) },
+  { key: 'jobId', header: 'Job ID', value: profile => profile.jobId },
+];
@@ -0,0 +1,211 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { DelimitedRowReader, decodeTextStream, delimiterFor } from '../input-parsers';
+import {
+  attribute,
+  columnIndex,
+  columnName,
+  readXlsxPackage,
+  rewriteElements,
+  rowCells,
+  streamElements,
+  type XmlElement,
+} from '../input-parsers/xlsx-stream';
+import { inlineStringCell } from './xlsx-writer';
+import { csvField } from './export-formats';
+import { openEntry, ZipWriter } from '../../utils/zip';
+import { ValidationError } from '../../types/errors';
+
+// Columns to append to the rows of an uploaded file
+export interface WriteBack {
+  sheet: string; // as in the job's input mapping
+  headerRow: number | null; // zero-based; the headers are left out without one
+  headers: string[];
+  rows: Map<number, string[]>; // by zero-based row index, as the rows were read
+}
+
+export const WRITE_BACK_EXTENSIONS = ['.xlsx', '.xls', '.ods', '.csv', '.tsv', '.tab'];
+
+/**
+ * Writes a copy of an uploaded file with columns appended after the last
+ * column in use. In .xlsx workbooks only the sheet's XML is rewritten, so its
+ * formatting, formulas and the other sheets come back untouched; .xls and
+ * .ods workbooks go through `xlsx`, which keeps their data and sheets but not
+ * all of their formatting. CSV and TSV files keep their delimiter and are
+ * written as UTF-8.
+ */
+export async function writeBackFile(sourcePath: string, fileName: string, writeBack: WriteBack, outputPath: string): Promise<void> {
+  switch (path.extname(fileName).toLowerCase()) {
+    case '.xlsx':
+      return writeBackXlsx(sourcePath, writeBack, outputPath);
+    case '.xls':
+      return writeBackWorkbook(sourcePath, 'biff8', writeBack, outputPath);
+    case '.ods':
+      return writeBackWorkbook(sourcePath, 'ods', writeBack, outputPath);
+    case '.csv':
+    case '.tsv':
+    case '.tab':
+      return writeBackDelimited(sourcePath, fileName, writeBack, outputPath);
+    default:
+      throw new ValidationError(`only ${WRITE_BACK_EXTENSIONS.join(', ')} uploads can be written back`, 'file');
+  }
+}
+
+// Cells the row gets: the headers on the header row, the row's values elsewhere
+function appendedCells(writeBack: WriteBack, rowIndex: number): string[] | undefined {
+  return rowIndex === writeBack.headerRow ? writeBack.headers : writeBack.rows.get(rowIndex);
+}
+
+function rowIndexOf(row: XmlElement, nextRowIndex: number): number {
+  const rowNumber = Number(attribute(row.attributes, 'r'));
+  return rowNumber > 0 ? rowNumber - 1 : nextRowIndex;
+}
+
+async function writeBackXlsx(sourcePath: string, writeBack: WriteBack, outputPath: string): Promise<void> {
+  const { entries, sheets } = await readXlsxPackage(sourcePath);
+  const sheet = sheets.find(candidate => candidate.name === writeBack.sheet);
+  if (!sheet) {
+    throw new ValidationError(`sheet "${writeBack.sheet}" not found`, 'sheet');
+  }
+
+  // Cells holding only formatting don't count as in use; the appended cells take their place
+  let firstColumn = 0;
+  let headerStyle: string | undefined;
+  let nextRowIndex = 0;
+  for await (const row of streamElements(await openEntry(sourcePath, sheet.entry), 'row')) {
+    const rowIndex = rowIndexOf(row, nextRowIndex);
+    nextRowIndex = rowIndex + 1;
+    const cells = rowCells(row.body).filter(cell => cell.body.trim() !== '');
+    if (cells.length > 0) {
+      firstColumn = Math.max(firstColumn, cells[cells.length - 1].column + 1);
+      if (rowIndex === writeBack.headerRow) {
+        headerStyle = attribute(cells[cells.length - 1].attributes, 's');
+      }
+    }
+  }
+  const lastColumn = firstColumn + writeBack.headers.length - 1;
+
+  nextRowIndex = 0;
+  const rewriteRow = (row: XmlElement): string => {
+    const rowIndex = rowIndexOf(row, nextRowIndex);
+    nextRowIndex = rowIndex + 1;
+    const values = appendedCells(writeBack, rowIndex);
+    if (!values) {
+      return row.xml;
+    }
+
+    const existing = rowCells(row.body);
+    const added = values.flatMap((value, offset) => {
+      const column = firstColumn + offset;
+      const replaced = existing.find(cell => cell.column === column);
+      const cellStyle = replaced ? attribute(replaced.attributes, 's') : undefined;
+      const style = rowIndex === writeBack.headerRow ? headerStyle ?? cellStyle : cellStyle;
+      return value === '' ? [] : [{ column, xml: inlineStringCell(row.prefix, `${columnName(column)}${rowIndex + 1}`, value, style) }];
+    });
+    const addedColumns = new Set(added.map(cell => cell.column));
+    const cells = [...existing.filter(cell => !addedColumns.has(cell.column)), ...added]
+      .sort((a, b) => a.column - b.column)
+      .map(cell => cell.xml)
+      .join('');
+    const rest = row.body.replace(/<(?:\w+:)?c\b[^>]*?(?:\/>|>[\s\S]*?<\/(?:\w+:)?c>)/g, ''); // a row's extLst goes after its cells
+
+    // Spans are only a hint for readers, and would no longer cover the row
+    const attributes = row.attributes.replace(/\sspans="[^"]*"/, '');
+    return `<${row.prefix}row${attributes}>${cells}${rest}</${row.prefix}row>`;
+  };
+
+  // The used range in <dimension> grows by the appended columns
+  let dimensionUpdated = false;
+  const updateDimension = (text: string): string => {
+    if (dimensionUpdated) {
+      return text;
+    }
+    return text.replace(/(<(?:\w+:)?dimension\b[^>]*?\sref=")([A-Z]+)(\d+)(?::([A-Z]+)(\d+))?(")/i, (match, open, startColumn, startRow, endColumn, endRow, close) => {
+      dimensionUpdated = true;
+      const end = Math.max(columnIndex(endColumn || startColumn) ?? 0, lastColumn);
+      return `${open}${startColumn}${startRow}:${columnName(end)}${endRow || startRow}${close}`;
+    });
+  };
+
+  const rewrittenSheet = async function* (): AsyncGenerator<string> {
+    for await (const text of rewriteElements(await openEntry(sourcePath, sheet.entry), 'row', rewriteRow)) {
+      yield updateDimension(text);
+    }
+  };
+
+  const output = fs.createWriteStream(outputPath);
+  try {
+    const zip = new ZipWriter(output);
+    for (const entry of Array.from(entries.values())) {
+      if (entry === sheet.entry) {
+        await zip.addEntry(entry.name, rewrittenSheet());
+      } else {
+        await zip.copyEntry(sourcePath, entry);
+      }
+    }
+    await zip.finish();
+  } catch (error) {
+    output.destroy();
+    throw error;
+  }
+}
+
+async function writeBackWorkbook(sourcePath: string, bookType: 'biff8' | 'ods', writeBack: WriteBack, outputPath: string): Promise<void> {
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.default.read(await fs.promises.readFile(sourcePath), { type: 'buffer', cellStyles: true });
+  const worksheet = workbook.Sheets[writeBack.sheet];
+  if (!worksheet) {
+    throw new ValidationError(`sheet "${writeBack.sheet}" not found`, 'sheet');
+  }
+
+  const firstColumn = worksheet['!ref'] ? XLSX.default.utils.decode_range(worksheet['!ref']).e.c + 1 : 0;
+  const rows = Array.from(writeBack.rows.entries());
+  if (writeBack.headerRow !== null) {
+    rows.push([writeBack.headerRow, writeBack.headers]);
+  }
+  for (const [rowIndex, values] of rows) {
+    const cells = values.map(value => value === '' ? null : value);
+    XLSX.default.utils.sheet_add_aoa(worksheet, [cells], { origin: { r: rowIndex, c: firstColumn } });
+  }
+
+  await fs.promises.writeFile(outputPath, XLSX.default.write(workbook, { type: 'buffer', bookType }));
+}
+
+// Records of a CSV or TSV file, with the delimiter sniffed from its first chunk
+async function* delimitedRecords(sourcePath: string, fileName: string): AsyncGenerator<{ delimiter: string; cells: string[] }> {
+  let reader: DelimitedRowReader | null = null;
+  let delimiter = ',';
+  for await (const text of decodeTextStream(sourcePath)) {
+    if (!reader) {
+      delimiter = delimiterFor(fileName, text);
+      reader = new DelimitedRowReader(delimiter);
+    }
+    for (const cells of reader.push(text)) {
+      yield { delimiter, cells };
+    }
+  }
+  for (const cells of reader?.end() || []) {
+    yield { delimiter, cells };
+  }
+}
+
+async function writeBackDelimited(sourcePath: string, fileName: string, writeBack: WriteBack, outputPath: string): Promise<void> {
+  let width = 0;
+  for await (const { cells } of delimitedRecords(sourcePath, fileName)) {
+    width = Math.max(width, cells.length);
+  }
+
+  const lines = async function* (): AsyncGenerator<string> {
+    yield '\ufeff'; // lets Excel tell the file is UTF-8
+    let rowIndex = 0;
+    for await (const { delimiter, cells } of delimitedRecords(sourcePath, fileName)) {
+      const values = appendedCells(writeBack, rowIndex++);
+      const fields = values ? [...cells, ...new Array(width - cells.length).fill(''), ...values] : cells;
+      yield fields.map(field => csvField(field, delimiter)).join(delimiter) + '\r\n';
+    }
+  };
+
+  await pipeline(Readable.from(lines()), fs.createWriteStream(outputPath));
+}
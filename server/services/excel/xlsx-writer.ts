@@ -0,0 +1,138 @@
+import type { Writable } from 'stream';
+import { ZipWriter } from '../../utils/zip';
+import { columnName } from '../input-parsers/xlsx-stream';
+
+export type CellValue = string | number | boolean | null;
+
+export interface SheetColumn {
+  header: string;
+  width?: number; // in characters; at least the header's length
+}
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NAMESPACE = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIPS_NAMESPACE = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml';
+
+const MIN_COLUMN_WIDTH = 15;
+const MAX_SHEET_NAME_LENGTH = 31;
+const HEADER_STYLE = '1'; // the bold cell format in STYLES
+
+const STYLES = `${XML_DECLARATION}<styleSheet xmlns="${MAIN_NAMESPACE}">` +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>';
+
+// Excel reads `_xHHHH_` in text as an escape, so a literal one has its underscore escaped
+export function escapeXml(text: string): string {
+  return text
+    .replace(/_(x[0-9a-f]{4}_)/gi, '_x005F_$1')
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function inlineStringCell(prefix: string, reference: string, value: string, style?: string): string {
+  const styleAttribute = style ? ` s="${style}"` : '';
+  return `<${prefix}c r="${reference}"${styleAttribute} t="inlineStr">` +
+    `<${prefix}is><${prefix}t xml:space="preserve">${escapeXml(value)}</${prefix}t></${prefix}is></${prefix}c>`;
+}
+
+function cellXml(reference: string, value: CellValue, style?: string): string {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${reference}"${style ? ` s="${style}"` : ''}><v>${value}</v></c>` : '';
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${reference}"${style ? ` s="${style}"` : ''} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return value ? inlineStringCell('', reference, value, style) : '';
+}
+
+function rowXml(rowIndex: number, values: CellValue[], style?: string): string {
+  const cells = values.map((value, column) => cellXml(`${columnName(column)}${rowIndex + 1}`, value, style)).join('');
+  return `<row r="${rowIndex + 1}">${cells}</row>`;
+}
+
+// Sheet names can't hold []:*?/\, are at most 31 characters and unique regardless of case
+function sheetName(name: string, taken: string[]): string {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, MAX_SHEET_NAME_LENGTH) || 'Sheet';
+  let candidate = base;
+  for (let n = 2; taken.some(other => other.toLowerCase() === candidate.toLowerCase()); n++) {
+    candidate = `${base.slice(0, MAX_SHEET_NAME_LENGTH - String(n).length - 1)} ${n}`;
+  }
+  return candidate;
+}
+
+/**
+ * Writes an .xlsx workbook to a stream a row at a time, so exports of any
+ * size never sit in memory. Strings are written inline rather than shared,
+ * which makes the file somewhat larger but needs no second pass over the
+ * rows. Each sheet's header row is bold and frozen.
+ */
+export class XlsxStreamWriter {
+  private zip: ZipWriter;
+  private sheets: string[] = [];
+
+  constructor(output: Writable) {
+    this.zip = new ZipWriter(output);
+  }
+
+  async addSheet(name: string, columns: SheetColumn[], rows: AsyncIterable<CellValue[]>): Promise<void> {
+    this.sheets.push(sheetName(name, this.sheets));
+
+    const content = async function* (): AsyncGenerator<string> {
+      const widths = columns.map((column, index) => {
+        const width = Math.max(column.width ?? MIN_COLUMN_WIDTH, column.header.length);
+        return `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`;
+      });
+      yield `${XML_DECLARATION}<worksheet xmlns="${MAIN_NAMESPACE}" xmlns:r="${RELATIONSHIPS_NAMESPACE}">` +
+        '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+        `<sheetFormatPr defaultRowHeight="15"/>${widths.length > 0 ? `<cols>${widths.join('')}</cols>` : ''}<sheetData>` +
+        rowXml(0, columns.map(column => column.header), HEADER_STYLE);
+
+      let rowIndex = 1;
+      for await (const values of rows) {
+        yield rowXml(rowIndex++, values);
+      }
+      yield '</sheetData></worksheet>';
+    };
+
+    await this.zip.addEntry(`xl/worksheets/sheet${this.sheets.length}.xml`, content());
+  }
+
+  // Writes the parts that list the sheets, and ends the stream
+  async finish(): Promise<void> {
+    const sheets = this.sheets.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`);
+    const sheetRelationships = this.sheets.map((_, index) =>
+      `<Relationship Id="rId${index + 1}" Type="${RELATIONSHIPS_NAMESPACE}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`);
+    const stylesId = `rId${this.sheets.length + 1}`;
+    const sheetOverrides = this.sheets.map((_, index) =>
+      `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="${CONTENT_TYPE}.worksheet+xml"/>`);
+
+    await this.zip.addEntry('xl/workbook.xml',
+      `${XML_DECLARATION}<workbook xmlns="${MAIN_NAMESPACE}" xmlns:r="${RELATIONSHIPS_NAMESPACE}"><sheets>${sheets.join('')}</sheets></workbook>`);
+    await this.zip.addEntry('xl/_rels/workbook.xml.rels',
+      `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NAMESPACE}">${sheetRelationships.join('')}` +
+      `<Relationship Id="${stylesId}" Type="${RELATIONSHIPS_NAMESPACE}/styles" Target="styles.xml"/></Relationships>`);
+    await this.zip.addEntry('xl/styles.xml', STYLES);
+    await this.zip.addEntry('_rels/.rels',
+      `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NAMESPACE}">` +
+      `<Relationship Id="rId1" Type="${RELATIONSHIPS_NAMESPACE}/officeDocument" Target="xl/workbook.xml"/></Relationships>`);
+    await this.zip.addEntry('[Content_Types].xml',
+      `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      `<Override PartName="/xl/workbook.xml" ContentType="${CONTENT_TYPE}.sheet.main+xml"/>` +
+      `${sheetOverrides.join('')}<Override PartName="/xl/styles.xml" ContentType="${CONTENT_TYPE}.styles+xml"/></Types>`);
+
+    await this.zip.finish();
+  }
+}
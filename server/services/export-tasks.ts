@@ -0,0 +1,197 @@
+import { PassThrough } from 'stream';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import type { ExportTask, ExportTaskOptions } from '@shared/schema';
+import type { IStorage } from '../storage';
+import type { ExcelExporter, ExportType } from './excel/exporter';
+import { exportFileType } from './excel/export-formats';
+import type { JobEventBus } from './job-events';
+import type { BlobStore } from './blob-store';
+import { CONFIG } from '../config/constants';
+import { logger } from '../utils/logger';
+
+// Why a download link was turned down
+export type DownloadRefusal = 'invalid' | 'expired' | 'not_ready';
+
+/**
+ * Runs exports in the background and keeps their files in the blob store
+ * under the artifacts prefix until they expire. Progress and completion are
+ * published to the owner's event stream and recorded on the task, so a
+ * client connected to another server can poll for them. Files are
+ * downloaded through signed links that need no session and stop working
+ * after a few minutes.
+ */
+export class ExportTasks {
+  constructor(
+    private storage: IStorage,
+    private exporter: ExcelExporter,
+    private events: JobEventBus,
+    private blobs: BlobStore
+  ) {}
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  async start(): Promise<void> {
+    if (!this.sweepTimer) {
+      this.sweepTimer = setInterval(() => this.sweep(), CONFIG.EXPORT.SWEEP_INTERVAL);
+      this.sweepTimer.unref();
+    }
+
+    await this.sweep();
+  }
+
+  /**
+   * Records the task and starts writing its file without waiting for it.
+   * The options must already have their template and saved search looked up.
+   */
+  async createTask(userId: number, type: ExportType, options: ExportTaskOptions): Promise<ExportTask> {
+    const { extension } = exportFileType(options.format, options.layout);
+    const date = new Date().toISOString().split('T')[0];
+    const task = await this.storage.createExportTask({
+      id: randomUUID(),
+      userId,
+      type,
+      options,
+      fileName: `linkedin_data_${type}_${date}${options.layout === 'related' ? '_related' : ''}.${extension}`,
+      expiresAt: new Date(Date.now() + CONFIG.EXPORT.ARTIFACT_TTL),
+    });
+
+    this.runTask(task, type, options).catch(error => {
+      logger.error(`Export ${task.id} failed`, error);
+    });
+    return task;
+  }
+
+  /**
+   * A link to the task's file, valid until the link lifetime runs out or
+   * the file expires, whichever comes first.
+   */
+  downloadUrl(task: ExportTask): string {
+    const expires = Math.min(Date.now() + CONFIG.EXPORT.LINK_TTL, task.expiresAt.getTime());
+    return `/api/exports/${task.id}/download?expires=${expires}&signature=${this.signature(task.id, expires)}`;
+  }
+
+  /**
+   * The task a download link points to, or why the link can't be used.
+   */
+  async verifyDownload(id: string, expires: string, signature: string): Promise<ExportTask | DownloadRefusal> {
+    const expected = Buffer.from(this.signature(id, Number(expires)), 'hex');
+    const given = Buffer.from(signature, 'hex');
+    if (!/^\d+$/.test(expires) || given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      return 'invalid';
+    }
+    if (Number(expires) <= Date.now()) {
+      return 'expired';
+    }
+
+    const task = await this.storage.getExportTask(id);
+    if (!task || task.expiresAt <= new Date()) {
+      return 'expired';
+    }
+    if (task.status !== 'ready' || !task.artifactPath) {
+      return 'not_ready';
+    }
+    return task;
+  }
+
+  private signature(id: string, expires: number): string {
+    return createHmac('sha256', CONFIG.EXPORT.LINK_SECRET).update(`${id}.${expires}`).digest('hex');
+  }
+
+  // The blob store only shows the file once all of it is stored, so a link never serves half a file
+  private async runTask(task: ExportTask, type: ExportType, options: ExportTaskOptions): Promise<void> {
+    let progress = 0;
+    const onProgress = (percent: number) => {
+      if (percent <= progress) {
+        return;
+      }
+      progress = percent;
+      this.storage.updateRunningExportTask(task.id, { progress }).catch(error => {
+        logger.warn(`Failed to record progress of export ${task.id}`, error);
+      });
+      this.events.publish(task.userId, { type: 'export.progress', taskId: task.id, progress });
+    };
+
+    try {
+      const { filter, ...exportOptions } = options;
+      const { contentType } = exportFileType(options.format, options.layout);
+      const body = new PassThrough();
+      const [artifact] = await Promise.all([
+        this.blobs.put(this.artifactKey(task), body, contentType),
+        this.exporter.exportResults(task.userId, type, body, { ...exportOptions, onProgress }, filter).catch(error => {
+          body.destroy(error);
+          throw error;
+        }),
+      ]);
+
+      const completedAt = new Date();
+      const expiresAt = new Date(completedAt.getTime() + CONFIG.EXPORT.ARTIFACT_TTL);
+      const finished = await this.storage.updateRunningExportTask(task.id, {
+        status: 'ready',
+        progress: 100,
+        artifactPath: artifact.key,
+        fileSize: artifact.size,
+        completedAt,
+        expiresAt,
+      });
+      if (!finished) {
+        // Marked failed or removed by a sweep while it was being written
+        await this.blobs.delete(artifact.key);
+        return;
+      }
+
+      this.events.publish(task.userId, {
+        type: 'export.ready',
+        taskId: task.id,
+        fileName: task.fileName,
+        downloadUrl: this.downloadUrl({ ...task, expiresAt }),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (await this.storage.updateRunningExportTask(task.id, { status: 'failed', error: message, completedAt: new Date() })) {
+        this.events.publish(task.userId, { type: 'export.failed', taskId: task.id, error: message });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Removes expired tasks with their files, and fails tasks whose server
+   * stopped writing them: a running task makes progress at least once a page.
+   */
+  private async sweep(): Promise<void> {
+    try {
+      for (const task of await this.storage.getExpiredExportTasks(new Date())) {
+        if (await this.storage.deleteExportTask(task.id)) {
+          await this.removeArtifact(task);
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to remove expired exports', error);
+    }
+
+    try {
+      for (const task of await this.storage.getStaleExportTasks(new Date(Date.now() - CONFIG.EXPORT.STALE_AFTER))) {
+        const error = 'The export stopped before it finished';
+        if (await this.storage.updateRunningExportTask(task.id, { status: 'failed', error, completedAt: new Date() })) {
+          await this.removeArtifact(task);
+          this.events.publish(task.userId, { type: 'export.failed', taskId: task.id, error });
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to fail stalled exports', error);
+    }
+  }
+
+  // The task's id names its file, whatever its stored key says
+  private artifactKey(task: ExportTask): string {
+    const { format, layout } = task.options as ExportTaskOptions;
+    return `${CONFIG.EXPORT.ARTIFACT_DIRECTORY}${task.id}.${exportFileType(format, layout).extension}`;
+  }
+
+  private async removeArtifact(task: ExportTask): Promise<void> {
+    try {
+      await this.blobs.delete(this.artifactKey(task));
+    } catch (error) {
+      logger.warn(`Failed to remove the file of export ${task.id}`, error);
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import type { Job } from '@shared/schema';
+
+export type SchedulingPolicy = 'round_robin' | 'weighted_fair';
+
+interface FairSchedulerOptions {
+  policy: SchedulingPolicy;
+  maxJobsPerUser: number;
+}
+
+/**
+ * Chooses which queued job a free worker slot should claim next so that a
+ * single user's large uploads cannot starve everyone else.
+ *
+ * - round_robin: users take turns, the least recently served user goes first.
+ * - weighted_fair: users are ranked by running jobs divided by the priority
+ *   weight of their best queued job, so higher priority work gets a larger share.
+ *
+ * Within a user, jobs run by priority and then by queue time.
+ */
+export class FairScheduler {
+  private lastServedAt: Map<number, number> = new Map();
+  private serveCounter: number = 0;
+
+  constructor(private options: FairSchedulerOptions) {}
+
+  pick(candidates: Job[], running: Job[]): Job | null {
+    const runningByUser = new Map<number, number>();
+    running.forEach(job => {
+      runningByUser.set(job.userId, (runningByUser.get(job.userId) || 0) + 1);
+    });
+
+    // Best queued job for each user that still has a free slot
+    const headByUser = new Map<number, Job>();
+    for (const job of candidates) {
+      if ((runningByUser.get(job.userId) || 0) >= this.options.maxJobsPerUser) {
+        continue;
+      }
+
+      const head = headByUser.get(job.userId);
+      if (!head || this.compareWithinUser(job, head) < 0) {
+        headByUser.set(job.userId, job);
+      }
+    }
+
+    const heads = Array.from(headByUser.values());
+    if (heads.length === 0) {
+      return null;
+    }
+
+    heads.sort((a, b) => {
+      if (this.options.policy === 'weighted_fair') {
+        const shareA = ((runningByUser.get(a.userId) || 0) + 1) / this.weight(a);
+        const shareB = ((runningByUser.get(b.userId) || 0) + 1) / this.weight(b);
+        if (shareA !== shareB) {
+          return shareA - shareB;
+        }
+      }
+
+      const servedA = this.lastServedAt.get(a.userId) ?? -1;
+      const servedB = this.lastServedAt.get(b.userId) ?? -1;
+      if (servedA !== servedB) {
+        return servedA - servedB;
+      }
+
+      return this.compareWithinUser(a, b);
+    });
+
+    return heads[0];
+  }
+
+  markServed(userId: number): void {
+    this.lastServedAt.set(userId, this.serveCounter++);
+  }
+
+  private weight(job: Job): number {
+    return 1 + Math.max(job.priority || 0, 0);
+  }
+
+  private compareWithinUser(a: Job, b: Job): number {
+    const priorityDiff = (b.priority || 0) - (a.priority || 0);
+    if (priorityDiff !== 0) {
+      return priorityDiff;
+    }
+    return (a.queuedAt?.getTime() || 0) - (b.queuedAt?.getTime() || 0);
+  }
+}
@@ -0,0 +1,73 @@
+import fs from 'fs';
+
+const STREAM_CHUNK_SIZE = 256 * 1024;
+
+function byteOrderMarkEncoding(content: Buffer): string | null {
+  if (content[0] === 0xef && content[1] === 0xbb && content[2] === 0xbf) {
+    return 'utf-8';
+  }
+  if (content[0] === 0xff && content[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  if (content[0] === 0xfe && content[1] === 0xff) {
+    return 'utf-16be';
+  }
+  return null;
+}
+
+/**
+ * Decodes uploaded text. A byte order mark decides the encoding when there is
+ * one; otherwise the content is read as UTF-8 if it is valid UTF-8, and as
+ * Windows-1252 (what Excel writes for "CSV" on Windows) if it is not.
+ */
+export function decodeText(content: Buffer): string {
+  const encoding = byteOrderMarkEncoding(content);
+  if (encoding) {
+    return new TextDecoder(encoding).decode(content.subarray(encoding === 'utf-8' ? 3 : 2));
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(content);
+  } catch {
+    return new TextDecoder('windows-1252').decode(content);
+  }
+}
+
+/**
+ * Decodes a file chunk by chunk, picking the encoding like `decodeText` but
+ * from the first chunk only. The decoder drops the byte order mark itself.
+ */
+export async function* decodeTextStream(filePath: string): AsyncGenerator<string> {
+  let decoder: TextDecoder | null = null;
+
+  for await (const chunk of fs.createReadStream(filePath, { highWaterMark: STREAM_CHUNK_SIZE })) {
+    if (!decoder) {
+      let encoding = byteOrderMarkEncoding(chunk);
+      if (!encoding) {
+        try {
+          new TextDecoder('utf-8', { fatal: true }).decode(chunk, { stream: true }); // a cut-off last character is fine
+          encoding = 'utf-8';
+        } catch {
+          encoding = 'windows-1252';
+        }
+      }
+      decoder = new TextDecoder(encoding);
+    }
+    yield decoder.decode(chunk, { stream: true });
+  }
+
+  if (decoder) {
+    yield decoder.decode();
+  }
+}
+
+// Lines of a decoded stream, without their line breaks
+export async function* readLines(chunks: AsyncIterable<string>): AsyncGenerator<string> {
+  let pending = '';
+  for await (const chunk of chunks) {
+    const lines = (pending + chunk).split(/\r?\n/);
+    pending = lines.pop()!;
+    yield* lines;
+  }
+  yield pending;
+}
@@ -0,0 +1,187 @@
+import path from 'path';
+import type { LinkedInUrl } from '@shared/schema';
+import type { IndexedRow, InputParser, InputTable, StreamedTable } from './types';
+import { decodeText, decodeTextStream } from './decode';
+import { readTables } from './mapping';
+
+const CANDIDATE_DELIMITERS = [',', '\t', ';', '|'];
+const SNIFF_LINES = 20;
+
+/**
+ * Picks the delimiter that splits the first lines into the same number of
+ * fields most consistently, preferring the one that produces more fields.
+ * Delimiters inside quoted fields are not counted.
+ */
+export function sniffDelimiter(text: string): string {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, SNIFF_LINES);
+  let best = { delimiter: ',', score: 0 };
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const counts = lines.map(line => countOutsideQuotes(line, delimiter));
+    const frequency = new Map<number, number>();
+    for (const count of counts) {
+      if (count > 0) {
+        frequency.set(count, (frequency.get(count) || 0) + 1);
+      }
+    }
+
+    for (const [fields, lineCount] of Array.from(frequency.entries())) {
+      const score = lineCount * 100 + fields;
+      if (score > best.score) {
+        best = { delimiter, score };
+      }
+    }
+  }
+
+  return best.delimiter;
+}
+
+// Tab for `.tsv` and `.tab` files; sniffed from the text otherwise
+export function delimiterFor(fileName: string | undefined, text: string): string {
+  const extension = path.extname(fileName || '').toLowerCase();
+  return extension === '.tsv' || extension === '.tab' ? '\t' : sniffDelimiter(text);
+}
+
+/**
+ * RFC 4180 style parser: quoted fields may contain delimiters, doubled quotes
+ * and line breaks.
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const reader = new DelimitedRowReader(delimiter);
+  return [...reader.push(text), ...reader.end()];
+}
+
+/**
+ * The same parser fed a chunk of text at a time. A quote or line break at
+ * the end of a chunk is settled by the first character of the next one.
+ */
+export class DelimitedRowReader {
+  private row: string[] = [];
+  private field = '';
+  private inQuotes = false;
+  private quoteInQuotes = false; // a quote inside a quoted field: closing, or the first of a doubled pair
+  private afterCarriageReturn = false;
+
+  constructor(private delimiter: string) {}
+
+  // Rows completed by this chunk
+  push(text: string): string[][] {
+    const rows: string[][] = [];
+
+    for (const char of text) {
+      if (this.afterCarriageReturn) {
+        this.afterCarriageReturn = false;
+        if (char === '\n') {
+          continue;
+        }
+      }
+
+      if (this.quoteInQuotes) {
+        this.quoteInQuotes = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.inQuotes = false;
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.quoteInQuotes = true;
+        } else {
+          this.field += char;
+        }
+      } else if (char === '"' && this.field === '') {
+        this.inQuotes = true;
+      } else if (char === this.delimiter) {
+        this.row.push(this.field);
+        this.field = '';
+      } else if (char === '\n' || char === '\r') {
+        this.afterCarriageReturn = char === '\r';
+        this.row.push(this.field);
+        rows.push(this.row);
+        this.row = [];
+        this.field = '';
+      } else {
+        this.field += char;
+      }
+    }
+
+    return rows;
+  }
+
+  // The last row, when the text doesn't end with a line break
+  end(): string[][] {
+    const rows: string[][] = [];
+    if (this.field !== '' || this.row.length > 0) {
+      this.row.push(this.field);
+      rows.push(this.row);
+    }
+    this.row = [];
+    this.field = '';
+    this.inQuotes = false;
+    this.quoteInQuotes = false;
+    return rows;
+  }
+}
+
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === delimiter && !inQuotes) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * CSV and TSV files. The encoding and, except for `.tsv` files, the
+ * delimiter are sniffed, so semicolon separated exports from European Excel
+ * installs and Latin-1 files from older ATS exports parse too.
+ */
+export class DelimitedInputParser implements InputParser {
+  readonly format = 'delimited' as const;
+  readonly label = 'CSV / TSV';
+  readonly extensions = ['.csv', '.tsv', '.tab'];
+  readonly contentTypes = ['text/csv', 'application/csv', 'text/tab-separated-values'];
+
+  async parse(content: Buffer, fileName?: string): Promise<LinkedInUrl[]> {
+    return readTables(await this.readTables(content, fileName)).urls;
+  }
+
+  async readTables(content: Buffer, fileName?: string): Promise<InputTable[]> {
+    const text = decodeText(content);
+    const extension = path.extname(fileName || '').toLowerCase();
+
+    return [{
+      name: path.basename(fileName || 'data', extension),
+      rows: parseDelimited(text, delimiterFor(fileName, text)),
+    }];
+  }
+
+  // The delimiter is sniffed from the first chunk of the file
+  async openTables(filePath: string, fileName?: string): Promise<StreamedTable[]> {
+    const extension = path.extname(fileName || '').toLowerCase();
+
+    return [{
+      name: path.basename(fileName || 'data', extension),
+      rows: async function* (): AsyncGenerator<IndexedRow> {
+        let reader: DelimitedRowReader | null = null;
+        let rowIndex = 0;
+        for await (const text of decodeTextStream(filePath)) {
+          reader = reader || new DelimitedRowReader(delimiterFor(fileName, text));
+          for (const cells of reader.push(text)) {
+            yield { rowIndex: rowIndex++, cells };
+          }
+        }
+        for (const cells of reader?.end() || []) {
+          yield { rowIndex: rowIndex++, cells };
+        }
+      },
+    }];
+  }
+}
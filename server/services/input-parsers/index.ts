@@ -0,0 +1,195 @@
+import fs from 'fs';
+import path from 'path';
+import type { LinkedInUrl } from '@shared/schema';
+import type { InputDescriptor, InputFormat, InputParser } from './types';
+import type { BlobStore } from '../blob-store';
+import {
+  inspectTable,
+  readTables,
+  streamTables,
+  streamedTable,
+  type ParsedChunk,
+  type TableReadResult,
+  type TableStream,
+  type SheetInspection,
+  type TableSelection,
+} from './mapping';
+import { ValidationError } from '../../types/errors';
+
+export type { InputDescriptor, InputFormat, InputParser, InputTable, IndexedRow, StreamedTable } from './types';
+export type { ColumnInfo, ParsedChunk, RejectedRow, SheetInspection, TableSelection } from './mapping';
+export { SpreadsheetInputParser } from './spreadsheet-parser';
+export { DelimitedInputParser, DelimitedRowReader, delimiterFor, parseDelimited, sniffDelimiter } from './delimited-parser';
+export { JsonInputParser, NdjsonInputParser } from './json-parser';
+export { TextInputParser } from './text-parser';
+export { urlsFromRows, urlsFromRecord, LINKEDIN_URL_PATTERN } from './rows';
+export { decodeText, decodeTextStream, readLines } from './decode';
+export { detectHeaderRow, inspectTable, suggestMapping, applyMapping, streamTables, streamedTable } from './mapping';
+export { openXlsxSheets } from './xlsx-stream';
+
+// For formats without columns, nothing is rejected and there are no columns or mapping
+export type ParsedInput = TableReadResult & { format: InputFormat };
+
+// A file being read in chunks, with its sheet and mapping already settled
+export type InputStream = TableStream & { format: InputFormat };
+
+export interface InputInspection {
+  format: InputFormat;
+  sheets: SheetInspection[]; // empty for formats without columns
+}
+
+async function* chunkUrls(urls: AsyncIterable<LinkedInUrl>, chunkSize: number): AsyncGenerator<ParsedChunk> {
+  let chunk: LinkedInUrl[] = [];
+  let rowsRead = 0;
+  for await (const url of urls) {
+    rowsRead = url.rowIndex + 1;
+    chunk.push(url);
+    if (chunk.length >= chunkSize) {
+      yield { urls: chunk, rejected: [], rowsRead };
+      chunk = [];
+    }
+  }
+  yield { urls: chunk, rejected: [], rowsRead };
+}
+
+/**
+ * Picks the parser for an upload by file extension, falling back to its
+ * content type. The extension wins because browsers report CSV files as
+ * `application/vnd.ms-excel` on Windows.
+ */
+export class InputParserRegistry {
+  private parsers: Map<InputFormat, InputParser> = new Map();
+
+  register(parser: InputParser): void {
+    this.parsers.set(parser.format, parser);
+  }
+
+  get(format: InputFormat): InputParser {
+    const parser = this.parsers.get(format);
+    if (!parser) {
+      throw new Error(`Unknown input format: ${format}`);
+    }
+    return parser;
+  }
+
+  resolve(input: InputDescriptor): InputParser | undefined {
+    const parsers = this.list();
+    const extension = path.extname(input.fileName || '').toLowerCase();
+    if (extension) {
+      const byExtension = parsers.find(parser => parser.extensions.includes(extension));
+      if (byExtension) {
+        return byExtension;
+      }
+    }
+
+    const contentType = input.contentType?.split(';')[0].trim().toLowerCase();
+    return contentType ? parsers.find(parser => parser.contentTypes.includes(contentType)) : undefined;
+  }
+
+  /**
+   * Reads LinkedIn URLs. Tabular formats go through the column mapping: the
+   * selected sheet and mapping when given, detected ones otherwise.
+   */
+  async parse(content: Buffer, input: InputDescriptor, selection: TableSelection = {}): Promise<ParsedInput> {
+    const parser = this.require(input);
+    if (!parser.readTables) {
+      const urls = await parser.parse(content, input.fileName);
+      return { format: parser.format, urls, rejected: [], mapping: null, columns: [] };
+    }
+    return { format: parser.format, ...readTables(await parser.readTables(content, input.fileName), selection) };
+  }
+
+  async parseFile(filePath: string, input: InputDescriptor, selection: TableSelection = {}): Promise<ParsedInput> {
+    return this.parse(await fs.promises.readFile(filePath), input, selection);
+  }
+
+  /**
+   * `parseFile` for large files. The sheet and mapping are settled from the
+   * first rows, so mapping errors come up here; the rest of the file is read
+   * as the chunks are iterated. Formats without a streaming reader are read
+   * whole and handed out in chunks.
+   */
+  async stream(filePath: string, input: InputDescriptor, selection: TableSelection = {}): Promise<InputStream> {
+    const parser = this.require(input);
+    if (parser.openTables) {
+      return { format: parser.format, ...await streamTables(await parser.openTables(filePath, input.fileName), selection) };
+    }
+    if (parser.readTables) {
+      const tables = await parser.readTables(await fs.promises.readFile(filePath), input.fileName);
+      return { format: parser.format, ...await streamTables(tables.map(streamedTable), selection) };
+    }
+
+    const urls = parser.streamUrls ?
+      () => parser.streamUrls!(filePath) :
+      async function* () {
+        yield* await parser.parse(await fs.promises.readFile(filePath), input.fileName);
+      };
+    return {
+      format: parser.format,
+      mapping: null,
+      columns: [],
+      chunks: chunkSize => chunkUrls(urls(), chunkSize),
+      close: async () => {},
+    };
+  }
+
+  /**
+   * `stream` for an upload kept in a blob store. A store that has no local
+   * file downloads a copy, removed once the stream is read to the end or
+   * closed.
+   */
+  async streamBlob(blobs: BlobStore, key: string, input: InputDescriptor, selection: TableSelection = {}): Promise<InputStream> {
+    const file = await blobs.localFile(key);
+    let stream: InputStream;
+    try {
+      stream = await this.stream(file.path, input, selection);
+    } catch (error) {
+      await file.release();
+      throw error;
+    }
+
+    return {
+      ...stream,
+      chunks: async function* (chunkSize: number) {
+        try {
+          yield* stream.chunks(chunkSize);
+        } finally {
+          await file.release();
+        }
+      },
+      close: async () => {
+        try {
+          await stream.close();
+        } finally {
+          await file.release();
+        }
+      },
+    };
+  }
+
+  // Sheets, detected header rows, columns and suggested mappings for the mapping step
+  async inspect(content: Buffer, input: InputDescriptor): Promise<InputInspection> {
+    const parser = this.require(input);
+    const tables = parser.readTables ? await parser.readTables(content, input.fileName) : [];
+    return {
+      format: parser.format,
+      sheets: tables.map(table => inspectTable(table)),
+    };
+  }
+
+  supportedExtensions(): string[] {
+    return this.list().flatMap(parser => parser.extensions);
+  }
+
+  list(): InputParser[] {
+    return Array.from(this.parsers.values());
+  }
+
+  private require(input: InputDescriptor): InputParser {
+    const parser = this.resolve(input);
+    if (!parser) {
+      throw new ValidationError(`unsupported format; use one of ${this.supportedExtensions().join(', ')}`, 'file');
+    }
+    return parser;
+  }
+}
@@ -0,0 +1,73 @@
+import type { LinkedInUrl } from '@shared/schema';
+import type { InputParser } from './types';
+import { decodeText, decodeTextStream, readLines } from './decode';
+import { urlsFromRecord } from './rows';
+import { ValidationError } from '../../types/errors';
+
+function urlsFromLine(line: string, index: number): LinkedInUrl[] {
+  if (line.trim() === '') {
+    return [];
+  }
+
+  let record: unknown;
+  try {
+    record = JSON.parse(line);
+  } catch {
+    throw new ValidationError(`line ${index + 1} is not valid JSON`, 'ndjson');
+  }
+  return urlsFromRecord(record, index);
+}
+
+/**
+ * A JSON array of URLs, rows or objects. An object whose only array property
+ * holds the records (e.g. `{ "candidates": [...] }`) is accepted too.
+ */
+export class JsonInputParser implements InputParser {
+  readonly format = 'json' as const;
+  readonly label = 'JSON';
+  readonly extensions = ['.json'];
+  readonly contentTypes = ['application/json', 'text/json'];
+
+  async parse(content: Buffer): Promise<LinkedInUrl[]> {
+    let data: unknown;
+    try {
+      data = JSON.parse(decodeText(content));
+    } catch (error) {
+      throw new ValidationError(error instanceof Error ? error.message : 'invalid JSON', 'json');
+    }
+
+    if (!Array.isArray(data) && data && typeof data === 'object') {
+      const arrays = Object.values(data).filter(Array.isArray);
+      if (arrays.length === 1) {
+        data = arrays[0];
+      }
+    }
+    if (!Array.isArray(data)) {
+      throw new ValidationError('expected an array of records', 'json');
+    }
+
+    return data.flatMap((record, index) => urlsFromRecord(record, index));
+  }
+}
+
+/**
+ * Newline-delimited JSON, one record per line. Blank lines are skipped and a
+ * malformed line is reported with its line number.
+ */
+export class NdjsonInputParser implements InputParser {
+  readonly format = 'ndjson' as const;
+  readonly label = 'NDJSON';
+  readonly extensions = ['.ndjson', '.jsonl'];
+  readonly contentTypes = ['application/x-ndjson', 'application/ndjson', 'application/jsonl', 'application/x-jsonlines'];
+
+  async parse(content: Buffer): Promise<LinkedInUrl[]> {
+    return decodeText(content).split(/\r?\n/).flatMap(urlsFromLine);
+  }
+
+  async *streamUrls(filePath: string): AsyncGenerator<LinkedInUrl> {
+    let index = 0;
+    for await (const line of readLines(decodeTextStream(filePath))) {
+      yield* urlsFromLine(line, index++);
+    }
+  }
+}
@@ -0,0 +1,393 @@
+import type { ColumnMapping, ColumnReference, InputMapping, LinkedInUrl } from '@shared/schema';
+import type { IndexedRow, InputTable, StreamedTable } from './types';
+import { LINKEDIN_URL_PATTERN } from './rows';
+import { ValidationError } from '../../types/errors';
+
+const HEADER_SEARCH_ROWS = 10;
+const SAMPLE_ROWS = 200; // rows looked at when guessing the URL column
+
+// Header names recognized for each mapped field, tried in order
+const FIELD_HEADERS: Record<Exclude<keyof ColumnMapping, 'url'>, RegExp> = {
+  name: /^(full[\s_-]*)?name$|^candidate([\s_-]*name)?$|^contact([\s_-]*name)?$/i,
+  email: /e-?mail/i,
+  company: /company|employer|organi[sz]ation/i,
+  externalId: /^(candidate|applicant|external|ats|person)[\s_-]*id$|^id$/i,
+};
+const URL_HEADER = /linkedin|profile[\s_-]*(url|link)|^url$/i;
+
+export interface ColumnInfo {
+  index: number;
+  name: string | null; // header text, when the sheet has a header row
+  linkedinUrls: number; // cells holding a LinkedIn URL among the sampled rows
+  samples: string[];
+}
+
+// A data row that has content but no usable LinkedIn URL in the mapped column
+export interface RejectedRow {
+  rowIndex: number;
+  value: string | null; // the URL cell's text; null when the cell is empty
+}
+
+export interface SheetInspection {
+  name: string;
+  rowCount: number; // data rows, after the header
+  headerRow: number | null;
+  columns: ColumnInfo[];
+  suggestedMapping: ColumnMapping | null; // null when no column holds LinkedIn URLs
+}
+
+function cellText(cell: unknown): string {
+  return cell === undefined || cell === null ? '' : String(cell).trim();
+}
+
+function isLinkedInUrl(cell: unknown): boolean {
+  return typeof cell === 'string' && LINKEDIN_URL_PATTERN.test(cell);
+}
+
+/**
+ * Finds the header row: the first non-empty row among the first few whose
+ * cells are all text labels (no LinkedIn URLs, numbers or emails), followed
+ * by at least one row with a LinkedIn URL. Returns null for sheets without one.
+ */
+export function detectHeaderRow(rows: unknown[][]): number | null {
+  const limit = Math.min(rows.length, HEADER_SEARCH_ROWS);
+
+  for (let rowIndex = 0; rowIndex < limit; rowIndex++) {
+    const cells = (rows[rowIndex] || []).map(cellText).filter(text => text !== '');
+    if (cells.length === 0) {
+      continue; // blank rows above the header are common in exported reports
+    }
+
+    const isLabelRow = cells.every(text =>
+      !LINKEDIN_URL_PATTERN.test(text) && !/^https?:\/\//i.test(text) && !text.includes('@') && isNaN(Number(text))
+    );
+    const urlsFollow = rows.slice(rowIndex + 1).some(row => (row || []).some(isLinkedInUrl));
+    return isLabelRow && urlsFollow ? rowIndex : null;
+  }
+
+  return null;
+}
+
+export function inspectTable(table: InputTable, sampleCount: number = 3): SheetInspection {
+  const headerRow = detectHeaderRow(table.rows);
+  const header = headerRow === null ? [] : table.rows[headerRow] || [];
+  const dataRows = table.rows.slice(headerRow === null ? 0 : headerRow + 1);
+  const sampled = dataRows.slice(0, SAMPLE_ROWS);
+  const width = Math.max(header.length, ...sampled.map(row => (row || []).length), 0);
+
+  const columns: ColumnInfo[] = [];
+  for (let index = 0; index < width; index++) {
+    const values = sampled.map(row => (row || [])[index]);
+    columns.push({
+      index,
+      name: headerRow === null ? null : cellText(header[index]) || null,
+      linkedinUrls: values.filter(isLinkedInUrl).length,
+      samples: values.map(cellText).filter(text => text !== '').slice(0, sampleCount),
+    });
+  }
+
+  return {
+    name: table.name,
+    rowCount: dataRows.filter(row => (row || []).some(cell => cellText(cell) !== '')).length,
+    headerRow,
+    columns,
+    suggestedMapping: suggestMapping(columns),
+  };
+}
+
+/**
+ * Guesses a mapping: the URL column is the one with the most LinkedIn URLs
+ * (a LinkedIn-looking header breaks ties), and the other fields are matched
+ * by header name. Columns are referred to by header name when there is one,
+ * so the mapping can be saved and reused for files with another column order.
+ */
+export function suggestMapping(columns: ColumnInfo[]): ColumnMapping | null {
+  const urlColumn = columns
+    .filter(column => column.linkedinUrls > 0)
+    .sort((a, b) =>
+      b.linkedinUrls - a.linkedinUrls ||
+      Number(URL_HEADER.test(b.name || '')) - Number(URL_HEADER.test(a.name || ''))
+    )[0];
+  if (!urlColumn) {
+    return null;
+  }
+
+  const reference = (column: ColumnInfo): ColumnReference => column.name ?? column.index;
+  const mapping: ColumnMapping = { url: reference(urlColumn) };
+
+  for (const [field, pattern] of Object.entries(FIELD_HEADERS) as Array<[keyof typeof FIELD_HEADERS, RegExp]>) {
+    const match = columns.find(column => column !== urlColumn && column.name && pattern.test(column.name));
+    if (match) {
+      mapping[field] = reference(match);
+    }
+  }
+
+  return mapping;
+}
+
+function resolveColumn(reference: ColumnReference, header: string[], field: string): number {
+  if (typeof reference === 'number') {
+    return reference;
+  }
+
+  const index = header.findIndex(name => name.toLowerCase() === reference.trim().toLowerCase());
+  if (index === -1) {
+    throw new ValidationError(`column "${reference}" not found for ${field}`, 'mapping');
+  }
+  return index;
+}
+
+type RowResult = { url: LinkedInUrl } | { rejected: RejectedRow } | null;
+
+/**
+ * Reads one profile per data row from the mapped URL column. Mapped fields
+ * land in `additionalData` under their field names, and every other non-empty
+ * cell under its header name (or `column_<index>` without a header). Rows
+ * with content but no LinkedIn URL in that column are rejected; empty rows
+ * give null.
+ */
+function createRowMapper(headerCells: unknown[], mapping: ColumnMapping): (row: unknown[], rowIndex: number) => RowResult {
+  const header = Array.from(headerCells, cellText); // rows may be sparse
+  const fields = Object.entries(mapping)
+    .filter(([, reference]) => reference !== undefined)
+    .map(([field, reference]) => ({ field, index: resolveColumn(reference as ColumnReference, header, field) }));
+  const urlIndex = fields.find(({ field }) => field === 'url')!.index;
+  const mappedIndexes = new Set(fields.map(({ index }) => index));
+
+  return (row, rowIndex) => {
+    const url = row[urlIndex];
+    if (!isLinkedInUrl(url)) {
+      return row.some(cell => cellText(cell) !== '') ? { rejected: { rowIndex, value: cellText(url) || null } } : null;
+    }
+
+    const additionalData: Record<string, any> = {};
+    for (const { field, index } of fields) {
+      if (field !== 'url' && cellText(row[index]) !== '') {
+        additionalData[field] = row[index];
+      }
+    }
+    row.forEach((cell, index) => {
+      if (!mappedIndexes.has(index) && cellText(cell) !== '') {
+        additionalData[header[index] || `column_${index}`] = cell;
+      }
+    });
+
+    return { url: { url: (url as string).trim(), rowIndex, additionalData } };
+  };
+}
+
+export function applyMapping(
+  table: InputTable,
+  headerRow: number | null,
+  mapping: ColumnMapping
+): { urls: LinkedInUrl[]; rejected: RejectedRow[] } {
+  const mapRow = createRowMapper(headerRow === null ? [] : table.rows[headerRow] || [], mapping);
+  const linkedinUrls: LinkedInUrl[] = [];
+  const rejected: RejectedRow[] = [];
+
+  for (let rowIndex = headerRow === null ? 0 : headerRow + 1; rowIndex < table.rows.length; rowIndex++) {
+    const result = mapRow(table.rows[rowIndex] || [], rowIndex);
+    if (result && 'url' in result) {
+      linkedinUrls.push(result.url);
+    } else if (result) {
+      rejected.push(result.rejected);
+    }
+  }
+
+  return { urls: linkedinUrls, rejected };
+}
+
+export interface TableSelection {
+  sheet?: string; // must exist when given
+  preferredSheet?: string; // used when it exists, e.g. from a mapping template
+  mapping?: ColumnMapping;
+}
+
+export interface TableReadResult {
+  urls: LinkedInUrl[];
+  rejected: RejectedRow[];
+  mapping: InputMapping | null;
+  columns: ColumnInfo[]; // columns of the sheet that was read
+}
+
+/**
+ * Reads LinkedIn URLs from the chosen sheet, or else the first sheet with any
+ * LinkedIn URL, using the given mapping or a suggested one.
+ */
+export function readTables(tables: InputTable[], selection: TableSelection = {}): TableReadResult {
+  let table: InputTable | undefined;
+  if (selection.sheet !== undefined) {
+    table = tables.find(candidate => candidate.name === selection.sheet);
+    if (!table) {
+      throw new ValidationError(`sheet "${selection.sheet}" not found`, 'sheet');
+    }
+  } else {
+    table = tables.find(candidate => candidate.name === selection.preferredSheet) ||
+      tables.find(candidate => candidate.rows.some(row => (row || []).some(isLinkedInUrl))) ||
+      tables[0];
+  }
+  if (!table) {
+    return { urls: [], rejected: [], mapping: null, columns: [] };
+  }
+
+  const inspection = inspectTable(table);
+  const columns = selection.mapping || inspection.suggestedMapping;
+  if (!columns) {
+    return { urls: [], rejected: [], mapping: null, columns: inspection.columns };
+  }
+
+  return {
+    ...applyMapping(table, inspection.headerRow, columns),
+    mapping: { sheet: table.name, headerRow: inspection.headerRow, columns },
+    columns: inspection.columns,
+  };
+}
+
+// A table already in memory, for formats that are read whole
+export function streamedTable(table: InputTable): StreamedTable {
+  return {
+    name: table.name,
+    rows: async function* (): AsyncGenerator<IndexedRow> {
+      for (let rowIndex = 0; rowIndex < table.rows.length; rowIndex++) {
+        yield { rowIndex, cells: table.rows[rowIndex] || [] };
+      }
+    },
+  };
+}
+
+// URLs and rejected rows read since the previous chunk
+export interface ParsedChunk {
+  urls: LinkedInUrl[];
+  rejected: RejectedRow[];
+  rowsRead: number; // rows read from the start of the file so far
+}
+
+export interface TableStream {
+  mapping: InputMapping | null;
+  columns: ColumnInfo[];
+  // The rows of the whole sheet, `chunkSize` rows with content at a time; can be iterated once
+  chunks(chunkSize: number): AsyncIterable<ParsedChunk>;
+  close(): Promise<void>; // for a stream that won't be read after all
+}
+
+interface SheetStart {
+  table: StreamedTable;
+  rows: AsyncIterator<IndexedRow>;
+  prefix: IndexedRow[]; // the rows already read, to be read again by `chunks`
+  inspection: SheetInspection; // with indexes into `prefix`, which skips any rows the file leaves out
+}
+
+// Reads the first rows of a sheet, enough to find its header row and guess a mapping
+async function startSheet(table: StreamedTable): Promise<SheetStart> {
+  const rows = table.rows()[Symbol.asyncIterator]();
+  const prefix: IndexedRow[] = [];
+  while (prefix.length < HEADER_SEARCH_ROWS + SAMPLE_ROWS) {
+    const next = await rows.next();
+    if (next.done) {
+      break;
+    }
+    prefix.push(next.value);
+  }
+
+  return {
+    table,
+    rows,
+    prefix,
+    inspection: inspectTable({ name: table.name, rows: prefix.map(row => row.cells) }),
+  };
+}
+
+async function* remainingRows(sheet: SheetStart): AsyncGenerator<IndexedRow> {
+  yield* sheet.prefix.splice(0);
+  for (let next = await sheet.rows.next(); !next.done; next = await sheet.rows.next()) {
+    yield next.value;
+  }
+}
+
+function emptyStream(columns: ColumnInfo[]): TableStream {
+  return {
+    mapping: null,
+    columns,
+    chunks: async function* () {},
+    close: async () => {},
+  };
+}
+
+/**
+ * `readTables` for files read row by row. The sheet and mapping are settled
+ * from the first rows, so a sheet is only picked for holding LinkedIn URLs if
+ * there are some near its top, and errors in the mapping come up before any
+ * chunk is read.
+ */
+export async function streamTables(tables: StreamedTable[], selection: TableSelection = {}): Promise<TableStream> {
+  let start: SheetStart | undefined;
+  if (selection.sheet !== undefined) {
+    const table = tables.find(candidate => candidate.name === selection.sheet);
+    if (!table) {
+      throw new ValidationError(`sheet "${selection.sheet}" not found`, 'sheet');
+    }
+    start = await startSheet(table);
+  } else {
+    const preferred = tables.find(candidate => candidate.name === selection.preferredSheet);
+    for (const table of preferred ? [preferred] : tables) {
+      const candidate = await startSheet(table);
+      if (preferred || candidate.inspection.suggestedMapping) {
+        start = candidate;
+        break;
+      }
+      await candidate.rows.return?.();
+    }
+    if (!start && tables.length > 0) {
+      start = await startSheet(tables[0]);
+    }
+  }
+  if (!start) {
+    return emptyStream([]);
+  }
+
+  const sheet = start;
+  const columns = selection.mapping || sheet.inspection.suggestedMapping;
+  if (!columns) {
+    await sheet.rows.return?.();
+    return emptyStream(sheet.inspection.columns);
+  }
+
+  const header = sheet.inspection.headerRow === null ? null : sheet.prefix[sheet.inspection.headerRow];
+  const mapRow = createRowMapper(header?.cells || [], columns);
+
+  return {
+    mapping: { sheet: sheet.table.name, headerRow: header?.rowIndex ?? null, columns },
+    columns: sheet.inspection.columns,
+    chunks: async function* (chunkSize: number): AsyncGenerator<ParsedChunk> {
+      let urls: LinkedInUrl[] = [];
+      let rejected: RejectedRow[] = [];
+      let rowsRead = 0;
+      try {
+        for await (const row of remainingRows(sheet)) {
+          rowsRead = row.rowIndex + 1;
+          if (header && row.rowIndex <= header.rowIndex) {
+            continue;
+          }
+
+          const result = mapRow(row.cells, row.rowIndex);
+          if (result && 'url' in result) {
+            urls.push(result.url);
+          } else if (result) {
+            rejected.push(result.rejected);
+          }
+          if (urls.length + rejected.length >= chunkSize) {
+            yield { urls, rejected, rowsRead };
+            urls = [];
+            rejected = [];
+          }
+        }
+        yield { urls, rejected, rowsRead };
+      } finally {
+        await sheet.rows.return?.();
+      }
+    },
+    close: async () => {
+      await sheet.rows.return?.();
+    },
+  };
+}
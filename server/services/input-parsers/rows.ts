@@ -0,0 +1,70 @@
+import type { LinkedInUrl } from '@shared/schema';
+
+export const LINKEDIN_URL_PATTERN = /linkedin\.com\/(in|pub)\//i;
+
+// Finds LinkedIn URLs inside free text, with or without the scheme
+export const LINKEDIN_URL_IN_TEXT = /(?:https?:\/\/)?(?:[\w-]+\.)?linkedin\.com\/(?:in|pub)\/[^\s,;"'<>|()]+/gi;
+
+/**
+ * Turns rows of cells into LinkedIn URLs. Every cell holding a LinkedIn URL
+ * becomes an entry, and the row's other non-empty cells are kept as
+ * `column_<index>` in its additional data.
+ */
+export function urlsFromRows(rows: unknown[][]): LinkedInUrl[] {
+  const linkedinUrls: LinkedInUrl[] = [];
+
+  for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+    const row = rows[rowIndex] || [];
+
+    for (let colIndex = 0; colIndex < row.length; colIndex++) {
+      const cellValue = row[colIndex];
+
+      if (typeof cellValue === 'string' && LINKEDIN_URL_PATTERN.test(cellValue)) {
+        const additionalData: Record<string, any> = {};
+        row.forEach((cell, idx) => {
+          if (idx !== colIndex && cell !== undefined && cell !== null && cell !== '') {
+            additionalData[`column_${idx}`] = cell;
+          }
+        });
+
+        linkedinUrls.push({
+          url: cellValue.trim(),
+          rowIndex,
+          additionalData,
+        });
+      }
+    }
+  }
+
+  return linkedinUrls;
+}
+
+/**
+ * Turns one JSON record into LinkedIn URLs: a string is taken as the URL, an
+ * array as a row of cells, and an object contributes every string field that
+ * holds a LinkedIn URL with its other fields as additional data.
+ */
+export function urlsFromRecord(record: unknown, rowIndex: number): LinkedInUrl[] {
+  if (typeof record === 'string') {
+    return LINKEDIN_URL_PATTERN.test(record) ? [{ url: record.trim(), rowIndex, additionalData: {} }] : [];
+  }
+
+  if (Array.isArray(record)) {
+    return urlsFromRows([record]).map(entry => ({ ...entry, rowIndex }));
+  }
+
+  if (record && typeof record === 'object') {
+    const fields = Object.entries(record as Record<string, unknown>);
+    return fields
+      .filter(([, value]) => typeof value === 'string' && LINKEDIN_URL_PATTERN.test(value))
+      .map(([key, value]) => ({
+        url: (value as string).trim(),
+        rowIndex,
+        additionalData: Object.fromEntries(
+          fields.filter(([otherKey, other]) => otherKey !== key && other !== null && other !== undefined && other !== '')
+        ),
+      }));
+  }
+
+  return [];
+}
@@ -0,0 +1,54 @@
+import fs from 'fs';
+import path from 'path';
+import type { LinkedInUrl } from '@shared/schema';
+import type { InputParser, InputTable, StreamedTable } from './types';
+import { readTables, streamedTable } from './mapping';
+import { openXlsxSheets } from './xlsx-stream';
+
+/**
+ * Excel and OpenDocument workbooks. Every sheet is available for mapping;
+ * without a choice the first sheet holding LinkedIn URLs is read. Large
+ * uploads are streamed for .xlsx only; .xls and .ods are read whole.
+ */
+export class SpreadsheetInputParser implements InputParser {
+  readonly format = 'spreadsheet' as const;
+  readonly label = 'Excel';
+  readonly extensions = ['.xlsx', '.xls', '.ods'];
+  readonly contentTypes = [
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-excel',
+    'application/vnd.oasis.opendocument.spreadsheet',
+  ];
+
+  async parse(content: Buffer): Promise<LinkedInUrl[]> {
+    return readTables(await this.readTables(content)).urls;
+  }
+
+  async readTables(content: Buffer): Promise<InputTable[]> {
+    const XLSX = await import('xlsx');
+    const workbook = XLSX.default.read(content, { type: 'buffer' });
+
+    return workbook.SheetNames.map(name => {
+      const worksheet = workbook.Sheets[name];
+      const rows = XLSX.default.utils.sheet_to_json(worksheet, { header: 1, blankrows: true }) as unknown[][];
+
+      // Pad to the sheet's used range so row and column indexes match the sheet's own
+      const start = worksheet['!ref'] ? XLSX.default.utils.decode_range(worksheet['!ref']).s : { r: 0, c: 0 };
+      const padding = new Array(start.c).fill(undefined);
+      return {
+        name,
+        rows: [
+          ...Array.from({ length: start.r }, () => []),
+          ...rows.map(row => start.c > 0 ? [...padding, ...row] : row),
+        ],
+      };
+    });
+  }
+
+  async openTables(filePath: string, fileName?: string): Promise<StreamedTable[]> {
+    if (path.extname(fileName || filePath).toLowerCase() === '.xlsx') {
+      return openXlsxSheets(filePath);
+    }
+    return (await this.readTables(await fs.promises.readFile(filePath))).map(streamedTable);
+  }
+}
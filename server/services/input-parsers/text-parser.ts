@@ -0,0 +1,40 @@
+import type { LinkedInUrl } from '@shared/schema';
+import type { InputParser } from './types';
+import { decodeText, decodeTextStream, readLines } from './decode';
+import { LINKEDIN_URL_IN_TEXT } from './rows';
+
+function urlsFromLine(line: string, rowIndex: number): LinkedInUrl[] {
+  const matches = line.match(LINKEDIN_URL_IN_TEXT) || [];
+  const note = matches
+    .reduce((rest, match) => rest.replace(match, ' '), line)
+    .replace(/^[\s\-*•,;|]+|[\s\-*•,;|]+$/g, '')
+    .trim();
+
+  return matches.map(match => ({
+    url: match,
+    rowIndex,
+    additionalData: note ? { note } : {},
+  }));
+}
+
+/**
+ * Plain text such as a pasted list. Every LinkedIn URL on a line is taken,
+ * whatever surrounds it, and the rest of the line is kept as its note.
+ */
+export class TextInputParser implements InputParser {
+  readonly format = 'text' as const;
+  readonly label = 'Plain text';
+  readonly extensions = ['.txt', '.text'];
+  readonly contentTypes = ['text/plain'];
+
+  async parse(content: Buffer): Promise<LinkedInUrl[]> {
+    return decodeText(content).split(/\r?\n/).flatMap(urlsFromLine);
+  }
+
+  async *streamUrls(filePath: string): AsyncGenerator<LinkedInUrl> {
+    let rowIndex = 0;
+    for await (const line of readLines(decodeTextStream(filePath))) {
+      yield* urlsFromLine(line, rowIndex++);
+    }
+  }
+}
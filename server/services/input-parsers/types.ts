@@ -0,0 +1,43 @@
+import type { LinkedInUrl } from '@shared/schema';
+
+export type InputFormat = 'spreadsheet' | 'delimited' | 'json' | 'ndjson' | 'text';
+
+export interface InputParser {
+  readonly format: InputFormat;
+  readonly label: string;
+  readonly extensions: string[]; // lower case, with the leading dot
+  readonly contentTypes: string[];
+
+  parse(content: Buffer, fileName?: string): Promise<LinkedInUrl[]>;
+
+  // Tabular formats also expose their sheets, so columns can be mapped explicitly
+  readTables?(content: Buffer, fileName?: string): Promise<InputTable[]>;
+
+  // Streaming counterparts for large files: sheets read row by row, or URLs line by line
+  openTables?(filePath: string, fileName?: string): Promise<StreamedTable[]>;
+  streamUrls?(filePath: string): AsyncIterable<LinkedInUrl>;
+}
+
+// One sheet of a workbook, or the whole of a CSV file
+export interface InputTable {
+  name: string;
+  rows: unknown[][];
+}
+
+// A row with its zero-based index in the sheet; empty rows may be left out
+export interface IndexedRow {
+  rowIndex: number;
+  cells: unknown[];
+}
+
+// A sheet that is read from the file each time its rows are iterated
+export interface StreamedTable {
+  name: string;
+  rows(): AsyncIterable<IndexedRow>;
+}
+
+// What is known about an upload when picking its parser
+export interface InputDescriptor {
+  fileName?: string;
+  contentType?: string;
+}
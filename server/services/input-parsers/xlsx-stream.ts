@@ -0,0 +1,262 @@
+import path from 'path';
+import type { Readable } from 'stream';
+import type { IndexedRow, StreamedTable } from './types';
+import { ValidationError } from '../../types/errors';
+import { openEntry, readEntryText, readZipEntries, type ZipEntry } from '../../utils/zip';
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+// XML entities, then the `_xHHHH_` escapes Excel writes for control characters
+function decodeXml(text: string): string {
+  return text
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+      if (entity[0] === '#') {
+        const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return String.fromCodePoint(code);
+      }
+      return ENTITIES[entity] ?? match;
+    })
+    .replace(/_x([0-9a-f]{4})_/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)));
+}
+
+const attributePatterns = new Map<string, RegExp>();
+
+export function attribute(attributes: string, name: string): string | undefined {
+  let pattern = attributePatterns.get(name);
+  if (!pattern) {
+    pattern = new RegExp(`(?:^|\\s)${name}="([^"]*)"`);
+    attributePatterns.set(name, pattern);
+  }
+  const match = attributes.match(pattern);
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+// Concatenated `<t>` runs, leaving out phonetic guides (`<rPh>`)
+function textRuns(xml: string): string {
+  const withoutPhonetics = xml.replace(/<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g, '');
+  let text = '';
+  for (const match of Array.from(withoutPhonetics.matchAll(/<(?:\w+:)?t\b[^>]*?(?:\/>|>([\s\S]*?)<\/(?:\w+:)?t>)/g))) {
+    text += decodeXml(match[1] || '');
+  }
+  return text;
+}
+
+// "AB12" → 27
+export function columnIndex(reference: string): number | null {
+  const letters = reference.match(/^[A-Z]+/i)?.[0];
+  if (!letters) {
+    return null;
+  }
+  let index = 0;
+  for (const letter of letters.toUpperCase()) {
+    index = index * 26 + letter.charCodeAt(0) - 64;
+  }
+  return index - 1;
+}
+
+// 27 → "AB"
+export function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + (n - 1) % 26) + name;
+  }
+  return name;
+}
+
+export interface XmlElement {
+  xml: string; // the element as written
+  prefix: string; // namespace prefix with its colon, usually empty
+  attributes: string;
+  body: string;
+}
+
+function elementPattern(tag: string): RegExp {
+  return new RegExp(`<(\\w+:)?${tag}\\b([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/(?:\\w+:)?${tag}>)`, 'g');
+}
+
+/**
+ * Complete `<tag>` elements of an XML stream, matched on a buffer that only
+ * keeps the text after the last complete element. Good enough for the flat,
+ * machine-written sheet and shared string parts; not a general XML parser.
+ */
+export async function* streamElements(source: Readable, tag: string): AsyncGenerator<XmlElement> {
+  for await (const piece of scanElements(source, tag)) {
+    if (typeof piece !== 'string') {
+      yield piece;
+    }
+  }
+}
+
+/**
+ * The XML stream again, with every complete `<tag>` element replaced by what
+ * `rewrite` returns for it. Everything between the elements is passed through
+ * untouched.
+ */
+export async function* rewriteElements(
+  source: Readable,
+  tag: string,
+  rewrite: (element: XmlElement) => string
+): AsyncGenerator<string> {
+  for await (const piece of scanElements(source, tag)) {
+    yield typeof piece === 'string' ? piece : rewrite(piece);
+  }
+}
+
+// The text between the elements and the elements themselves, in order
+async function* scanElements(source: Readable, tag: string): AsyncGenerator<string | XmlElement> {
+  const pattern = elementPattern(tag);
+  const decoder = new TextDecoder('utf-8');
+  let buffer = '';
+
+  const drain = function* () {
+    pattern.lastIndex = 0;
+    let consumed = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(buffer))) {
+      if (match.index > consumed) {
+        yield buffer.slice(consumed, match.index);
+      }
+      consumed = pattern.lastIndex;
+      yield { xml: match[0], prefix: match[1] || '', attributes: match[2], body: match[3] || '' };
+    }
+    buffer = buffer.slice(consumed);
+  };
+
+  for await (const chunk of source) {
+    buffer += decoder.decode(chunk, { stream: true });
+    yield* drain();
+  }
+  buffer += decoder.decode();
+  yield* drain();
+  if (buffer) {
+    yield buffer;
+  }
+}
+
+// The `<c>` elements of a row's body, with the column each one is in
+export function rowCells(body: string): Array<{ column: number; xml: string; attributes: string; body: string }> {
+  const cells = [];
+  let nextColumn = 0;
+  for (const cell of Array.from(body.matchAll(/<(?:\w+:)?c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?c>)/g))) {
+    const column = columnIndex(attribute(cell[1], 'r') || '') ?? nextColumn;
+    nextColumn = column + 1;
+    cells.push({ column, xml: cell[0], attributes: cell[1], body: cell[2] || '' });
+  }
+  return cells;
+}
+
+function resolveTarget(target: string): string {
+  const resolved = target.startsWith('/') ? target.slice(1) : path.posix.normalize(`xl/${target}`);
+  return resolved.toLowerCase();
+}
+
+function cellValue(attributes: string, body: string, sharedStrings: string[]): unknown {
+  const type = attribute(attributes, 't');
+  if (type === 'inlineStr') {
+    return textRuns(body);
+  }
+
+  const value = body.match(/<(?:\w+:)?v>([\s\S]*?)<\/(?:\w+:)?v>/)?.[1];
+  if (value === undefined) {
+    return undefined;
+  }
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(value)];
+    case 'b':
+      return value === '1';
+    case 'str':
+    case 'e':
+    case 'd':
+      return decodeXml(value);
+    default:
+      return value.trim() === '' ? undefined : Number(value);
+  }
+}
+
+export interface XlsxPackage {
+  entries: Map<string, ZipEntry>; // by lower-cased name
+  sheets: Array<{ name: string; entry: ZipEntry }>; // worksheets in workbook order
+}
+
+// The parts of an .xlsx workbook and the worksheet part of every sheet
+export async function readXlsxPackage(filePath: string): Promise<XlsxPackage> {
+  let entries: Map<string, ZipEntry>;
+  try {
+    entries = await readZipEntries(filePath);
+  } catch (error) {
+    throw error instanceof ValidationError ? new ValidationError('not a valid .xlsx workbook', 'file') : error;
+  }
+
+  const workbook = entries.get('xl/workbook.xml');
+  const relationships = entries.get('xl/_rels/workbook.xml.rels');
+  if (!workbook || !relationships) {
+    throw new ValidationError('not a valid .xlsx workbook', 'file');
+  }
+
+  const targets = new Map<string, string>();
+  for (const match of Array.from((await readEntryText(filePath, relationships)).matchAll(/<(?:\w+:)?Relationship\b([^>]*?)\/?>/g))) {
+    const id = attribute(match[1], 'Id');
+    const target = attribute(match[1], 'Target');
+    if (id && target) {
+      targets.set(id, resolveTarget(target));
+    }
+  }
+
+  const sheets: XlsxPackage['sheets'] = [];
+  for (const match of Array.from((await readEntryText(filePath, workbook)).matchAll(/<(?:\w+:)?sheet\b([^>]*?)\/?>/g))) {
+    const name = attribute(match[1], 'name');
+    const relationshipId = match[1].match(/\s\w+:id="([^"]*)"/)?.[1]; // r:id; sheetId is the unrelated display order
+    const entry = relationshipId ? entries.get(targets.get(relationshipId) || '') : undefined;
+    if (name && entry && entry.name.toLowerCase().includes('worksheets/')) { // chart sheets and dialog sheets hold no rows
+      sheets.push({ name, entry });
+    }
+  }
+
+  return { entries, sheets };
+}
+
+/**
+ * Sheets of an .xlsx workbook, read from the file row by row so large
+ * workbooks never sit in memory as a whole. Only the shared strings are held
+ * in memory, once per pass over a sheet. Cell values come out as `xlsx`'s
+ * `sheet_to_json` gives them: text, numbers and booleans, with dates as serial
+ * numbers.
+ */
+export async function openXlsxSheets(filePath: string): Promise<StreamedTable[]> {
+  const { entries, sheets } = await readXlsxPackage(filePath);
+
+  const loadSharedStrings = async (): Promise<string[]> => {
+    const entry = entries.get('xl/sharedstrings.xml');
+    const sharedStrings: string[] = [];
+    if (entry) {
+      for await (const item of streamElements(await openEntry(filePath, entry), 'si')) {
+        sharedStrings.push(textRuns(item.body));
+      }
+    }
+    return sharedStrings;
+  };
+
+  return sheets.map(({ name, entry }) => ({
+    name,
+    rows: async function* (): AsyncGenerator<IndexedRow> {
+      const sharedStrings = await loadSharedStrings();
+      let nextRowIndex = 0;
+
+      for await (const row of streamElements(await openEntry(filePath, entry), 'row')) {
+        const rowNumber = Number(attribute(row.attributes, 'r'));
+        const rowIndex = rowNumber > 0 ? rowNumber - 1 : nextRowIndex;
+        nextRowIndex = rowIndex + 1;
+
+        const cells: unknown[] = [];
+        for (const cell of rowCells(row.body)) {
+          const value = cellValue(cell.attributes, cell.body, sharedStrings);
+          if (value !== undefined && value !== '') {
+            cells[cell.column] = value;
+          }
+        }
+        yield { rowIndex, cells };
+      }
+    },
+  }));
+}
@@ -0,0 +1,129 @@
+import path from 'path';
+import type { Job, JobEventActor } from '@shared/schema';
+import type { IStorage } from '../storage';
+import type { JobQueue } from './job-queue';
+import type { JobEventLog } from './job-event-log';
+import { normalizeKey, type BlobStore } from './blob-store';
+import { CONFIG } from '../config/constants';
+import { logger } from '../utils/logger';
+
+/**
+ * Deletes jobs in two steps. Deleting cancels the job and hides it, and it
+ * can be restored during the restore window. After that every server's purge
+ * removes the job's rows together with its uploaded file and results files.
+ * The same purge drops upload previews that were never confirmed.
+ */
+export class JobCleanup {
+  constructor(
+    private storage: IStorage,
+    private jobQueue: JobQueue,
+    private eventLog: JobEventLog,
+    private blobs: BlobStore
+  ) {}
+  private purgeTimer: NodeJS.Timeout | null = null;
+
+  async start(): Promise<void> {
+    if (!this.purgeTimer) {
+      this.purgeTimer = setInterval(() => this.purgeExpiredJobs(), CONFIG.JOB_DELETION.PURGE_INTERVAL);
+      this.purgeTimer.unref();
+    }
+
+    await this.purgeExpiredJobs();
+  }
+
+  restoreDeadline(job: Pick<Job, 'deletedAt'>): Date | null {
+    return job.deletedAt ? new Date(job.deletedAt.getTime() + CONFIG.JOB_DELETION.RESTORE_WINDOW) : null;
+  }
+
+  /**
+   * Cancels the job if it is still running and marks it deleted, keeping the
+   * status it had for a restore. Returns the time until which it can be
+   * restored.
+   */
+  async deleteJob(job: Job, actor: JobEventActor): Promise<Date> {
+    const deletedAt = job.deletedAt || new Date();
+    const statusBeforeDelete = job.deletedAt ? job.statusBeforeDelete : job.status;
+    await this.jobQueue.cancelJob(job.id, actor);
+
+    await this.storage.setJobDeletedAt(job.id, deletedAt, statusBeforeDelete);
+    await this.eventLog.record(job.id, 'deleted', actor);
+
+    return this.restoreDeadline({ deletedAt })!;
+  }
+
+  /**
+   * Brings a deleted job back, with the job queue undoing the cancel deleting
+   * it made. Returns false when the restore window is over.
+   */
+  async restoreJob(job: Job, actor: JobEventActor): Promise<boolean> {
+    const deadline = this.restoreDeadline(job);
+    if (!deadline || deadline <= new Date()) {
+      return false;
+    }
+
+    const { statusBeforeDelete } = job;
+    await this.storage.setJobDeletedAt(job.id, null);
+    await this.eventLog.record(job.id, 'restored', actor);
+    if (statusBeforeDelete) {
+      await this.jobQueue.reinstateJob(job.id, statusBeforeDelete, actor);
+    }
+    return true;
+  }
+
+  private async purgeExpiredJobs(): Promise<void> {
+    try {
+      const cutoff = new Date(Date.now() - CONFIG.JOB_DELETION.RESTORE_WINDOW);
+      for (const job of await this.storage.getJobsDeletedBefore(cutoff)) {
+        await this.purgeJob(job);
+      }
+    } catch (error) {
+      logger.error('Failed to purge deleted jobs', error);
+    }
+
+    try {
+      for (const preview of await this.storage.getExpiredUploadPreviews(new Date())) {
+        if (await this.storage.deleteUploadPreview(preview.id)) {
+          await this.removeFile(preview.filePath, CONFIG.FILE_UPLOAD.TEMP_DIRECTORY);
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to purge expired upload previews', error);
+    }
+  }
+
+  private async purgeJob(job: Job): Promise<void> {
+    await this.storage.purgeJob(job.id);
+
+    // Reruns and scheduled runs share their source job's upload
+    const sharedUpload = (await this.storage.getJobsByFilePath(job.filePath)).length > 0;
+    if (job.filePath && !sharedUpload) {
+      await this.removeFile(job.filePath, CONFIG.FILE_UPLOAD.TEMP_DIRECTORY);
+    }
+    if (job.resultPath) {
+      await this.removeFile(job.resultPath, CONFIG.JOB_DELETION.RESULTS_DIRECTORY);
+    }
+    await this.removeFile(
+      `${CONFIG.JOB_DELETION.RESULTS_DIRECTORY}job_${job.id}_combined_results.xlsx`,
+      CONFIG.JOB_DELETION.RESULTS_DIRECTORY
+    );
+    await this.removeFile(
+      `${CONFIG.JOB_DELETION.RESULTS_DIRECTORY}job_${job.id}_enriched${path.extname(job.fileName).toLowerCase()}`,
+      CONFIG.JOB_DELETION.RESULTS_DIRECTORY
+    );
+
+    logger.info(`Purged deleted job ${job.id}`, { jobId: job.id, deletedAt: job.deletedAt });
+  }
+
+  // Only blobs under the given prefix are removed, whatever the stored key says
+  private async removeFile(key: string, prefix: string): Promise<void> {
+    try {
+      if (!normalizeKey(key).startsWith(prefix)) {
+        logger.warn(`Not removing ${key}: outside ${prefix}`);
+        return;
+      }
+      await this.blobs.delete(key);
+    } catch (error) {
+      logger.warn(`Failed to remove ${key}`, error);
+    }
+  }
+}
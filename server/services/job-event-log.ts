@@ -0,0 +1,32 @@
+import type { JobEventActor, JobEventDataMap, JobEventType } from '@shared/schema';
+import type { IStorage } from '../storage';
+import { logger } from '../utils/logger';
+
+/**
+ * Writes the `job_events` audit trail. Recording is best effort: a failed
+ * write is logged and never fails the transition it describes.
+ */
+export class JobEventLog {
+  constructor(private storage: IStorage) {}
+
+  async record<T extends JobEventType>(
+    jobId: number,
+    type: T,
+    actor: JobEventActor,
+    reason?: string | null,
+    data?: JobEventDataMap[T]
+  ): Promise<void> {
+    try {
+      await this.storage.createJobEvent({
+        jobId,
+        type,
+        actorType: actor.type,
+        actorId: actor.id !== undefined ? String(actor.id) : null,
+        reason: reason ?? null,
+        data: data ?? null,
+      });
+    } catch (error) {
+      logger.warn(`Failed to record ${type} event for job ${jobId}`, error);
+    }
+  }
+}
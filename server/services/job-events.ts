@@ -0,0 +1,38 @@
+import { EventEmitter } from 'events';
+import type { JobEvent } from '@shared/schema';
+
+export type JobEventListener = (event: JobEvent) => void;
+
+/**
+ * In-process fan-out of job events to the owning user's open event streams.
+ * Events are published by the server that runs the job and are not shared
+ * between servers, so with several servers a client only gets the events of
+ * jobs its own server runs. Clients poll whenever no event arrived within the
+ * stream's heartbeat interval, which covers jobs running elsewhere.
+ */
+export class JobEventBus {
+  private emitter: EventEmitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open browser tab
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(userId: number, event: JobEvent): void {
+    this.emitter.emit(this.channel(userId), event);
+  }
+
+  subscribe(userId: number, listener: JobEventListener): () => void {
+    const channel = this.channel(userId);
+    this.emitter.on(channel, listener);
+    return () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+
+  private channel(userId: number): string {
+    return `user:${userId}`;
+  }
+}
+
+export const jobEvents = new JobEventBus();
@@ -1,346 +1,957 @@
-import type { IStorage } from '../storage';
-import type { ExcelParser } from './excel/parser';
-import type { AIProfileExtractor } from './ai-profile-extractor';
+import os from 'os';
+import { randomUUID } from 'crypto';
+import type { Writable } from 'stream';
+import type { InputMapping, Job, JobEventActor, PauseReason, Profile, RetryPolicy } from '@shared/schema';
+import type { IStorage, ProfileUpdate } from '../storage';
+import type { InputParserRegistry } from './input-parsers';
+import type { ProfileSourceRegistry, ProfileSource, ProfileFetchContext, SourceProfile } from './profile-sources';
+import type { RateLimiter } from './rate-limiter';
 import { CONFIG } from '../config/constants';
-import { ProfileExtractionError } from '../types/errors';
+import { JobCancelledError, ProfileExtractionError, ValidationError } from '../types/errors';
+import { abortable, sleep } from '../utils/abort';
 import { logger } from '../utils/logger';
 import { performanceMonitor } from '../utils/performance-monitor';
-import { mockProfileGenerator } from './mock-profile-generator';
+import { FairScheduler } from './fair-scheduler';
+import type { JobEventBus } from './job-events';
+import type { JobEventLog } from './job-event-log';
+import { CircuitBreaker, type CircuitTrip } from './circuit-breaker';
+import { getRetryDelay, getRetryRule, parseRetryPolicyOverrides, resolveRetryPolicy } from './retry-policy';
+import { dedupeKey, uniqueProfileIdentities } from './linkedin-url';
+import type { ExcelExporter, ExportOptions, RowOutcome } from './excel/exporter';
+import { withLocalFile, type BlobStore } from './blob-store';
+
+interface JobCounters {
+  processed: number; // profiles in a final state (success or failed)
+  successful: number;
+  failed: number;
+  retrying: number; // profiles waiting for a retry pass
+}
+
+interface JobRun {
+  job: Job;
+  source: ProfileSource;
+  context: ProfileFetchContext;
+  policy: RetryPolicy;
+  breaker: CircuitBreaker;
+  counters: JobCounters;
+  attemptsThisRun: number;
+  startTime: number;
+}
 
 interface JobData {
   jobId: number;
   userId: number;
   filePath: string;
   batchSize: number;
+  priority?: number;
+  profileSource?: string;
+  actor?: JobEventActor; // recorded on the 'queued' event; the system when omitted
 }
 
-interface ProcessingJob {
-  id: number;
-  data: JobData;
-  status: 'pending' | 'processing' | 'paused' | 'completed' | 'failed';
-  retryCount: number;
+interface RerunData {
+  parentJobId: number;
+  userId: number;
+  errorTypes?: string[]; // only rerun failures of these types; all failures when omitted
+  batchSize?: number;
+  priority?: number;
+  profileSource?: string;
 }
 
+/**
+ * Job queue backed by the `jobs` table. A job is queued by stamping `queuedAt`,
+ * and a worker owns it only while it holds an unexpired lease that it keeps
+ * alive with heartbeats. Leases left behind by a crashed or redeployed server
+ * expire and the job is claimed again, resuming from its unfinished profiles.
+ *
+ * Each server runs up to `WORKER_CONCURRENCY` jobs at once and the
+ * `FairScheduler` decides which user's job fills the next free slot.
+ */
 export class JobQueue {
   constructor(
     private storage: IStorage,
-    private excelParser: ExcelParser,
-    private aiProfileExtractor: AIProfileExtractor
+    private inputParsers: InputParserRegistry,
+    private profileSources: ProfileSourceRegistry,
+    private rateLimiter: RateLimiter,
+    private events: JobEventBus,
+    private eventLog: JobEventLog,
+    private blobs: BlobStore,
+    private exporter: ExcelExporter
   ) {}
-  private jobs: Map<number, ProcessingJob> = new Map();
-  private processing: boolean = false;
-  private currentJobId: number = 1;
+  private readonly workerId: string = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private scheduler: FairScheduler = new FairScheduler({
+    policy: CONFIG.JOB_QUEUE.SCHEDULING_POLICY,
+    maxJobsPerUser: CONFIG.JOB_QUEUE.MAX_JOBS_PER_USER,
+  });
+  private activeJobs: Map<number, Job> = new Map();
+  private runControllers: Map<number, AbortController> = new Map(); // aborted to interrupt a running job
+  private scheduling: boolean = false;
+  private rescheduleRequested: boolean = false;
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  async start(): Promise<void> {
+    const orphanedJobs = await this.storage.getClaimableJobs();
+    if (orphanedJobs.length > 0) {
+      logger.info(`Recovering ${orphanedJobs.length} orphaned job(s)`, {
+        jobIds: orphanedJobs.map(job => job.id),
+      });
+    }
+
+    if (!this.pollTimer) {
+      this.pollTimer = setInterval(() => this.poll(), CONFIG.JOB_QUEUE.POLL_INTERVAL);
+      this.pollTimer.unref();
+    }
+
+    await this.poll();
+  }
 
   async addJob(data: JobData): Promise<number> {
-    const jobId = this.currentJobId++;
-    const job: ProcessingJob = {
-      id: jobId,
-      data,
+    await this.setJobStatus({ id: data.jobId, userId: data.userId }, 'processing', {
+      batchSize: data.batchSize,
+      priority: data.priority ?? 0,
+      ...(data.profileSource && { profileSource: data.profileSource }),
+      queuedAt: new Date(),
+    });
+    await this.eventLog.record(data.jobId, 'queued', data.actor || { type: 'system' }, null, {
+      batchSize: data.batchSize,
+      priority: data.priority ?? 0,
+      profileSource: data.profileSource,
+    });
+
+    this.startProcessing();
+
+    return data.jobId;
+  }
+
+  /**
+   * Creates a child job from the parent's failed profiles and queues it.
+   * Returns null when no failed profile matches the requested error types.
+   */
+  async rerunFailedProfiles(data: RerunData): Promise<Job | null> {
+    const parent = await this.storage.getJob(data.parentJobId);
+    if (!parent) {
+      return null;
+    }
+
+    const failedProfiles = (await this.storage.getFailedProfiles(parent.id))
+      .filter(p => !data.errorTypes?.length || data.errorTypes.includes(p.errorType || 'unknown'));
+    const urls = uniqueProfileIdentities(failedProfiles.map(p => p.linkedinUrl));
+    if (urls.length === 0) {
+      return null;
+    }
+
+    const child = await this.storage.createJob({
+      userId: data.userId,
+      fileName: `${parent.fileName} (rerun)`,
+      totalProfiles: urls.length,
+      batchSize: data.batchSize || parent.batchSize || CONFIG.JOB_PROCESSING.DEFAULT_BATCH_SIZE,
+      filePath: parent.filePath,
+      priority: data.priority ?? parent.priority ?? 0,
+      profileSource: data.profileSource || parent.profileSource,
+      parentJobId: parent.id,
+    });
+
+    await this.storage.createProfiles(urls.map(identity => ({
+      ...identity,
+      jobId: child.id,
       status: 'pending',
-      retryCount: 0,
-    };
+    })));
+
+    const actor: JobEventActor = { type: 'user', id: data.userId };
+    await this.eventLog.record(child.id, 'created', actor, `Rerun of failed profiles from job #${parent.id}`, {
+      parentJobId: parent.id,
+      errorTypes: data.errorTypes,
+      totalProfiles: urls.length,
+    });
+
+    await this.addJob({
+      jobId: child.id,
+      userId: data.userId,
+      filePath: child.filePath,
+      batchSize: child.batchSize || CONFIG.JOB_PROCESSING.DEFAULT_BATCH_SIZE,
+      priority: child.priority ?? 0,
+      actor,
+    });
+
+    logger.info(`Queued rerun of ${urls.length} failed profile(s)`, { jobId: child.id, parentJobId: parent.id });
+    return child;
+  }
 
-    this.jobs.set(jobId, job);
-    
-    if (!this.processing) {
-      this.startProcessing();
+  /**
+   * Writes one results file for a job and all of its reruns. Each URL keeps
+   * the outcome of the latest job that finished it, unless an earlier job
+   * already extracted it successfully.
+   */
+  async saveCombinedResults(jobId: number): Promise<string | null> {
+    const family = await this.familyProfiles(jobId);
+    if (!family) {
+      return null;
     }
 
-    return jobId;
+    return this.exporter.saveJobResults(family.root.id, family.profiles, `job_${family.root.id}_combined_results.xlsx`);
   }
 
-  async pauseJob(jobId: number): Promise<void> {
-    const job = this.jobs.get(jobId);
+  /**
+   * Streams a job's results, or with `combined` those of the job and its
+   * reruns, as the options describe. Returns false when the job doesn't
+   * exist.
+   */
+  async writeResults(jobId: number, combined: boolean, output: Writable, options: ExportOptions): Promise<boolean> {
+    if (combined) {
+      const family = await this.familyProfiles(jobId);
+      if (!family) {
+        return false;
+      }
+      await this.exporter.exportProfiles(() => family.profiles, output, options);
+      return true;
+    }
+
+    if (!(await this.storage.getJob(jobId))) {
+      return false;
+    }
+    await this.exporter.exportProfiles(() => this.exporter.jobProfiles([jobId]), output, options);
+    return true;
+  }
+
+  /**
+   * Writes the job's uploaded file back with the extracted details appended
+   * to each row, matched to the row by person. The file is read again with
+   * the job's input mapping, so rows line up however the URLs were written.
+   * With `combined`, the outcomes are those of the combined results.
+   */
+  async saveEnrichedResults(jobId: number, combined = false): Promise<string | null> {
+    let job: Job | undefined;
+    let profiles: Profile[];
+    if (combined) {
+      const family = await this.familyProfiles(jobId);
+      job = family?.root;
+      profiles = family?.profiles || [];
+    } else {
+      job = await this.storage.getJob(jobId);
+      profiles = job ? await this.storage.getProfilesByJob(job.id) : [];
+    }
+    if (!job) {
+      return null;
+    }
+    if (!job.filePath) {
+      // Scheduled runs of a URL list
+      throw new ValidationError('the job has no uploaded file to write back to', 'file');
+    }
+
+    const inputMapping = job.inputMapping as InputMapping | null;
+    const stream = await this.inputParsers.streamBlob(this.blobs, job.filePath, { fileName: job.fileName }, {
+      sheet: inputMapping?.sheet,
+      mapping: inputMapping?.columns,
+    });
+    const mapping = stream.mapping;
+    if (!mapping) {
+      await stream.close();
+      throw new ValidationError('only spreadsheet and CSV uploads can be written back', 'file');
+    }
+
+    const byPerson = new Map(profiles.map(profile => [dedupeKey(profile.linkedinUrl), profile]));
+    const outcomes = new Map<number, RowOutcome>();
+    try {
+      for await (const chunk of stream.chunks(CONFIG.INGESTION.CHUNK_SIZE)) {
+        for (const entry of chunk.urls) {
+          const profile = byPerson.get(dedupeKey(entry.url));
+          outcomes.set(entry.rowIndex, profile ? { profile } : { status: 'skipped', error: 'Not extracted in this job' });
+        }
+        for (const row of chunk.rejected) {
+          if (row.value !== null) {
+            outcomes.set(row.rowIndex, { status: 'invalid', error: 'Not a LinkedIn profile URL' });
+          }
+        }
+      }
+    } finally {
+      await stream.close();
+    }
+
+    return this.exporter.saveEnrichedWorkbook(job, mapping, outcomes);
+  }
+
+  // The root of the job's rerun family, with the outcome that counts for each URL
+  private async familyProfiles(jobId: number): Promise<{ root: Job; profiles: Profile[] } | null> {
+    let root = await this.storage.getJob(jobId);
+    while (root?.parentJobId) {
+      root = await this.storage.getJob(root.parentJobId);
+    }
+    if (!root) {
+      return null;
+    }
+
+    const family: Job[] = [root];
+    for (let i = 0; i < family.length; i++) {
+      family.push(...(await this.storage.getChildJobs(family[i].id)));
+    }
+    family.sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+
+    // Keyed by person, since reruns store canonical URLs the parent may have written differently
+    const byPerson = new Map<string, Profile>();
+    for (const job of family) {
+      for (const profile of await this.storage.getProfilesByJob(job.id)) {
+        const key = dedupeKey(profile.linkedinUrl);
+        const existing = byPerson.get(key);
+        const finished = profile.status === 'success' || profile.status === 'failed';
+        if (!existing || (finished && existing.status !== 'success')) {
+          byPerson.set(key, profile);
+        }
+      }
+    }
+    return { root, profiles: Array.from(byPerson.values()) };
+  }
+
+  async pauseJob(
+    jobId: number,
+    reason: PauseReason = { type: 'user', message: 'Paused by user' },
+    resumeAt: Date | null = null,
+    actor: JobEventActor = { type: 'system' }
+  ): Promise<void> {
+    const job = await this.storage.getJob(jobId);
     if (job && job.status === 'processing') {
-      job.status = 'paused';
+      await this.setJobStatus(job, 'paused', {
+        pauseReason: reason,
+        resumeAt,
+      });
+      await this.eventLog.record(job.id, 'paused', actor, reason.message, {
+        pauseReason: reason,
+        resumeAt: resumeAt?.toISOString() || null,
+      });
+    }
+  }
+
+  /**
+   * Ends a queued, running or paused job as failed. Returns false when the
+   * job had already finished.
+   */
+  async stopJob(jobId: number, actor: JobEventActor = { type: 'system' }): Promise<boolean> {
+    const job = await this.storage.getJob(jobId);
+    if (!job || !['pending', 'processing', 'paused'].includes(job.status)) {
+      return false;
     }
+
+    await this.setJobStatus(job, 'failed', {
+      completedAt: new Date(),
+      queuedAt: null,
+    });
+    await this.eventLog.record(job.id, 'stopped', actor, `Stopped while ${job.status}`, {
+      processedProfiles: job.processedProfiles,
+    });
+    return true;
+  }
+
+  /**
+   * Cancels a queued, running or paused job. Requests in flight on this server
+   * are aborted straight away; a job running on another server notices on its
+   * next heartbeat. Profiles that were not finished stay pending.
+   */
+  async cancelJob(jobId: number, actor: JobEventActor = { type: 'system' }): Promise<boolean> {
+    const job = await this.storage.getJob(jobId);
+    if (!job || !['pending', 'processing', 'paused'].includes(job.status)) {
+      return false;
+    }
+
+    await this.setJobStatus(job, 'cancelled', {
+      completedAt: new Date(),
+      queuedAt: null,
+      pauseReason: null,
+      resumeAt: null,
+    });
+    this.runControllers.get(job.id)?.abort();
+    await this.eventLog.record(job.id, 'cancelled', actor, `Cancelled while ${job.status}`, {
+      processedProfiles: job.processedProfiles,
+    });
+    return true;
   }
 
-  async stopJob(jobId: number): Promise<void> {
-    const job = this.jobs.get(jobId);
-    if (job) {
-      job.status = 'failed';
+  /**
+   * Puts back a job that was cancelled when it was deleted. One that had not
+   * started is pending again; one that had is paused, for the user to resume.
+   */
+  async reinstateJob(jobId: number, previousStatus: string, actor: JobEventActor = { type: 'system' }): Promise<void> {
+    const job = await this.storage.getJob(jobId);
+    if (!job || job.status !== 'cancelled' || !['pending', 'processing', 'paused'].includes(previousStatus)) {
+      return;
+    }
+
+    if (previousStatus === 'pending') {
+      await this.setJobStatus(job, 'pending', { completedAt: null });
+      await this.eventLog.record(job.id, 'reinstated', actor, 'Pending again after being restored', {
+        status: 'pending',
+        previousStatus,
+      });
+      return;
     }
+    const pauseReason: PauseReason = { type: 'user', message: 'Restored after being deleted' };
+    await this.setJobStatus(job, 'paused', { completedAt: null, pauseReason });
+    await this.eventLog.record(job.id, 'reinstated', actor, pauseReason.message, {
+      status: 'paused',
+      previousStatus,
+    });
   }
 
-  async resumeJob(jobId: number): Promise<void> {
-    const job = this.jobs.get(jobId);
+  async resumeJob(jobId: number, actor: JobEventActor = { type: 'system' }, reason: string | null = null): Promise<void> {
+    const job = await this.storage.getJob(jobId);
     if (job && job.status === 'paused') {
-      job.status = 'pending';
-      if (!this.processing) {
-        this.startProcessing();
+      await this.setJobStatus(job, 'processing', {
+        queuedAt: job.queuedAt || new Date(),
+        pauseReason: null,
+        resumeAt: null,
+      });
+      await this.eventLog.record(job.id, 'resumed', actor, reason, {
+        pauseReason: job.pauseReason as PauseReason | null,
+      });
+      this.startProcessing();
+    }
+  }
+
+  // Resumes jobs whose circuit breaker cool-down is over, then fills free slots
+  private async poll(): Promise<void> {
+    try {
+      const dueJobs = await this.storage.getJobsToResume(new Date());
+      for (const job of dueJobs) {
+        logger.info(`Resuming job after cool-down`, { jobId: job.id, pauseReason: job.pauseReason });
+        await this.resumeJob(job.id, { type: 'system' }, 'Circuit breaker cool-down is over');
       }
+    } catch (error) {
+      logger.error('Failed to resume cooled-down jobs', error);
     }
+
+    this.startProcessing();
   }
 
   private async startProcessing(): Promise<void> {
-    if (this.processing) return;
+    if (this.scheduling) {
+      // A slot freed up while we were scheduling; run another pass afterwards
+      this.rescheduleRequested = true;
+      return;
+    }
     
-    this.processing = true;
+    this.scheduling = true;
+
+    try {
+      do {
+        this.rescheduleRequested = false;
+        await this.fillWorkerSlots();
+      } while (this.rescheduleRequested);
+    } catch (error) {
+      logger.error('Job queue scheduling failed', error);
+    } finally {
+      this.scheduling = false;
+    }
+  }
 
-    while (this.processing) {
-      const nextJob = this.getNextJob();
+  private async fillWorkerSlots(): Promise<void> {
+    while (this.activeJobs.size < CONFIG.JOB_QUEUE.WORKER_CONCURRENCY) {
+      const candidates = await this.storage.getClaimableJobs();
+      const nextJob = this.scheduler.pick(candidates, Array.from(this.activeJobs.values()));
       if (!nextJob) {
-        this.processing = false;
-        break;
+        return;
+      }
+
+      const claimed = await this.storage.claimJob(nextJob.id, this.workerId, CONFIG.JOB_QUEUE.LEASE_DURATION);
+      if (!claimed) {
+        // Another worker got there first; look at the queue again
+        continue;
       }
 
-      await this.processJob(nextJob);
+      this.activeJobs.set(claimed.id, claimed);
+      this.scheduler.markServed(claimed.userId);
+
+      this.processJob(claimed).catch(error => {
+        logger.error(`Job ${claimed.id} failed to finish processing`, error);
+      }).finally(() => {
+        this.activeJobs.delete(claimed.id);
+        this.startProcessing();
+      });
     }
   }
 
-  private getNextJob(): ProcessingJob | null {
-    for (const job of Array.from(this.jobs.values())) {
-      if (job.status === 'pending') {
-        return job;
-      }
-    }
-    return null;
+  private async isStillOwned(jobId: number): Promise<boolean> {
+    const job = await this.storage.getJob(jobId);
+    return job?.status === 'processing' && job.leaseOwner === this.workerId;
   }
 
-  private async processJob(job: ProcessingJob): Promise<void> {
-    try {
-      job.status = 'processing';
-      
-      // Update job status in storage
-      await this.storage.updateJobStatus(job.data.jobId, 'processing', {
-        startedAt: new Date(),
-      });
+  private async processJob(job: Job): Promise<void> {
+    const controller = new AbortController();
+    this.runControllers.set(job.id, controller);
 
-      // Parse LinkedIn URLs from the uploaded file
-      const linkedinUrls = await this.excelParser.parseLinkedInUrls(job.data.filePath);
-      
-      if (linkedinUrls.length === 0) {
-        throw new Error('No LinkedIn URLs found in the uploaded file');
+    const heartbeat = setInterval(async () => {
+      try {
+        const renewed = await this.storage.renewJobLease(job.id, this.workerId, CONFIG.JOB_QUEUE.LEASE_DURATION);
+        if (!renewed) {
+          logger.warn(`Lost lease on job ${job.id}`, { jobId: job.id, workerId: this.workerId });
+          controller.abort();
+        } else if ((await this.storage.getJob(job.id))?.status === 'cancelled') {
+          controller.abort(); // cancelled from another server
+        }
+      } catch (error) {
+        logger.error(`Failed to renew lease on job ${job.id}`, error);
       }
+    }, CONFIG.JOB_QUEUE.HEARTBEAT_INTERVAL);
 
-      // Create profile records
-      for (const urlData of linkedinUrls) {
-        await this.storage.createProfile({
-          jobId: job.data.jobId,
-          linkedinUrl: urlData.url,
-          status: 'pending',
+    try {
+      if (!job.startedAt) {
+        await this.storage.updateJobStatus(job.id, 'processing', {
+          startedAt: new Date(),
         });
       }
+      await this.eventLog.record(job.id, 'started', this.workerActor(),
+        job.retryPass ? `Retry pass ${job.retryPass}` :
+        job.checkpointProfileId ? `Resumed after profile #${job.checkpointProfileId}` : null);
+
+      // Profile rows are normally created at upload time; older jobs only have the file
+      let statusCounts = await this.storage.countProfilesByStatus(job.id);
+      if (Object.keys(statusCounts).length === 0) {
+        const inputMapping = job.inputMapping as InputMapping | null;
+        const { urls: linkedinUrls } = await withLocalFile(this.blobs, job.filePath, filePath =>
+          this.inputParsers.parseFile(filePath, { fileName: job.fileName }, {
+            sheet: inputMapping?.sheet,
+            mapping: inputMapping?.columns,
+          }));
+        
+        if (linkedinUrls.length === 0) {
+          throw new Error('No LinkedIn URLs found in the uploaded file');
+        }
+
+        await this.storage.createProfiles(uniqueProfileIdentities(linkedinUrls.map(urlData => urlData.url)).map(identity => ({
+          ...identity,
+          jobId: job.id,
+          status: 'pending',
+        })));
+        statusCounts = await this.storage.countProfilesByStatus(job.id);
+      }
 
-      // Get user's LinkedIn access token
-      const user = await this.storage.getUser(job.data.userId);
-      if (!user?.linkedinAccessToken) {
-        throw new Error('LinkedIn authentication required');
+      const source = this.profileSources.get(job.profileSource);
+      const user = await this.storage.getUser(job.userId);
+      if (source.requiresLinkedInAuth && !user?.linkedinAccessToken) {
+        // Wait for the user to reconnect instead of failing every profile
+        await this.pauseJob(job.id, {
+          type: 'circuit_breaker',
+          errorType: CONFIG.ERROR_TYPES.AUTH_EXPIRED,
+          message: 'LinkedIn is not connected; reconnect LinkedIn and resume the job',
+        }, null, this.workerActor());
+        return;
+      }
+      const fetchContext: ProfileFetchContext = {
+        userId: job.userId,
+        accessToken: user?.linkedinAccessToken || undefined,
+        signal: controller.signal,
+      };
+
+      // Profiles a crashed worker was in the middle of go back to where they were
+      const requeued = await this.storage.requeueInterruptedProfiles(job.id);
+      if (requeued > 0 || job.checkpointProfileId) {
+        statusCounts = await this.storage.countProfilesByStatus(job.id);
+        logger.info(`Resuming job from checkpoint`, {
+          jobId: job.id,
+          checkpointProfileId: job.checkpointProfileId,
+          requeued,
+          pending: statusCounts.pending || 0,
+        });
       }
 
-      // Process profiles in batches
-      const batchSize = job.data.batchSize;
-      let processed = 0;
-      let successful = 0;
-      let failed = 0;
-      const startTime = Date.now();
-
-      for (let i = 0; i < linkedinUrls.length; i += batchSize) {
-        // Check if job was paused or stopped
-        const currentJob = this.jobs.get(job.id);
-        if (currentJob?.status !== 'processing') {
+      const run: JobRun = {
+        job,
+        source,
+        context: fetchContext,
+        policy: await this.loadRetryPolicy(job.id),
+        breaker: new CircuitBreaker(),
+        counters: this.countersFrom(statusCounts),
+        attemptsThisRun: 0,
+        startTime: Date.now(),
+      };
+
+      // Main pass: pages through pending profiles by id, committing each batch
+      // as a checkpoint so a resumed job starts after the last committed batch
+      const batchSize = job.batchSize || CONFIG.JOB_PROCESSING.DEFAULT_BATCH_SIZE;
+      let cursor = job.checkpointProfileId || 0;
+
+      while (true) {
+        const batch = await this.storage.getProfilesAfter(job.id, cursor, ['pending'], batchSize);
+        if (batch.length === 0) {
+          break;
+        }
+        run.policy = await this.loadRetryPolicy(job.id); // pick up edits made while the job runs
+
+        const completed = await this.processBatch(run, batch, 0);
+        if (!completed) {
           return;
         }
 
-        const batch = linkedinUrls.slice(i, i + batchSize);
-        
-        for (const urlData of batch) {
-          try {
-            const profile = await this.extractProfileWithRetry(
-              user.linkedinAccessToken,
-              urlData.url,
-              3 // max retries
-            );
-
-            // Update profile record
-            const profiles = await this.storage.getProfilesByJob(job.data.jobId);
-            const profileRecord = profiles.find(p => p.linkedinUrl === urlData.url);
-            
-            if (profileRecord) {
-              await this.storage.updateProfileStatus(profileRecord.id, 'success', {
-                profileData: profile,
-                extractedAt: new Date(),
-                retryCount: profileRecord.retryCount || 0,
-              });
-            }
-
-            successful++;
-          } catch (error) {
-            const profiles = await this.storage.getProfilesByJob(job.data.jobId);
-            const profileRecord = profiles.find(p => p.linkedinUrl === urlData.url);
-            
-            if (profileRecord) {
-              const errorType = this.categorizeError(error);
-              const retryCount = (profileRecord.retryCount || 0) + 1;
-              
-              // Determine if profile should be retried
-              const shouldRetry = retryCount < 3 && 
-                                errorType !== CONFIG.ERROR_TYPES.NOT_FOUND &&
-                                errorType !== CONFIG.ERROR_TYPES.ACCESS_RESTRICTED;
-              
-              await this.storage.updateProfileStatus(profileRecord.id, shouldRetry ? 'retrying' : 'failed', {
-                errorType,
-                errorMessage: error instanceof Error ? error.message : 'Unknown error',
-                lastAttempt: new Date(),
-                retryCount,
-              });
-            }
-
-            failed++;
+        cursor = batch[batch.length - 1].id;
+        await this.storage.updateJobProgress(job.id, {
+          checkpointProfileId: cursor,
+          checkpointAt: new Date(),
+        });
+
+        // Longer delay between batches
+        await sleep(CONFIG.JOB_PROCESSING.BATCH_DELAY, controller.signal);
+      }
+
+      // Retry passes: profiles that failed with a retryable error get another
+      // attempt after a growing delay, until they succeed or run out of retries.
+      // The job gives up its worker slot while it waits and is claimed again
+      // once the delay is over, running one pass per claim.
+      if (job.retryPass) {
+        // Profiles that land in 'retrying' again sit behind the cursor until the next pass
+        let passCursor = 0;
+        while (true) {
+          const batch = await this.storage.getProfilesAfter(job.id, passCursor, ['retrying'], batchSize);
+          if (batch.length === 0) {
+            break;
           }
 
-          processed++;
-          
-          // Update job progress
-          const elapsed = Date.now() - startTime;
-          const rate = (processed / (elapsed / 1000 / 60)).toFixed(1); // profiles per minute
-          const remaining = linkedinUrls.length - processed;
-          const eta = remaining > 0 ? new Date(Date.now() + (remaining / parseFloat(rate)) * 60 * 1000) : null;
-
-          await this.storage.updateJobStatus(job.data.jobId, 'processing', {
-            processedProfiles: processed,
-            successfulProfiles: successful,
-            failedProfiles: failed,
-            processingRate: `${rate} profiles/min`,
-            estimatedCompletion: eta,
-          });
-
-          // Rate limiting - wait between requests
-          await this.delay(CONFIG.JOB_PROCESSING.RATE_LIMIT_DELAY);
+          const completed = await this.processBatch(run, batch, job.retryPass);
+          if (!completed) {
+            return;
+          }
+          passCursor = batch[batch.length - 1].id;
         }
-
-        // Longer delay between batches
-        await this.delay(CONFIG.JOB_PROCESSING.BATCH_DELAY);
       }
 
-      // Job completed
-      job.status = 'completed';
-      
-      // Generate results file
-      const profiles = await this.storage.getProfilesByJob(job.data.jobId);
-      const processedProfiles = profiles.map(p => {
-        let profileData;
-        try {
-          profileData = p.profileData ? 
-            (typeof p.profileData === 'string' ? JSON.parse(p.profileData) : p.profileData) : 
-            undefined;
-        } catch (parseError) {
-          logger.error('Failed to parse profile data:', parseError);
-          profileData = undefined;
+      const retryingCount = (await this.storage.countProfilesByStatus(job.id)).retrying || 0;
+      if (retryingCount > 0) {
+        const pass = (job.retryPass || 0) + 1;
+        const backoff = Math.min(
+          CONFIG.JOB_PROCESSING.RETRY_PASS_DELAY * 2 ** (pass - 1),
+          CONFIG.JOB_PROCESSING.MAX_RETRY_PASS_DELAY
+        );
+        if (await this.isStillOwned(job.id)) {
+          logger.info(`Retry pass ${pass}: ${retryingCount} profile(s) in ${backoff}ms`, { jobId: job.id });
+          await this.storage.updateJobProgress(job.id, { retryPass: pass, retryAt: new Date(Date.now() + backoff) });
         }
-        
-        return {
-          url: p.linkedinUrl,
-          status: p.status as 'success' | 'failed',
-          data: profileData,
-          error: p.errorMessage || undefined,
-          errorType: p.errorType || undefined,
-        };
-      });
+        return;
+      }
 
-      // Need to create exporter instance here
-      const { ExcelExporter } = await import('./excel/exporter');
-      const exporter = new ExcelExporter();
-      const resultPath = await exporter.saveJobResults(job.data.jobId, processedProfiles);
+      if (!(await this.isStillOwned(job.id))) {
+        return;
+      }
 
-      await this.storage.updateJobStatus(job.data.jobId, 'completed', {
+      // Generate results file
+      const resultPath = await this.exporter.saveJobResults(job.id, this.exporter.jobProfiles([job.id]));
+
+      await this.setJobStatus(job, 'completed', {
         completedAt: new Date(),
+        queuedAt: null,
+        retryAt: null,
+        resultPath,
+      });
+      await this.eventLog.record(job.id, 'completed', this.workerActor(), null, {
+        successfulProfiles: run.counters.successful,
+        failedProfiles: run.counters.failed,
         resultPath,
       });
-
-      // Clean up completed job from memory to prevent memory leaks
-      this.jobs.delete(job.id);
 
     } catch (error) {
-      job.status = 'failed';
-      await this.storage.updateJobStatus(job.data.jobId, 'failed', {
+      if (error instanceof JobCancelledError || controller.signal.aborted) {
+        logger.info(`Stopped work on job ${job.id}`, { jobId: job.id, workerId: this.workerId });
+        return;
+      }
+
+      logger.error(`Job ${job.id} failed`, error);
+      await this.setJobStatus(job, 'failed', {
         completedAt: new Date(),
+        queuedAt: null,
       });
+      await this.eventLog.record(job.id, 'failed', this.workerActor(),
+        error instanceof Error ? error.message : 'Unknown error',
+        error instanceof Error && error.stack ? { stack: error.stack } : undefined);
+    } finally {
+      clearInterval(heartbeat);
+      this.runControllers.delete(job.id);
+      await this.storage.releaseJobLease(job.id, this.workerId);
+    }
+  }
+
+  /**
+   * Runs one batch and commits its results in bulk. Returns false when the
+   * job was paused, stopped or lost to another worker part way through; the
+   * results gathered so far are still committed. `pass` is 0 for the main
+   * pass and counts retry passes after that.
+   */
+  private async processBatch(run: JobRun, batch: Profile[], pass: number): Promise<boolean> {
+    const fromStatuses = Array.from(new Set(batch.map(p => p.status)));
+    const claimedIds = new Set(
+      await this.storage.transitionProfiles(batch.map(p => p.id), fromStatuses, 'processing')
+    );
+
+    const updates: ProfileUpdate[] = [];
+    let pause: CircuitTrip | null = null;
+    let completed = true;
+
+    for (const profileRecord of batch) {
+      if (!claimedIds.has(profileRecord.id)) {
+        continue; // already moved on by someone else
+      }
+
+      // Stop if the job was paused, stopped or claimed by another worker
+      if (!(await this.isStillOwned(run.job.id))) {
+        completed = false;
+        break;
+      }
+
+      const result = await this.processProfile(run, profileRecord);
+      updates.push(result.update);
+      if (result.pause) {
+        pause = result.pause;
+        completed = false;
+        break;
+      }
+    }
+
+    // Profiles that were claimed but not reached go back to where they were
+    const reached = new Set(updates.map(update => update.id));
+    for (const profileRecord of batch) {
+      if (claimedIds.has(profileRecord.id) && !reached.has(profileRecord.id)) {
+        updates.push({ id: profileRecord.id, status: profileRecord.status });
+      }
+    }
+
+    await this.commitBatch(run, updates);
+    await this.eventLog.record(run.job.id, 'batch_finished', this.workerActor(), null, {
+      pass,
+      profiles: updates.filter(update => reached.has(update.id)).length,
+      lastProfileId: batch[batch.length - 1].id,
+      processedProfiles: run.counters.processed,
+      successfulProfiles: run.counters.successful,
+      failedProfiles: run.counters.failed,
+      retryingProfiles: run.counters.retrying,
+    });
+
+    if (pause) {
+      logger.warn(pause.reason.message, { jobId: run.job.id, resumeAt: pause.resumeAt });
+      if (pause.reason.type === 'circuit_breaker') {
+        await this.eventLog.record(run.job.id, 'circuit_tripped', this.workerActor(), pause.reason.message, {
+          errorType: pause.reason.errorType,
+          failures: pause.reason.failures,
+        });
+      }
+      await this.pauseJob(run.job.id, pause.reason, pause.resumeAt, this.workerActor());
+    }
+
+    return completed;
+  }
+
+  private async processProfile(
+    run: JobRun,
+    profileRecord: Profile
+  ): Promise<{ update: ProfileUpdate; pause: CircuitTrip | null }> {
+    const { counters } = run;
+    const previousRetries = profileRecord.retryCount || 0;
+    let update: ProfileUpdate;
+    let pause: CircuitTrip | null = null;
+
+    // A profile coming back for a retry pass is already counted as retrying
+    if (profileRecord.status === 'retrying') {
+      counters.retrying = Math.max(counters.retrying - 1, 0);
+    }
+
+    try {
+      const profile = await this.extractProfileWithRetry(
+        run.source,
+        run.context,
+        profileRecord.linkedinUrl,
+        run.policy
+      );
+
+      update = {
+        id: profileRecord.id,
+        status: 'success',
+        data: {
+          profileData: profile,
+          extractedAt: new Date(),
+          retryCount: previousRetries,
+        },
+      };
+
+      counters.successful++;
+      counters.processed++;
+      run.breaker.recordSuccess();
+    } catch (error) {
+      if (run.context.signal?.aborted) {
+        // Interrupted, not failed: the profile goes back to where it was
+        return { update: { id: profileRecord.id, status: profileRecord.status }, pause: null };
+      }
+
+      const errorType = this.categorizeError(error);
+      const rule = getRetryRule(run.policy, errorType);
+      const retryCount = previousRetries + 1;
       
-      // Clean up failed job from memory to prevent memory leaks
-      this.jobs.delete(job.id);
+      // Determine if profile should be retried in a later pass
+      const shouldRetry = retryCount <= rule.maxRetryPasses;
+      
+      update = {
+        id: profileRecord.id,
+        status: shouldRetry ? 'retrying' : 'failed',
+        data: {
+          errorType,
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          lastAttempt: new Date(),
+          retryCount,
+        },
+      };
+
+      if (shouldRetry) {
+        counters.retrying++;
+      } else {
+        counters.failed++;
+        counters.processed++;
+      }
+
+      pause = run.breaker.recordFailure(errorType);
+      if (!pause && rule.pauseJob) {
+        pause = {
+          reason: { type: 'retry_policy', errorType, message: `Paused after a ${errorType} error` },
+          resumeAt: null,
+        };
+      }
+    }
+
+    this.events.publish(run.job.userId, {
+      type: 'profile.finished',
+      jobId: run.job.id,
+      profileId: profileRecord.id,
+      linkedinUrl: profileRecord.linkedinUrl,
+      status: update.status as 'success' | 'failed' | 'retrying',
+      errorType: update.data?.errorType || null,
+    });
+
+    run.attemptsThisRun++;
+    this.publishProgress(run);
+
+    return { update, pause };
+  }
+
+  // Writes a batch of results; profiles another worker already finished are left alone
+  private async commitBatch(run: JobRun, updates: ProfileUpdate[]): Promise<void> {
+    const applied = await this.storage.updateProfilesBulk(updates, ['processing']);
+    if (applied.length < updates.length) {
+      logger.warn(`Skipped ${updates.length - applied.length} profile update(s) already made elsewhere`, {
+        jobId: run.job.id,
+      });
     }
+
+    // Counters are recounted from the profile rows so they stay exact across restarts
+    run.counters = this.countersFrom(await this.storage.countProfilesByStatus(run.job.id));
+    const { rate, eta } = this.estimateProgress(run);
+
+    await this.storage.updateJobProgress(run.job.id, {
+      processedProfiles: run.counters.processed,
+      successfulProfiles: run.counters.successful,
+      failedProfiles: run.counters.failed,
+      retryingProfiles: run.counters.retrying,
+      processingRate: `${rate} profiles/min`,
+      estimatedCompletion: eta,
+    });
+  }
+
+  private publishProgress(run: JobRun): void {
+    const { job, counters } = run;
+    const { rate, eta } = this.estimateProgress(run);
+
+    this.events.publish(job.userId, {
+      type: 'job.progress',
+      jobId: job.id,
+      totalProfiles: job.totalProfiles,
+      processedProfiles: counters.processed,
+      successfulProfiles: counters.successful,
+      failedProfiles: counters.failed,
+      retryingProfiles: counters.retrying,
+      processingRate: `${rate} profiles/min`,
+      estimatedCompletion: eta?.toISOString() || null,
+    });
+  }
+
+  private estimateProgress(run: JobRun): { rate: string; eta: Date | null } {
+    const elapsed = Date.now() - run.startTime;
+    const rate = (run.attemptsThisRun / (elapsed / 1000 / 60)).toFixed(1); // profiles per minute
+    const remaining = run.job.totalProfiles - run.counters.processed;
+    const eta = remaining > 0 && parseFloat(rate) > 0 ?
+      new Date(Date.now() + (remaining / parseFloat(rate)) * 60 * 1000) :
+      null;
+    return { rate, eta };
+  }
+
+  private countersFrom(statusCounts: Record<string, number>): JobCounters {
+    const successful = statusCounts.success || 0;
+    const failed = statusCounts.failed || 0;
+    return {
+      processed: successful + failed,
+      successful,
+      failed,
+      retrying: statusCounts.retrying || 0,
+    };
+  }
+
+  private workerActor(): JobEventActor {
+    return { type: 'worker', id: this.workerId };
+  }
+
+  private async setJobStatus(
+    job: Pick<Job, 'id' | 'userId'>,
+    status: string,
+    data: Partial<Job> = {}
+  ): Promise<void> {
+    await this.storage.updateJobStatus(job.id, status, data);
+    this.events.publish(job.userId, {
+      type: 'job.status',
+      jobId: job.id,
+      status,
+      pauseReason: (data.pauseReason as PauseReason | null | undefined) || null,
+      resumeAt: data.resumeAt?.toISOString() || null,
+    });
   }
 
   private async extractProfileWithRetry(
-    accessToken: string, 
+    source: ProfileSource,
+    context: ProfileFetchContext,
     profileUrl: string, 
-    maxRetries: number
-  ): Promise<any> {
-    let retryCount = 0;
-    let delay = 1000; // Start with 1 second
-
-    while (retryCount < maxRetries) {
+    policy: RetryPolicy
+  ): Promise<SourceProfile> {
+    for (let attempt = 1; ; attempt++) {
       try {
-        // Simulate realistic API delay
-        await this.delay(1500 + Math.random() * 1000);
-        
-        // Simulate 95% success rate for realistic behavior
-        const shouldSucceed = Math.random() < 0.95;
-        
-        if (shouldSucceed) {
-          // Use mock profile generator for realistic data
-          const extractedProfile = mockProfileGenerator.generateProfileFromUrl(profileUrl);
-          
-          // Convert to LinkedIn profile format for compatibility
-          return {
-            id: profileUrl.split('/').pop() || 'unknown',
-            firstName: extractedProfile.firstName,
-            lastName: extractedProfile.lastName,
-            headline: extractedProfile.headline,
-          summary: extractedProfile.summary,
-          industry: extractedProfile.industry,
-          location: extractedProfile.location,
-          publicProfileUrl: profileUrl,
-          positions: extractedProfile.experience.map(exp => ({
-            title: exp.title,
-            company: exp.company,
-            startDate: exp.duration.split('-')[0] || '',
-            endDate: exp.duration.split('-')[1] || undefined,
-            description: exp.description
-          })),
-          education: extractedProfile.education.map(edu => ({
-            school: edu.school,
-            degree: edu.degree,
-            fieldOfStudy: edu.field,
-            startDate: edu.year,
-            endDate: edu.year
-          })),
-          skills: extractedProfile.skills,
-          currentPosition: extractedProfile.currentPosition,
-          currentCompany: extractedProfile.currentCompany,
-          email: extractedProfile.email,
-          phone: extractedProfile.phone,
-          connections: extractedProfile.connections,
-          profilePicture: extractedProfile.profilePicture
-        };
-        } else {
-          // Simulate various LinkedIn API errors
-          const errorTypes = ['rate_limit', 'profile_not_found', 'access_restricted', 'captcha_required'];
-          const errorType = errorTypes[Math.floor(Math.random() * errorTypes.length)];
-          throw new Error(`Simulated LinkedIn API error: ${errorType}`);
-        }
+        return await this.fetchFromSource(source, context, profileUrl);
       } catch (error) {
-        const errorType = this.categorizeError(error);
+        const rule = getRetryRule(policy, this.categorizeError(error));
         
-        // Don't retry for certain error types
-        if (errorType === CONFIG.ERROR_TYPES.ACCESS_RESTRICTED || errorType === CONFIG.ERROR_TYPES.NOT_FOUND) {
-          throw error;
-        }
-
-        retryCount++;
-        if (retryCount >= maxRetries) {
+        // Errors that pause the job are not worth another attempt right away
+        if (attempt >= rule.maxAttempts || rule.pauseJob || context.signal?.aborted) {
           throw error;
         }
 
-        // Exponential backoff for retries
-        await this.delay(delay);
-        delay *= 2;
+        await sleep(getRetryDelay(rule, attempt), context.signal);
       }
     }
+  }
+
+  private async loadRetryPolicy(jobId: number): Promise<RetryPolicy> {
+    const job = await this.storage.getJob(jobId);
+    const user = job ? await this.storage.getUser(job.userId) : undefined;
+    return resolveRetryPolicy(
+      parseRetryPolicyOverrides(user?.retryPolicy),
+      parseRetryPolicyOverrides(job?.retryPolicy)
+    );
+  }
+
+  private async fetchFromSource(
+    source: ProfileSource,
+    context: ProfileFetchContext,
+    profileUrl: string
+  ): Promise<SourceProfile> {
+    if (!source.rateLimitProvider) {
+      return abortable(source.fetchProfile(profileUrl, context), context.signal);
+    }
 
-    throw new Error('Max retries exceeded');
+    // Every attempt draws from the shared bucket for this provider and credential.
+    // Waiting for a token is abandoned too when the job is cancelled.
+    return abortable(this.rateLimiter.schedule(
+      {
+        provider: source.rateLimitProvider,
+        credential: source.rateLimitCredential?.(context) || source.name,
+        userId: context.userId,
+      },
+      () => source.fetchProfile(profileUrl, context)
+    ), context.signal);
   }
 
   private categorizeError(error: unknown): string {
@@ -349,20 +960,18 @@ export class JobQueue {
       
       if (message.includes('captcha') || message.includes('challenge')) {
         return CONFIG.ERROR_TYPES.CAPTCHA;
-      } else if (message.includes('not found') || message.includes('404')) {
+      } else if (message.includes('not found') || message.includes('not_found') || message.includes('404')) {
         return CONFIG.ERROR_TYPES.NOT_FOUND;
+      } else if (message.includes('token_expired') || message.includes('401')) {
+        return CONFIG.ERROR_TYPES.AUTH_EXPIRED;
       } else if (message.includes('restricted') || message.includes('403') || message.includes('unauthorized')) {
         return CONFIG.ERROR_TYPES.ACCESS_RESTRICTED;
-      } else if (message.includes('rate limit') || message.includes('429')) {
+      } else if (message.includes('rate limit') || message.includes('rate_limit') || message.includes('429')) {
         return CONFIG.ERROR_TYPES.RATE_LIMIT;
       }
     }
     
-    return 'unknown';
-  }
-
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return CONFIG.ERROR_TYPES.UNKNOWN;
   }
 }
 
@@ -0,0 +1,184 @@
+import type { Job, JobEventActor, JobSchedule } from '@shared/schema';
+import type { IStorage } from '../storage';
+import type { JobQueue } from './job-queue';
+import type { JobEventLog } from './job-event-log';
+import { CONFIG } from '../config/constants';
+import { logger } from '../utils/logger';
+import { nextCronRun, upcomingCronRuns } from './cron';
+import { uniqueProfileIdentities, type ProfileIdentity } from './linkedin-url';
+
+export interface UpcomingRun {
+  scheduleId: number;
+  name: string;
+  targetType: string;
+  runAt: Date;
+}
+
+/**
+ * Next time a schedule should run after `after`: the next cron match for a
+ * recurring schedule, or its one-off time if that is still ahead.
+ */
+export function nextScheduleRun(schedule: Pick<JobSchedule, 'runAt' | 'cron'>, after: Date): Date | null {
+  if (schedule.cron) {
+    return nextCronRun(schedule.cron, after);
+  }
+  return schedule.runAt && schedule.runAt > after ? schedule.runAt : null;
+}
+
+/**
+ * Starts jobs from the `job_schedules` table. Every server polls for due
+ * schedules, and a run is claimed by moving `nextRunAt` on with a conditional
+ * update, so each run starts exactly once however many servers are polling.
+ * Runs missed while no server was up start once on the next poll rather than
+ * once per missed occurrence.
+ */
+export class JobScheduler {
+  constructor(
+    private storage: IStorage,
+    private jobQueue: JobQueue,
+    private eventLog: JobEventLog
+  ) {}
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  async start(): Promise<void> {
+    if (!this.pollTimer) {
+      this.pollTimer = setInterval(() => this.poll(), CONFIG.SCHEDULER.POLL_INTERVAL);
+      this.pollTimer.unref();
+    }
+
+    await this.poll();
+  }
+
+  /**
+   * Upcoming runs across the user's enabled schedules, soonest first. A run
+   * that is already due is listed until the next poll starts it.
+   */
+  async getUpcomingRuns(userId: number, limit: number): Promise<UpcomingRun[]> {
+    const runs: UpcomingRun[] = [];
+
+    for (const schedule of await this.storage.getJobSchedulesByUser(userId)) {
+      if (!schedule.enabled || !schedule.nextRunAt) {
+        continue;
+      }
+
+      const times = schedule.cron ?
+        [schedule.nextRunAt, ...upcomingCronRuns(schedule.cron, schedule.nextRunAt, limit - 1)] :
+        [schedule.nextRunAt];
+      for (const runAt of times) {
+        runs.push({ scheduleId: schedule.id, name: schedule.name, targetType: schedule.targetType, runAt });
+      }
+    }
+
+    return runs
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+      .slice(0, limit);
+  }
+
+  /**
+   * Starts a run straight away without moving the schedule's next run.
+   */
+  async runNow(schedule: JobSchedule): Promise<Job | null> {
+    await this.storage.updateJobSchedule(schedule.id, { lastRunAt: new Date() });
+    return this.startRun(schedule);
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      const now = new Date();
+      for (const schedule of await this.storage.getDueJobSchedules(now)) {
+        let nextRunAt: Date | null;
+        try {
+          nextRunAt = schedule.cron ? nextCronRun(schedule.cron, now) : null;
+        } catch (error) {
+          // Saved expressions are validated, so this only happens to rows edited by hand
+          await this.storage.updateJobSchedule(schedule.id, {
+            enabled: false,
+            lastError: error instanceof Error ? error.message : 'Invalid cron expression',
+          });
+          continue;
+        }
+
+        const claimed = await this.storage.claimJobScheduleRun(schedule.id, schedule.nextRunAt!, {
+          nextRunAt,
+          lastRunAt: now,
+        });
+        if (!claimed) {
+          continue; // another server started this run
+        }
+
+        await this.startRun(claimed);
+      }
+    } catch (error) {
+      logger.error('Failed to start scheduled jobs', error);
+    }
+  }
+
+  private async startRun(schedule: JobSchedule): Promise<Job | null> {
+    try {
+      const sourceJob = schedule.sourceJobId ? await this.storage.getJob(schedule.sourceJobId) : undefined;
+      const urls = await this.resolveUrls(schedule, sourceJob);
+      if (urls.length === 0) {
+        await this.storage.updateJobSchedule(schedule.id, { lastError: 'No LinkedIn URLs to run' });
+        return null;
+      }
+
+      const job = await this.storage.createJob({
+        userId: schedule.userId,
+        fileName: schedule.name,
+        totalProfiles: urls.length,
+        batchSize: schedule.batchSize || CONFIG.JOB_PROCESSING.DEFAULT_BATCH_SIZE,
+        filePath: sourceJob?.filePath || '', // url_list schedules have no source file
+        priority: schedule.priority ?? 0,
+        profileSource: schedule.profileSource || sourceJob?.profileSource || CONFIG.PROFILE_SOURCES.DEFAULT,
+        scheduleId: schedule.id,
+      });
+
+      await this.storage.createProfiles(urls.map(identity => ({
+        ...identity,
+        jobId: job.id,
+        status: 'pending',
+      })));
+
+      const actor: JobEventActor = { type: 'scheduler', id: schedule.id };
+      await this.eventLog.record(job.id, 'created', actor, `Scheduled run of "${schedule.name}"`, {
+        scheduleId: schedule.id,
+        targetType: schedule.targetType,
+        sourceJobId: schedule.sourceJobId,
+        totalProfiles: urls.length,
+      });
+
+      await this.jobQueue.addJob({
+        jobId: job.id,
+        userId: job.userId,
+        filePath: job.filePath,
+        batchSize: job.batchSize || CONFIG.JOB_PROCESSING.DEFAULT_BATCH_SIZE,
+        priority: job.priority ?? 0,
+        profileSource: job.profileSource || undefined,
+        actor,
+      });
+
+      await this.storage.updateJobSchedule(schedule.id, { lastJobId: job.id, lastError: null });
+      logger.info(`Started scheduled job`, { jobId: job.id, scheduleId: schedule.id, profiles: urls.length });
+      return job;
+    } catch (error) {
+      logger.error(`Scheduled run ${schedule.id} failed to start`, error);
+      await this.storage.updateJobSchedule(schedule.id, {
+        lastError: error instanceof Error ? error.message : 'Failed to start scheduled job',
+      });
+      return null;
+    }
+  }
+
+  // Scheduled runs are refreshes, so the user's dedupe policy doesn't apply to them
+  private async resolveUrls(schedule: JobSchedule, sourceJob: Job | undefined): Promise<ProfileIdentity[]> {
+    if (schedule.targetType === 'job') {
+      if (!sourceJob || sourceJob.deletedAt) {
+        throw new Error(`Source job ${schedule.sourceJobId} no longer exists`);
+      }
+      const profiles = await this.storage.getProfilesByJob(sourceJob.id);
+      return uniqueProfileIdentities(profiles.map(profile => profile.linkedinUrl));
+    }
+
+    return uniqueProfileIdentities(Array.isArray(schedule.urls) ? schedule.urls as string[] : []);
+  }
+}
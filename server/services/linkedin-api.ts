@@ -1,10 +1,13 @@
+import { rateLimiter } from './rate-limiter';
+import { canonicalizeLinkedInUrl } from './linkedin-url';
+
 interface LinkedInTokens {
   accessToken: string;
   refreshToken: string;
   expiresIn: number;
 }
 
-interface LinkedInProfile {
+export interface LinkedInProfile {
   id: string;
   firstName: string;
   lastName: string;
@@ -113,7 +116,7 @@ export class LinkedInService {
     };
   }
 
-  async getProfile(accessToken: string, profileUrl: string): Promise<LinkedInProfile> {
+  async getProfile(accessToken: string, profileUrl: string, signal?: AbortSignal): Promise<LinkedInProfile> {
     // Extract LinkedIn ID from URL
     const linkedinId = this.extractLinkedInId(profileUrl);
     if (!linkedinId) {
@@ -130,6 +133,7 @@ export class LinkedInService {
           'Connection': 'Keep-Alive',
           'X-Restli-Protocol-Version': '2.0.0',
         },
+        signal,
       });
 
       if (!profileResponse.ok) {
@@ -153,6 +157,7 @@ export class LinkedInService {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
         },
+        signal,
       });
 
       let positions = [];
@@ -166,6 +171,7 @@ export class LinkedInService {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
         },
+        signal,
       });
 
       let education = [];
@@ -208,20 +214,8 @@ export class LinkedInService {
   }
 
   private extractLinkedInId(profileUrl: string): string | null {
-    // Extract LinkedIn ID from various URL formats
-    const patterns = [
-      /linkedin\.com\/in\/([^\/\?]+)/,
-      /linkedin\.com\/pub\/[^\/]+\/[^\/]+\/[^\/]+\/([^\/\?]+)/,
-    ];
-
-    for (const pattern of patterns) {
-      const match = profileUrl.match(pattern);
-      if (match) {
-        return match[1];
-      }
-    }
-
-    return null;
+    // Subdomains, query strings and old /pub/ URLs all resolve to the vanity name
+    return canonicalizeLinkedInUrl(profileUrl)?.publicId ?? null;
   }
 
   private generateRandomState(): string {
@@ -229,31 +223,33 @@ export class LinkedInService {
            Math.random().toString(36).substring(2, 15);
   }
 
-  async withRateLimit<T>(fn: () => Promise<T>): Promise<T> {
+  /**
+   * Routes a LinkedIn call through the shared rate limiter for the given
+   * credential, retrying with backoff when LinkedIn answers with a 429.
+   */
+  async withRateLimit<T>(accessToken: string, fn: () => Promise<T>, userId?: number): Promise<T> {
     const maxRetries = 3;
     let retryCount = 0;
     let delay = 1000; // Start with 1 second
 
-    while (retryCount < maxRetries) {
+    while (true) {
       try {
-        return await fn();
+        return await rateLimiter.schedule({ provider: 'linkedin', credential: accessToken, userId }, fn);
       } catch (error) {
-        if (error instanceof Error && error.message === 'rate_limit') {
-          retryCount++;
-          if (retryCount >= maxRetries) {
-            throw new Error('Rate limit exceeded, max retries reached');
-          }
-          
-          // Exponential backoff
-          await this.delay(delay);
-          delay *= 2;
-        } else {
+        if (!rateLimiter.isThrottleError(error)) {
           throw error;
         }
+
+        retryCount++;
+        if (retryCount >= maxRetries) {
+          throw new Error('Rate limit exceeded, max retries reached');
+        }
+        
+        // Exponential backoff
+        await this.delay(delay);
+        delay *= 2;
       }
     }
-
-    throw new Error('Unexpected error in rate limit handler');
   }
 
   private delay(ms: number): Promise<void> {
@@ -0,0 +1,105 @@
+export interface CanonicalLinkedInUrl {
+  url: string; // https://www.linkedin.com/in/<publicId>
+  publicId: string; // lower-cased vanity name
+}
+
+// The identity a profile row is stored and deduplicated by
+export interface ProfileIdentity {
+  linkedinUrl: string; // as submitted, kept for writing results back to the source
+  canonicalUrl: string | null;
+  publicId: string | null; // null when the URL isn't a recognizable profile URL
+}
+
+const LINKEDIN_HOST = /(^|\.)linkedin\.com$/i;
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment; // stray % in a hand-typed URL
+  }
+}
+
+/**
+ * Old `/pub/<name>/<a>/<b>/<c>` URLs carry the hex suffix of the `/in/` vanity
+ * name in three-character groups, last group first, with leading zeros of the
+ * full groups dropped: `/pub/jane-doe/31a/52b/4c` is `/in/jane-doe-4c52b31a`.
+ */
+function publicIdFromPub(segments: string[]): string | null {
+  const [name, ...groups] = segments;
+  if (!name || groups.length !== 3 || !groups.every(group => /^[0-9a-f]{1,3}$/i.test(group))) {
+    return null;
+  }
+  const [last, middle, first] = groups;
+  return `${name}-${first}${middle.padStart(3, '0')}${last.padStart(3, '0')}`;
+}
+
+/**
+ * Canonical form of a LinkedIn profile URL. Country and mobile subdomains,
+ * a missing scheme, query strings, fragments, trailing slashes, sub-pages such
+ * as `/details/experience` and letter case all map to the same URL, and old
+ * `/pub/` URLs map to their `/in/` equivalent. Returns null for anything that
+ * isn't a member profile, such as company pages.
+ */
+export function canonicalizeLinkedInUrl(raw: string): CanonicalLinkedInUrl | null {
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return null;
+  }
+  if (!LINKEDIN_HOST.test(parsed.hostname)) {
+    return null;
+  }
+
+  const segments = parsed.pathname.split('/').filter(Boolean).map(decodeSegment);
+  let publicId: string | null = null;
+  if (segments[0]?.toLowerCase() === 'in' && segments[1]) {
+    publicId = segments[1];
+  } else if (segments[0]?.toLowerCase() === 'pub') {
+    publicId = publicIdFromPub(segments.slice(1, 5));
+  }
+  if (!publicId) {
+    return null;
+  }
+
+  publicId = publicId.toLowerCase();
+  return {
+    url: `https://www.linkedin.com/in/${encodeURIComponent(publicId)}`,
+    publicId,
+  };
+}
+
+export function profileIdentity(linkedinUrl: string): ProfileIdentity {
+  const canonical = canonicalizeLinkedInUrl(linkedinUrl);
+  return {
+    linkedinUrl,
+    canonicalUrl: canonical?.url ?? null,
+    publicId: canonical?.publicId ?? null,
+  };
+}
+
+// Same person, same key; URLs that can't be canonicalized only match themselves
+export function dedupeKey(linkedinUrl: string): string {
+  return canonicalizeLinkedInUrl(linkedinUrl)?.publicId ?? linkedinUrl.trim();
+}
+
+/**
+ * One identity per person, keeping the first URL seen for each.
+ */
+export function uniqueProfileIdentities(linkedinUrls: string[]): ProfileIdentity[] {
+  const seen = new Map<string, ProfileIdentity>();
+  for (const linkedinUrl of linkedinUrls) {
+    const identity = profileIdentity(linkedinUrl);
+    const key = identity.publicId ?? linkedinUrl.trim();
+    if (!seen.has(key)) {
+      seen.set(key, identity);
+    }
+  }
+  return Array.from(seen.values());
+}
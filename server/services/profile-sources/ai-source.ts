@@ -0,0 +1,21 @@
+import type { AIProfileExtractor } from '../ai-profile-extractor';
+import type { ProfileFetchContext, ProfileSource, SourceProfile } from './types';
+import { fromExtractedProfile } from './normalize';
+
+export class AIProfileSource implements ProfileSource {
+  readonly name = 'ai' as const;
+  readonly label = 'AI extractor';
+  readonly requiresLinkedInAuth = false;
+  readonly rateLimitProvider = 'openai' as const;
+
+  constructor(private aiProfileExtractor: AIProfileExtractor) {}
+
+  rateLimitCredential(): string {
+    return process.env.OPENAI_API_KEY || 'openai';
+  }
+
+  async fetchProfile(profileUrl: string, context: ProfileFetchContext): Promise<SourceProfile> {
+    const extracted = await this.aiProfileExtractor.extractProfileFromURL(profileUrl, context.signal);
+    return fromExtractedProfile(profileUrl, extracted);
+  }
+}
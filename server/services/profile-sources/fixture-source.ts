@@ -0,0 +1,55 @@
+import fs from 'fs';
+import type { ProfileSource, SourceProfile } from './types';
+
+/**
+ * Offline source that answers from a JSON file keyed by LinkedIn public id
+ * (the part after `/in/`). Useful for repeatable demos and local development
+ * without network access.
+ */
+export class FixtureProfileSource implements ProfileSource {
+  readonly name = 'fixture' as const;
+  readonly label = 'Offline fixtures';
+  readonly requiresLinkedInAuth = false;
+
+  private fixtures: Record<string, Partial<SourceProfile>> | null = null;
+
+  constructor(private fixturePath: string) {}
+
+  async fetchProfile(profileUrl: string): Promise<SourceProfile> {
+    const fixtures = await this.loadFixtures();
+    const publicId = profileUrl.match(/linkedin\.com\/in\/([^\/\?#]+)/i)?.[1]?.toLowerCase();
+    const fixture = publicId ? fixtures[publicId] : undefined;
+
+    if (!fixture) {
+      throw new Error('profile_not_found');
+    }
+
+    return {
+      id: publicId!,
+      firstName: '',
+      lastName: '',
+      headline: '',
+      summary: '',
+      industry: '',
+      location: '',
+      positions: [],
+      education: [],
+      ...fixture,
+      publicProfileUrl: profileUrl,
+    };
+  }
+
+  private async loadFixtures(): Promise<Record<string, Partial<SourceProfile>>> {
+    if (!this.fixtures) {
+      if (!fs.existsSync(this.fixturePath)) {
+        throw new Error(`Profile fixture file not found: ${this.fixturePath}`);
+      }
+      const raw = await fs.promises.readFile(this.fixturePath, 'utf-8');
+      const parsed = JSON.parse(raw) as Record<string, Partial<SourceProfile>>;
+      this.fixtures = Object.fromEntries(
+        Object.entries(parsed).map(([key, value]) => [key.toLowerCase(), value])
+      );
+    }
+    return this.fixtures;
+  }
+}
@@ -0,0 +1,32 @@
+import { CONFIG } from '../../config/constants';
+import type { ProfileSource, ProfileSourceName } from './types';
+
+export type { ProfileSource, ProfileSourceName, ProfileFetchContext, SourceProfile } from './types';
+export { LinkedInProfileSource } from './linkedin-source';
+export { AIProfileSource } from './ai-source';
+export { MockProfileSource } from './mock-source';
+export { FixtureProfileSource } from './fixture-source';
+
+export class ProfileSourceRegistry {
+  private sources: Map<ProfileSourceName, ProfileSource> = new Map();
+
+  register(source: ProfileSource): void {
+    this.sources.set(source.name, source);
+  }
+
+  get(name: string | null | undefined): ProfileSource {
+    const source = this.sources.get((name || CONFIG.PROFILE_SOURCES.DEFAULT) as ProfileSourceName);
+    if (!source) {
+      throw new Error(`Unknown profile source: ${name}`);
+    }
+    return source;
+  }
+
+  has(name: string): boolean {
+    return this.sources.has(name as ProfileSourceName);
+  }
+
+  list(): ProfileSource[] {
+    return Array.from(this.sources.values());
+  }
+}
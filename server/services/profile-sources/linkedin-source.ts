@@ -0,0 +1,31 @@
+import type { LinkedInService } from '../linkedin-api';
+import type { ProfileFetchContext, ProfileSource, SourceProfile } from './types';
+
+export class LinkedInProfileSource implements ProfileSource {
+  readonly name = 'linkedin' as const;
+  readonly label = 'LinkedIn API';
+  readonly requiresLinkedInAuth = true;
+  readonly rateLimitProvider = 'linkedin' as const;
+
+  constructor(private linkedinService: LinkedInService) {}
+
+  rateLimitCredential(context: ProfileFetchContext): string {
+    return context.accessToken || '';
+  }
+
+  async fetchProfile(profileUrl: string, context: ProfileFetchContext): Promise<SourceProfile> {
+    if (!context.accessToken) {
+      throw new Error('unauthorized_token_expired');
+    }
+
+    const profile = await this.linkedinService.getProfile(context.accessToken, profileUrl, context.signal);
+    const { profilePictureUrl, ...rest } = profile;
+
+    return {
+      ...rest,
+      currentPosition: profile.positions[0]?.title,
+      currentCompany: profile.positions[0]?.company,
+      profilePicture: profilePictureUrl || undefined,
+    };
+  }
+}
@@ -0,0 +1,34 @@
+import type { MockProfileGenerator } from '../mock-profile-generator';
+import type { ProfileFetchContext, ProfileSource, SourceProfile } from './types';
+import { sleep } from '../../utils/abort';
+import { fromExtractedProfile } from './normalize';
+
+/**
+ * Faker-backed demo source. Responses are delayed and occasionally fail with
+ * the same error messages the LinkedIn API produces, so demo jobs exercise the
+ * retry and error reporting paths.
+ */
+export class MockProfileSource implements ProfileSource {
+  readonly name = 'mock' as const;
+  readonly label = 'Demo data';
+  readonly requiresLinkedInAuth = false;
+
+  constructor(
+    private generator: MockProfileGenerator,
+    private successRate: number = 0.95
+  ) {}
+
+  async fetchProfile(profileUrl: string, context: ProfileFetchContext): Promise<SourceProfile> {
+    // Simulate realistic API delay
+    await sleep(1500 + Math.random() * 1000, context.signal);
+
+    if (Math.random() >= this.successRate) {
+      // Simulate various LinkedIn API errors
+      const errorTypes = ['rate_limit', 'profile_not_found', 'access_restricted', 'captcha_required'];
+      const errorType = errorTypes[Math.floor(Math.random() * errorTypes.length)];
+      throw new Error(`Simulated LinkedIn API error: ${errorType}`);
+    }
+
+    return fromExtractedProfile(profileUrl, this.generator.generateProfileFromUrl(profileUrl));
+  }
+}
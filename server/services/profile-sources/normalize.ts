@@ -0,0 +1,54 @@
+import type { SourceProfile } from './types';
+
+// Shape produced by both the AI extractor and the mock generator
+interface ExtractedProfileLike {
+  firstName: string;
+  lastName: string;
+  headline: string;
+  summary: string;
+  industry: string;
+  location: string;
+  currentPosition?: string;
+  currentCompany?: string;
+  skills: string[];
+  experience: Array<{ title: string; company: string; duration: string; description: string }>;
+  education: Array<{ school: string; degree: string; field: string; year: string }>;
+  email?: string;
+  phone?: string;
+  connections?: number;
+  profilePicture?: string;
+}
+
+export function fromExtractedProfile(profileUrl: string, extracted: ExtractedProfileLike): SourceProfile {
+  return {
+    id: profileUrl.split('/').filter(Boolean).pop() || 'unknown',
+    firstName: extracted.firstName,
+    lastName: extracted.lastName,
+    headline: extracted.headline,
+    summary: extracted.summary,
+    industry: extracted.industry,
+    location: extracted.location,
+    publicProfileUrl: profileUrl,
+    positions: extracted.experience.map(exp => ({
+      title: exp.title,
+      company: exp.company,
+      startDate: exp.duration.split('-')[0]?.trim() || '',
+      endDate: exp.duration.split('-')[1]?.trim() || undefined,
+      description: exp.description,
+    })),
+    education: extracted.education.map(edu => ({
+      school: edu.school,
+      degree: edu.degree,
+      fieldOfStudy: edu.field,
+      startDate: edu.year,
+      endDate: edu.year,
+    })),
+    skills: extracted.skills,
+    currentPosition: extracted.currentPosition,
+    currentCompany: extracted.currentCompany,
+    email: extracted.email,
+    phone: extracted.phone,
+    connections: extracted.connections,
+    profilePicture: extracted.profilePicture,
+  };
+}
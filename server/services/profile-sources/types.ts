@@ -0,0 +1,54 @@
+import type { RateLimitProvider } from '../rate-limiter';
+
+export type ProfileSourceName = 'linkedin' | 'ai' | 'mock' | 'fixture';
+
+// Profile shape stored in `profiles.profileData`, whatever the source
+export interface SourceProfile {
+  id: string;
+  firstName: string;
+  lastName: string;
+  headline: string;
+  summary: string;
+  industry: string;
+  location: string;
+  publicProfileUrl: string;
+  positions: Array<{
+    title: string;
+    company: string;
+    startDate: string;
+    endDate?: string;
+    description: string;
+  }>;
+  education: Array<{
+    school: string;
+    degree: string;
+    fieldOfStudy: string;
+    startDate: string;
+    endDate?: string;
+  }>;
+  skills?: string[];
+  currentPosition?: string;
+  currentCompany?: string;
+  email?: string;
+  phone?: string;
+  connections?: number;
+  profilePicture?: string;
+}
+
+export interface ProfileFetchContext {
+  userId: number;
+  accessToken?: string; // the user's LinkedIn token, when connected
+  signal?: AbortSignal; // aborted when the job is cancelled; sources should stop their requests
+}
+
+export interface ProfileSource {
+  readonly name: ProfileSourceName;
+  readonly label: string;
+  readonly requiresLinkedInAuth: boolean;
+
+  // Limiter bucket to draw from; sources that never leave the process have none
+  readonly rateLimitProvider?: RateLimitProvider;
+  rateLimitCredential?(context: ProfileFetchContext): string;
+
+  fetchProfile(profileUrl: string, context: ProfileFetchContext): Promise<SourceProfile>;
+}
@@ -0,0 +1,241 @@
+import { createHash } from 'crypto';
+import type { ApiUsage, IStorage } from '../storage';
+import { storage } from '../storage';
+import { CONFIG } from '../config/constants';
+import { RateLimitError } from '../types/errors';
+import { logger } from '../utils/logger';
+
+export type RateLimitProvider = keyof typeof CONFIG.RATE_LIMITER.PROVIDERS;
+
+export interface RateLimitKey {
+  provider: RateLimitProvider;
+  credential: string; // access token or API key the requests are made with
+  userId?: number; // usage is written to this user's api_stats row, for providers that record it
+}
+
+interface Bucket {
+  tokens: number;
+  lastRefill: number;
+  rateMultiplier: number; // drops on 429s, recovers on successes
+  blockedUntil: number;
+  consecutiveThrottles: number;
+  dailyUsed: number;
+  dayResetsAt: number; // the next UTC midnight
+  loaded: Promise<void> | null;
+}
+
+function utcDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(time: number): number {
+  const date = new Date(time);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+/**
+ * Token-bucket limiter shared by every job on this server. There is one bucket
+ * per provider and credential, so concurrent jobs running on the same LinkedIn
+ * token draw from the same allowance. Throttling responses shrink the refill
+ * rate and impose a cool-down; successful calls slowly restore it. Daily caps
+ * run per UTC day; usage is counted in memory and added to api_stats every
+ * few seconds rather than written for each request.
+ */
+export class RateLimiter {
+  private buckets: Map<string, Bucket> = new Map();
+  private pendingUsage: Map<string, ApiUsage> = new Map();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(private storage: IStorage) {}
+
+  async start(): Promise<void> {
+    if (!this.flushTimer) {
+      this.flushTimer = setInterval(() => this.flushUsage(), CONFIG.RATE_LIMITER.USAGE_FLUSH_INTERVAL);
+      this.flushTimer.unref();
+    }
+  }
+
+  // Adds the usage counted since the last flush; what fails to save is kept for the next one
+  async flushUsage(): Promise<void> {
+    const pending = Array.from(this.pendingUsage.values());
+    this.pendingUsage.clear();
+
+    for (const usage of pending) {
+      try {
+        await this.storage.addApiUsage(usage);
+      } catch (error) {
+        logger.error('Failed to record API usage', error);
+        this.countUsage(usage);
+      }
+    }
+  }
+
+  async acquire(key: RateLimitKey): Promise<void> {
+    const bucket = await this.getBucket(key);
+    const limits = CONFIG.RATE_LIMITER.PROVIDERS[key.provider];
+
+    while (true) {
+      const now = Date.now();
+
+      if (now >= bucket.dayResetsAt) {
+        bucket.dailyUsed = 0;
+        bucket.dayResetsAt = nextUtcMidnight(now);
+      }
+
+      if (bucket.dailyUsed >= limits.DAILY_CAP) {
+        throw new RateLimitError(Math.ceil((bucket.dayResetsAt - now) / 1000));
+      }
+
+      this.refill(bucket, limits, now);
+
+      if (now >= bucket.blockedUntil && bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        bucket.dailyUsed += 1;
+        this.recordUsage(key, now);
+        return;
+      }
+
+      const refillPerMs = this.refillPerMs(bucket, limits);
+      const waitForToken = bucket.tokens >= 1 ? 0 : Math.ceil((1 - bucket.tokens) / refillPerMs);
+      const waitForCooldown = Math.max(bucket.blockedUntil - now, 0);
+      await this.delay(Math.max(waitForToken, waitForCooldown, 10));
+    }
+  }
+
+  /**
+   * Runs `fn` once a token is available and feeds the outcome back into the
+   * bucket. Errors are rethrown so callers keep their own retry logic.
+   */
+  async schedule<T>(key: RateLimitKey, fn: () => Promise<T>): Promise<T> {
+    await this.acquire(key);
+
+    try {
+      const result = await fn();
+      this.reportSuccess(key);
+      return result;
+    } catch (error) {
+      if (this.isThrottleError(error)) {
+        this.reportThrottled(key);
+      }
+      throw error;
+    }
+  }
+
+  reportSuccess(key: RateLimitKey): void {
+    const bucket = this.buckets.get(this.bucketId(key));
+    if (!bucket) return;
+
+    bucket.consecutiveThrottles = 0;
+    bucket.rateMultiplier = Math.min(1, bucket.rateMultiplier + CONFIG.RATE_LIMITER.RECOVERY_STEP);
+  }
+
+  reportThrottled(key: RateLimitKey): void {
+    const bucket = this.buckets.get(this.bucketId(key));
+    if (!bucket) return;
+
+    bucket.consecutiveThrottles++;
+    bucket.rateMultiplier = Math.max(CONFIG.RATE_LIMITER.MIN_RATE_MULTIPLIER, bucket.rateMultiplier / 2);
+    bucket.tokens = 0;
+
+    const cooldown = Math.min(
+      CONFIG.RATE_LIMITER.THROTTLE_COOLDOWN * 2 ** (bucket.consecutiveThrottles - 1),
+      CONFIG.RATE_LIMITER.MAX_THROTTLE_COOLDOWN
+    );
+    bucket.blockedUntil = Date.now() + cooldown;
+
+    logger.warn(`Provider ${key.provider} is throttling; slowing down to ${Math.round(bucket.rateMultiplier * 100)}% for ${cooldown}ms`, {
+      provider: key.provider,
+      userId: key.userId,
+    });
+  }
+
+  isThrottleError(error: unknown): boolean {
+    if (error instanceof RateLimitError) {
+      return false; // our own daily cap, not the provider pushing back
+    }
+    if (error instanceof Error) {
+      const message = error.message.toLowerCase();
+      return message.includes('rate_limit') || message.includes('rate limit') || message.includes('429');
+    }
+    return false;
+  }
+
+  private async getBucket(key: RateLimitKey): Promise<Bucket> {
+    const id = this.bucketId(key);
+    let bucket = this.buckets.get(id);
+
+    if (!bucket) {
+      const limits = CONFIG.RATE_LIMITER.PROVIDERS[key.provider];
+      const now = Date.now();
+      bucket = {
+        tokens: limits.BURST,
+        lastRefill: now,
+        rateMultiplier: 1,
+        blockedUntil: 0,
+        consecutiveThrottles: 0,
+        dailyUsed: 0,
+        dayResetsAt: nextUtcMidnight(now),
+        loaded: null,
+      };
+      bucket.loaded = this.loadDailyUsage(key, bucket);
+      this.buckets.set(id, bucket);
+    }
+
+    await bucket.loaded;
+    return bucket;
+  }
+
+  // Carry the day's usage over a restart so the daily cap still holds
+  private async loadDailyUsage(key: RateLimitKey, bucket: Bucket): Promise<void> {
+    if (!key.userId || !CONFIG.RATE_LIMITER.PROVIDERS[key.provider].RECORD_USAGE) return;
+
+    try {
+      const stats = await this.storage.getApiStats(key.userId);
+      if (stats?.date === utcDay(Date.now())) {
+        bucket.dailyUsed = stats.requestsUsed || 0;
+      }
+    } catch (error) {
+      logger.error('Failed to load API usage', error);
+    }
+  }
+
+  private recordUsage(key: RateLimitKey, now: number): void {
+    if (!key.userId || !CONFIG.RATE_LIMITER.PROVIDERS[key.provider].RECORD_USAGE) return;
+
+    this.countUsage({
+      userId: key.userId,
+      date: utcDay(now),
+      requests: 1,
+      requestsLimit: CONFIG.RATE_LIMITER.PROVIDERS[key.provider].DAILY_CAP,
+      resetTime: new Date(nextUtcMidnight(now)),
+    });
+  }
+
+  private countUsage(usage: ApiUsage): void {
+    const id = `${usage.userId}:${usage.date}`;
+    const pending = this.pendingUsage.get(id);
+    this.pendingUsage.set(id, { ...usage, requests: usage.requests + (pending?.requests || 0) });
+  }
+
+  private refill(bucket: Bucket, limits: { REQUESTS_PER_MINUTE: number; BURST: number }, now: number): void {
+    const elapsed = now - bucket.lastRefill;
+    bucket.tokens = Math.min(limits.BURST, bucket.tokens + elapsed * this.refillPerMs(bucket, limits));
+    bucket.lastRefill = now;
+  }
+
+  private refillPerMs(bucket: Bucket, limits: { REQUESTS_PER_MINUTE: number }): number {
+    return (limits.REQUESTS_PER_MINUTE * bucket.rateMultiplier) / 60000;
+  }
+
+  private bucketId(key: RateLimitKey): string {
+    // Never keep raw tokens around as map keys
+    const credentialHash = createHash('sha256').update(key.credential).digest('hex').slice(0, 16);
+    return `${key.provider}:${credentialHash}`;
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+export const rateLimiter = new RateLimiter(storage);
@@ -0,0 +1,125 @@
+import {
+  retryPolicyOverridesSchema,
+  type RetryErrorType,
+  type RetryPolicy,
+  type RetryPolicyOverrides,
+  type RetryRule,
+} from '@shared/schema';
+import { logger } from '../utils/logger';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  captcha: {
+    maxAttempts: 3,
+    backoff: 'exponential',
+    baseDelayMs: 1000,
+    maxDelayMs: 30 * 1000,
+    jitter: 0.2,
+    maxRetryPasses: 2,
+    pauseJob: false,
+  },
+  not_found: {
+    maxAttempts: 1,
+    backoff: 'fixed',
+    baseDelayMs: 0,
+    maxDelayMs: 0,
+    jitter: 0,
+    maxRetryPasses: 0,
+    pauseJob: false,
+  },
+  access_restricted: {
+    maxAttempts: 1,
+    backoff: 'fixed',
+    baseDelayMs: 0,
+    maxDelayMs: 0,
+    jitter: 0,
+    maxRetryPasses: 0,
+    pauseJob: false,
+  },
+  auth_expired: {
+    maxAttempts: 1,
+    backoff: 'fixed',
+    baseDelayMs: 0,
+    maxDelayMs: 0,
+    jitter: 0,
+    maxRetryPasses: 3, // kept for after the user reconnects LinkedIn
+    pauseJob: false,
+  },
+  rate_limit: {
+    maxAttempts: 3,
+    backoff: 'exponential',
+    baseDelayMs: 2000,
+    maxDelayMs: 60 * 1000,
+    jitter: 0.3,
+    maxRetryPasses: 2,
+    pauseJob: false,
+  },
+  unknown: {
+    maxAttempts: 3,
+    backoff: 'exponential',
+    baseDelayMs: 1000,
+    maxDelayMs: 30 * 1000,
+    jitter: 0.2,
+    maxRetryPasses: 2,
+    pauseJob: false,
+  },
+};
+
+/**
+ * Reads overrides stored in a jsonb column. Invalid data is ignored rather
+ * than failing the job, since it was validated when it was saved.
+ */
+export function parseRetryPolicyOverrides(value: unknown): RetryPolicyOverrides {
+  if (!value) {
+    return {};
+  }
+
+  const result = retryPolicyOverridesSchema.safeParse(value);
+  if (!result.success) {
+    logger.warn('Ignoring invalid stored retry policy', { issues: result.error.issues });
+    return {};
+  }
+  return result.data;
+}
+
+/**
+ * Layers overrides on top of the defaults, later ones winning per field.
+ * Jobs resolve as defaults, then the user's overrides, then the job's.
+ */
+export function resolveRetryPolicy(...layers: RetryPolicyOverrides[]): RetryPolicy {
+  const policy = {} as RetryPolicy;
+
+  for (const errorType of Object.keys(DEFAULT_RETRY_POLICY) as RetryErrorType[]) {
+    policy[errorType] = Object.assign(
+      { ...DEFAULT_RETRY_POLICY[errorType] },
+      ...layers.map(layer => layer[errorType] || {})
+    );
+  }
+
+  return policy;
+}
+
+export function getRetryRule(policy: RetryPolicy, errorType: string): RetryRule {
+  return policy[errorType as RetryErrorType] || policy.unknown;
+}
+
+/**
+ * Delay before the next attempt; `attempt` is the number of attempts made so far.
+ */
+export function getRetryDelay(rule: RetryRule, attempt: number): number {
+  let delay: number;
+  switch (rule.backoff) {
+    case 'fixed':
+      delay = rule.baseDelayMs;
+      break;
+    case 'linear':
+      delay = rule.baseDelayMs * attempt;
+      break;
+    case 'exponential':
+      delay = rule.baseDelayMs * 2 ** (attempt - 1);
+      break;
+  }
+
+  delay = Math.min(delay, rule.maxDelayMs);
+  const spread = delay * rule.jitter;
+  return Math.max(0, Math.round(delay - spread + Math.random() * spread * 2));
+}
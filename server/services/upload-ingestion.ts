@@ -0,0 +1,144 @@
+import type { ConfirmUpload, Job, UploadPreview, User } from '@shared/schema';
+import type { IStorage } from '../storage';
+import type { InputStream } from './input-parsers';
+import type { JobEventLog } from './job-event-log';
+import { UploadPreviewBuilder, profilePublicIds, selectConfirmedUrls } from './upload-preview';
+import { ProfileIntakeBuilder, parseDedupePolicy } from './dedupe-policy';
+import { CONFIG } from '../config/constants';
+import { ValidationError } from '../types/errors';
+import { logger } from '../utils/logger';
+
+const STALLED_MESSAGE = 'Reading the file stopped before it finished; upload it again';
+
+/**
+ * Reads uploads in the background, a chunk of rows at a time, so a large
+ * file never sits in memory and the upload request returns at once. The
+ * preview is built while the file is read; on confirm the file is read again
+ * and the job's profiles are inserted a chunk at a time. Progress is written
+ * to the preview or job row, and every server's sweep marks ingestions that
+ * stopped making progress, e.g. because their server restarted, as failed.
+ */
+export class UploadIngestion {
+  constructor(
+    private storage: IStorage,
+    private eventLog: JobEventLog
+  ) {}
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  async start(): Promise<void> {
+    if (!this.sweepTimer) {
+      this.sweepTimer = setInterval(() => this.sweepStalled(), CONFIG.INGESTION.SWEEP_INTERVAL);
+      this.sweepTimer.unref();
+    }
+
+    await this.sweepStalled();
+  }
+
+  // Builds the preview report from the stream, whose sheet and mapping are already settled
+  readPreview(preview: UploadPreview, stream: InputStream): void {
+    this.buildPreview(preview, stream).catch(async (error) => {
+      logger.error(`Failed to read upload preview ${preview.id}`, error);
+      await this.storage.updateUploadPreview(preview.id, { status: 'failed', error: this.describeError(error) })
+        .catch(updateError => logger.error(`Failed to mark upload preview ${preview.id} failed`, updateError));
+    });
+  }
+
+  // Creates the profiles of a job created with ingestionStatus 'ingesting'
+  ingestJob(job: Job, user: User, stream: InputStream, options: ConfirmUpload): void {
+    this.ingest(job, user, stream, options).catch(async (error) => {
+      logger.error(`Failed to ingest the upload for job ${job.id}`, error);
+      await this.failIngestion(job.id, this.describeError(error))
+        .catch(updateError => logger.error(`Failed to mark job ${job.id} failed`, updateError));
+    });
+  }
+
+  private async buildPreview(preview: UploadPreview, stream: InputStream): Promise<void> {
+    const builder = new UploadPreviewBuilder(stream.format, stream.mapping, stream.columns);
+    let rowsRead = 0;
+
+    for await (const chunk of stream.chunks(CONFIG.INGESTION.CHUNK_SIZE)) {
+      const current = await this.storage.getUploadPreview(preview.id);
+      if (current?.status !== 'parsing') {
+        return; // discarded, or given up on by the sweep
+      }
+
+      const publicIds = builder.unseenPublicIds(chunk);
+      builder.add(chunk, publicIds.length > 0 ? await this.storage.getHarvestedProfiles(preview.userId, publicIds) : []);
+      rowsRead = chunk.rowsRead;
+      await this.storage.updateUploadPreview(preview.id, { rowsRead });
+    }
+
+    const report = builder.build();
+    if (report.counts.validUrls === 0) {
+      throw new ValidationError('No LinkedIn URLs found in the uploaded file. Please ensure your file contains LinkedIn profile URLs.');
+    }
+    await this.storage.updateUploadPreview(preview.id, { status: 'ready', rowsRead, report });
+  }
+
+  private async ingest(job: Job, user: User, stream: InputStream, options: ConfirmUpload): Promise<void> {
+    const policy = parseDedupePolicy(user.dedupePolicy);
+    const intake = new ProfileIntakeBuilder(this.storage, user.id, policy);
+    let totalProfiles = 0;
+    let rowsRead = 0;
+
+    for await (const chunk of stream.chunks(CONFIG.INGESTION.CHUNK_SIZE)) {
+      const current = await this.storage.getJob(job.id);
+      if (!current || current.deletedAt || current.ingestionStatus !== 'ingesting') {
+        return; // deleted, or given up on by the sweep
+      }
+
+      const harvested = options.excludeHarvested ?
+        await this.storage.getHarvestedProfiles(user.id, profilePublicIds(chunk.urls)) :
+        [];
+      const profiles = await intake.add(selectConfirmedUrls(chunk.urls, options, harvested).map(urlData => urlData.url));
+      if (profiles.length > 0) {
+        await this.storage.createProfiles(profiles.map(profile => ({ ...profile, jobId: job.id })));
+      }
+
+      totalProfiles += profiles.length;
+      rowsRead = chunk.rowsRead;
+      await this.storage.updateJobProgress(job.id, { totalProfiles, ingestedRows: rowsRead, ingestionUpdatedAt: new Date() });
+    }
+
+    const totals = intake.totals();
+    if (totalProfiles === 0) {
+      throw new ValidationError(totals.skipped > 0 ?
+        `Every profile was already extracted in the last ${policy.withinDays} days` :
+        'Every row was excluded; nothing to extract');
+    }
+
+    await this.storage.updateJobProgress(job.id, { ingestionStatus: 'ready', ingestionUpdatedAt: new Date() });
+    await this.eventLog.record(job.id, 'ingested', { type: 'system' }, null, {
+      rowsRead,
+      totalProfiles,
+      duplicateUrls: totals.duplicateUrls,
+      skippedRecent: totals.skipped,
+      reusedRecent: totals.reused,
+    });
+  }
+
+  private async failIngestion(jobId: number, message: string): Promise<void> {
+    await this.storage.updateJobStatus(jobId, 'failed', { ingestionStatus: 'failed', completedAt: new Date() });
+    await this.eventLog.record(jobId, 'failed', { type: 'system' }, message);
+  }
+
+  // Parse errors are worth showing; anything else is logged and summed up
+  private describeError(error: unknown): string {
+    return error instanceof ValidationError ? error.message : 'The file could not be read';
+  }
+
+  private async sweepStalled(): Promise<void> {
+    try {
+      const before = new Date(Date.now() - CONFIG.INGESTION.STALE_AFTER);
+      for (const preview of await this.storage.getStaleUploadPreviews(before)) {
+        await this.storage.updateUploadPreview(preview.id, { status: 'failed', error: STALLED_MESSAGE });
+      }
+      for (const job of await this.storage.getStaleIngestions(before)) {
+        logger.warn(`Ingestion of job ${job.id} stalled after ${job.ingestedRows} rows`);
+        await this.failIngestion(job.id, STALLED_MESSAGE);
+      }
+    } catch (error) {
+      logger.error('Failed to sweep stalled upload ingestions', error);
+    }
+  }
+}
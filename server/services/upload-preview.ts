@@ -0,0 +1,156 @@
+import type { ConfirmUpload, InputMapping, LinkedInUrl } from '@shared/schema';
+import type { HarvestedProfile } from '../storage';
+import type { ColumnInfo, InputFormat, ParsedChunk } from './input-parsers';
+import { CONFIG } from '../config/constants';
+import { canonicalizeLinkedInUrl, dedupeKey } from './linkedin-url';
+
+export type RowWarningType = 'missing_url' | 'invalid_url' | 'duplicate_in_file' | 'previously_harvested';
+
+export interface RowWarning {
+  rowIndex: number; // zero-based, as in the file
+  url: string | null;
+  type: RowWarningType;
+  message: string;
+  jobId?: number; // job that already extracted the profile
+}
+
+export interface UploadPreviewCounts {
+  rows: number; // rows with any content, after the header
+  validUrls: number;
+  invalidRows: number; // rows without a LinkedIn profile URL in the URL column
+  duplicatesInFile: number; // repeats of a person earlier in the file, however the URL is written
+  previouslyHarvested: number; // people already extracted in an earlier job
+  newProfiles: number; // people not extracted before
+}
+
+export interface UploadPreviewReport {
+  format: InputFormat;
+  mapping: InputMapping | null;
+  columns: ColumnInfo[];
+  sampleRows: LinkedInUrl[];
+  counts: UploadPreviewCounts;
+  warnings: RowWarning[]; // in row order, capped at CONFIG.UPLOAD_PREVIEW.MAX_WARNINGS
+  warningsTruncated: boolean;
+}
+
+// Public ids to look up earlier extractions by
+export function profilePublicIds(urls: LinkedInUrl[]): string[] {
+  const publicIds = urls.flatMap(entry => canonicalizeLinkedInUrl(entry.url)?.publicId ?? []);
+  return Array.from(new Set(publicIds));
+}
+
+function formatDate(date: Date | null): string {
+  return date ? date.toISOString().slice(0, 10) : 'an earlier job';
+}
+
+function rejectedRowWarning(row: ParsedChunk['rejected'][number]): RowWarning {
+  return row.value === null ?
+    { rowIndex: row.rowIndex, url: null, type: 'missing_url', message: 'No URL in this row' } :
+    {
+      rowIndex: row.rowIndex,
+      url: row.value,
+      type: 'invalid_url',
+      message: /linkedin\.com/i.test(row.value) ? 'Not a LinkedIn profile URL' : 'Not a LinkedIn URL',
+    };
+}
+
+/**
+ * Sums up what confirming an upload would create, with a warning for every
+ * row that would be skipped or may not be wanted. The file is added a chunk
+ * at a time, with the earlier extractions of the people first seen in it.
+ */
+export class UploadPreviewBuilder {
+  private firstRows = new Map<string, number>(); // by dedupe key
+  private sampleRows: LinkedInUrl[] = [];
+  private warnings: RowWarning[] = [];
+  private warningCount = 0;
+  private counts: UploadPreviewCounts = {
+    rows: 0,
+    validUrls: 0,
+    invalidRows: 0,
+    duplicatesInFile: 0,
+    previouslyHarvested: 0,
+    newProfiles: 0,
+  };
+
+  constructor(
+    private format: InputFormat,
+    private mapping: InputMapping | null,
+    private columns: ColumnInfo[]
+  ) {}
+
+  // Public ids of the people the chunk adds, to look up earlier extractions by
+  unseenPublicIds(chunk: ParsedChunk): string[] {
+    return profilePublicIds(chunk.urls).filter(publicId => !this.firstRows.has(publicId));
+  }
+
+  add(chunk: ParsedChunk, harvested: HarvestedProfile[]): void {
+    const warnings = chunk.rejected.map(rejectedRowWarning);
+
+    // Keyed by public id, which dedupeKey returns for every canonical URL
+    const harvestedById = new Map(harvested.map(profile => [profile.publicId, profile]));
+
+    for (const entry of chunk.urls) {
+      const key = dedupeKey(entry.url);
+      const firstRow = this.firstRows.get(key);
+      if (firstRow !== undefined) {
+        this.counts.duplicatesInFile++;
+        warnings.push({
+          rowIndex: entry.rowIndex,
+          url: entry.url,
+          type: 'duplicate_in_file',
+          message: `Same person as row ${firstRow + 1}; extracted once`,
+        });
+        continue;
+      }
+      this.firstRows.set(key, entry.rowIndex);
+
+      const previous = harvestedById.get(key);
+      if (previous) {
+        this.counts.previouslyHarvested++;
+        warnings.push({
+          rowIndex: entry.rowIndex,
+          url: entry.url,
+          type: 'previously_harvested',
+          message: `Already extracted in job #${previous.jobId} on ${formatDate(previous.extractedAt)}`,
+          jobId: previous.jobId,
+        });
+      }
+    }
+
+    this.counts.rows += chunk.urls.length + chunk.rejected.length;
+    this.counts.validUrls += chunk.urls.length;
+    this.counts.invalidRows += chunk.rejected.length;
+    this.sampleRows.push(...chunk.urls.slice(0, CONFIG.UPLOAD_PREVIEW.SAMPLE_ROWS - this.sampleRows.length));
+
+    warnings.sort((a, b) => a.rowIndex - b.rowIndex);
+    this.warningCount += warnings.length;
+    this.warnings.push(...warnings.slice(0, CONFIG.UPLOAD_PREVIEW.MAX_WARNINGS - this.warnings.length));
+  }
+
+  build(): UploadPreviewReport {
+    return {
+      format: this.format,
+      mapping: this.mapping,
+      columns: this.columns,
+      sampleRows: this.sampleRows,
+      counts: { ...this.counts, newProfiles: this.firstRows.size - this.counts.previouslyHarvested },
+      warnings: this.warnings,
+      warningsTruncated: this.warningCount > this.warnings.length,
+    };
+  }
+}
+
+/**
+ * The URLs a confirmed upload keeps. Excluding a row drops every URL read
+ * from it, which matters for text files with several URLs on a line.
+ */
+export function selectConfirmedUrls(
+  urls: LinkedInUrl[],
+  options: ConfirmUpload,
+  harvested: HarvestedProfile[]
+): LinkedInUrl[] {
+  const excludedRows = new Set(options.excludeRows);
+  const harvestedIds = new Set(options.excludeHarvested ? harvested.map(profile => profile.publicId) : []);
+  return urls.filter(entry => !excludedRows.has(entry.rowIndex) && !harvestedIds.has(dedupeKey(entry.url)));
+}
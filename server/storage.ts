@@ -1,14 +1,60 @@
 import { 
-  users, jobs, profiles, apiStats, aiAnalyses, sessions,
+  users, jobs, profiles, apiStats, aiAnalyses, sessions, jobSchedules, jobEventLog, columnMappingTemplates, exportTemplates, savedSearches, exportTasks, uploadPreviews,
   type User, type InsertUser,
   type Job, type InsertJob,
+  type JobSchedule, type InsertJobSchedule,
+  type JobEventRecord, type InsertJobEventRecord,
+  type ColumnMappingTemplate, type InsertColumnMappingTemplate,
+  type ExportTemplate, type InsertExportTemplate,
+  type SavedSearch, type InsertSavedSearch,
+  type ExportTask, type InsertExportTask,
+  type UploadPreview, type InsertUploadPreview,
   type Profile, type InsertProfile,
   type ApiStats, type InsertApiStats,
   type AiAnalysis, type InsertAiAnalysis,
-  type Session, type InsertSession
+  type Session, type InsertSession,
+  type RetryPolicyOverrides, type DedupePolicy
 } from "@shared/schema";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { eq, and, or, isNull, isNotNull, lt, lte, gt, gte, inArray, asc, desc, sql, type SQL } from "drizzle-orm";
+
+export interface ProfileUpdate {
+  id: number;
+  status: string;
+  data?: Partial<Profile>;
+}
+
+// Which of a user's profiles to read, in jobs that aren't deleted; every field given narrows the set
+export interface ProfileQuery {
+  userId: number;
+  statuses: string[];
+  jobIds?: number[];
+  from?: Date; // extracted, or last attempted when it failed, on or after
+  to?: Date; // and on or before
+  errorTypes?: string[];
+  industry?: string; // contains, ignoring case
+  location?: string;
+  tag?: string; // one of the job's tags
+}
+
+// Requests a user made on one day, added to what is already recorded for it
+export interface ApiUsage {
+  userId: number;
+  date: string; // UTC day, YYYY-MM-DD
+  requests: number;
+  requestsLimit: number;
+  resetTime: Date;
+}
+
+// A profile already extracted in one of the user's jobs
+export interface HarvestedProfile {
+  profileId: number;
+  publicId: string;
+  linkedinUrl: string;
+  jobId: number;
+  extractedAt: Date | null;
+  profileData: unknown;
+}
 
 export interface IStorage {
   // User operations
@@ -18,6 +64,8 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   updateUserLinkedInTokens(userId: number, accessToken: string, refreshToken: string, expiry: Date): Promise<void>;
   updateUserLastLogin(userId: number): Promise<void>;
+  updateUserRetryPolicy(userId: number, retryPolicy: RetryPolicyOverrides | null): Promise<void>;
+  updateUserDedupePolicy(userId: number, dedupePolicy: DedupePolicy | null): Promise<void>;
   
   // Session operations
   createSession(session: InsertSession): Promise<Session>;
@@ -30,17 +78,98 @@ export interface IStorage {
   getJob(id: number): Promise<Job | undefined>;
   getJobsByUser(userId: number): Promise<Job[]>;
   updateJobStatus(id: number, status: string, data?: Partial<Job>): Promise<void>;
+  updateJobProgress(id: number, data: Partial<Job>): Promise<void>; // leaves the status alone
   getActiveJob(userId: number): Promise<Job | undefined>;
+  getChildJobs(parentJobId: number): Promise<Job[]>;
+  updateJobRetryPolicy(id: number, retryPolicy: RetryPolicyOverrides | null): Promise<void>;
+  updateJobTags(id: number, tags: string[]): Promise<void>;
+
+  // Job deletion: deleted jobs are hidden from listings until they are purged
+  setJobDeletedAt(id: number, deletedAt: Date | null, statusBeforeDelete?: string | null): Promise<void>;
+  getJobsDeletedBefore(cutoff: Date): Promise<Job[]>;
+  getJobsByFilePath(filePath: string): Promise<Job[]>; // includes deleted jobs
+  getJobByContentHash(userId: number, contentHash: string): Promise<Job | undefined>; // the latest that isn't deleted
+  purgeJob(id: number): Promise<void>; // removes the job with its profiles, analyses and events
+
+  // Job queue operations
+  getClaimableJobs(): Promise<Job[]>;
+  claimJob(id: number, workerId: string, leaseMs: number): Promise<Job | undefined>;
+  renewJobLease(id: number, workerId: string, leaseMs: number): Promise<boolean>;
+  releaseJobLease(id: number, workerId: string): Promise<void>;
+  getJobsToResume(now: Date): Promise<Job[]>;
+
+  // Job event log operations
+  createJobEvent(event: InsertJobEventRecord): Promise<JobEventRecord>;
+  getJobEvents(jobId: number): Promise<JobEventRecord[]>;
+
+  // Job schedule operations
+  createJobSchedule(userId: number, schedule: InsertJobSchedule, nextRunAt: Date | null): Promise<JobSchedule>;
+  getJobSchedule(id: number): Promise<JobSchedule | undefined>;
+  getJobSchedulesByUser(userId: number): Promise<JobSchedule[]>;
+  updateJobSchedule(id: number, data: Partial<JobSchedule>): Promise<JobSchedule | undefined>;
+  deleteJobSchedule(id: number): Promise<void>;
+  getDueJobSchedules(now: Date): Promise<JobSchedule[]>;
+  claimJobScheduleRun(id: number, expectedNextRunAt: Date, data: Partial<JobSchedule>): Promise<JobSchedule | undefined>;
+
+  // Column mapping template operations
+  createColumnMappingTemplate(userId: number, template: InsertColumnMappingTemplate): Promise<ColumnMappingTemplate>;
+  getColumnMappingTemplate(id: number): Promise<ColumnMappingTemplate | undefined>;
+  getColumnMappingTemplatesByUser(userId: number): Promise<ColumnMappingTemplate[]>;
+  deleteColumnMappingTemplate(id: number): Promise<void>;
+
+  // Export template operations
+  createExportTemplate(userId: number, template: InsertExportTemplate): Promise<ExportTemplate>;
+  getExportTemplate(id: number): Promise<ExportTemplate | undefined>;
+  getExportTemplatesByUser(userId: number): Promise<ExportTemplate[]>;
+  deleteExportTemplate(id: number): Promise<void>;
+
+  // Saved search operations
+  createSavedSearch(userId: number, search: InsertSavedSearch): Promise<SavedSearch>;
+  getSavedSearch(id: number): Promise<SavedSearch | undefined>;
+  getSavedSearchesByUser(userId: number): Promise<SavedSearch[]>;
+  deleteSavedSearch(id: number): Promise<void>;
+
+  // Background export operations
+  createExportTask(task: InsertExportTask): Promise<ExportTask>;
+  getExportTask(id: string): Promise<ExportTask | undefined>;
+  getExportTasksByUser(userId: number): Promise<ExportTask[]>; // newest first
+  updateRunningExportTask(id: string, data: Partial<ExportTask>): Promise<boolean>; // false once it is no longer running
+  deleteExportTask(id: string): Promise<boolean>; // false when it was already gone
+  getExpiredExportTasks(now: Date): Promise<ExportTask[]>;
+  getStaleExportTasks(before: Date): Promise<ExportTask[]>; // still 'running' with no progress since `before`
+
+  // Upload preview operations
+  createUploadPreview(preview: InsertUploadPreview): Promise<UploadPreview>;
+  getUploadPreview(id: string): Promise<UploadPreview | undefined>;
+  deleteUploadPreview(id: string): Promise<boolean>; // false when it was already gone
+  getExpiredUploadPreviews(now: Date): Promise<UploadPreview[]>;
+  updateUploadPreview(id: string, data: Partial<UploadPreview>): Promise<void>;
+
+  // Background ingestion of uploads: previews still being read, and jobs whose profiles are still being created
+  getStaleUploadPreviews(before: Date): Promise<UploadPreview[]>; // still 'parsing' with no progress since `before`
+  getStaleIngestions(before: Date): Promise<Job[]>; // still 'ingesting' with no progress since `before`
 
   // Profile operations
   createProfile(profile: InsertProfile): Promise<Profile>;
   getProfilesByJob(jobId: number): Promise<Profile[]>;
   updateProfileStatus(id: number, status: string, data?: Partial<Profile>): Promise<void>;
   getFailedProfiles(jobId: number): Promise<Profile[]>;
+  // Latest successful extraction per public id in the user's jobs that aren't deleted, optionally only since a date
+  getHarvestedProfiles(userId: number, publicIds: string[], since?: Date): Promise<HarvestedProfile[]>;
+
+  // Bulk profile operations for large jobs
+  createProfiles(profiles: InsertProfile[]): Promise<number>;
+  getProfilesAfter(jobId: number, afterId: number, statuses: string[], limit: number): Promise<Profile[]>;
+  getProfilesMatching(query: ProfileQuery, afterId: number, limit: number): Promise<Profile[]>; // by id, after `afterId`
+  countProfilesMatching(query: ProfileQuery): Promise<number>;
+  transitionProfiles(ids: number[], fromStatuses: string[], status: string): Promise<number[]>;
+  updateProfilesBulk(updates: ProfileUpdate[], fromStatuses: string[]): Promise<number[]>;
+  countProfilesByStatus(jobId: number): Promise<Record<string, number>>;
+  requeueInterruptedProfiles(jobId: number): Promise<number>;
 
   // API Stats operations
-  getApiStats(userId: number): Promise<ApiStats | undefined>;
-  updateApiStats(userId: number, data: Partial<ApiStats>): Promise<void>;
+  getApiStats(userId: number): Promise<ApiStats | undefined>; // the most recent day's
+  addApiUsage(usage: ApiUsage): Promise<void>;
 
   // Analytics
   getJobStats(userId: number): Promise<{
@@ -68,11 +197,23 @@ export class MemStorage implements IStorage {
   private profiles: Map<number, Profile>;
   private apiStats: Map<number, ApiStats>;
   private sessions: Map<string, Session>;
+  private jobSchedules: Map<number, JobSchedule>;
+  private jobEvents: JobEventRecord[];
+  private columnMappingTemplates: Map<number, ColumnMappingTemplate>;
+  private exportTemplates: Map<number, ExportTemplate>;
+  private savedSearches: Map<number, SavedSearch>;
+  private exportTasks: Map<string, ExportTask>;
+  private uploadPreviews: Map<string, UploadPreview>;
   private currentUserId: number;
   private currentJobId: number;
   private currentProfileId: number;
   private currentApiStatsId: number;
   private currentSessionId: number;
+  private currentJobScheduleId: number;
+  private currentJobEventId: number;
+  private currentColumnMappingTemplateId: number;
+  private currentExportTemplateId: number;
+  private currentSavedSearchId: number;
 
   constructor() {
     this.users = new Map();
@@ -80,11 +221,23 @@ export class MemStorage implements IStorage {
     this.profiles = new Map();
     this.apiStats = new Map();
     this.sessions = new Map();
+    this.jobSchedules = new Map();
+    this.jobEvents = [];
+    this.columnMappingTemplates = new Map();
+    this.exportTemplates = new Map();
+    this.savedSearches = new Map();
+    this.exportTasks = new Map();
+    this.uploadPreviews = new Map();
     this.currentUserId = 1;
     this.currentJobId = 1;
     this.currentProfileId = 1;
     this.currentApiStatsId = 1;
     this.currentSessionId = 1;
+    this.currentJobScheduleId = 1;
+    this.currentJobEventId = 1;
+    this.currentColumnMappingTemplateId = 1;
+    this.currentExportTemplateId = 1;
+    this.currentSavedSearchId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -107,6 +260,8 @@ export class MemStorage implements IStorage {
       linkedinAccessToken: null,
       linkedinRefreshToken: null,
       linkedinTokenExpiry: null,
+      retryPolicy: null,
+      dedupePolicy: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -139,6 +294,24 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async updateUserRetryPolicy(userId: number, retryPolicy: RetryPolicyOverrides | null): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      user.retryPolicy = retryPolicy;
+      user.updatedAt = new Date();
+      this.users.set(userId, user);
+    }
+  }
+
+  async updateUserDedupePolicy(userId: number, dedupePolicy: DedupePolicy | null): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      user.dedupePolicy = dedupePolicy;
+      user.updatedAt = new Date();
+      this.users.set(userId, user);
+    }
+  }
+
   async createSession(insertSession: InsertSession): Promise<Session> {
     const id = this.currentSessionId++;
     const session: Session = {
@@ -185,6 +358,29 @@ export class MemStorage implements IStorage {
       completedAt: null,
       estimatedCompletion: null,
       processingRate: null,
+      queuedAt: null,
+      profileSource: insertJob.profileSource || 'mock',
+      priority: insertJob.priority ?? 0,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      heartbeatAt: null,
+      parentJobId: insertJob.parentJobId ?? null,
+      retryPolicy: null,
+      pauseReason: null,
+      resumeAt: null,
+      checkpointProfileId: null,
+      checkpointAt: null,
+      retryPass: 0,
+      retryAt: null,
+      scheduleId: insertJob.scheduleId ?? null,
+      deletedAt: null,
+      statusBeforeDelete: null,
+      inputMapping: insertJob.inputMapping ?? null,
+      ingestionStatus: insertJob.ingestionStatus ?? null,
+      ingestedRows: 0,
+      ingestionUpdatedAt: insertJob.ingestionStatus ? new Date() : null,
+      tags: null,
+      contentHash: insertJob.contentHash ?? null,
       createdAt: new Date(),
     };
     this.jobs.set(id, job);
@@ -197,10 +393,62 @@ export class MemStorage implements IStorage {
 
   async getJobsByUser(userId: number): Promise<Job[]> {
     return Array.from(this.jobs.values())
-      .filter(job => job.userId === userId)
+      .filter(job => job.userId === userId && !job.deletedAt)
       .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
   }
 
+  async getChildJobs(parentJobId: number): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.parentJobId === parentJobId)
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+  }
+
+  async updateJobRetryPolicy(id: number, retryPolicy: RetryPolicyOverrides | null): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job) {
+      job.retryPolicy = retryPolicy;
+    }
+  }
+
+  async updateJobTags(id: number, tags: string[]): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job) {
+      job.tags = tags;
+    }
+  }
+
+  async setJobDeletedAt(id: number, deletedAt: Date | null, statusBeforeDelete: string | null = null): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job) {
+      job.deletedAt = deletedAt;
+      job.statusBeforeDelete = statusBeforeDelete;
+    }
+  }
+
+  async getJobsDeletedBefore(cutoff: Date): Promise<Job[]> {
+    return Array.from(this.jobs.values()).filter(job => job.deletedAt && job.deletedAt < cutoff);
+  }
+
+  async getJobsByFilePath(filePath: string): Promise<Job[]> {
+    return Array.from(this.jobs.values()).filter(job => job.filePath === filePath);
+  }
+
+  async getJobByContentHash(userId: number, contentHash: string): Promise<Job | undefined> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.userId === userId && job.contentHash === contentHash && !job.deletedAt)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+
+  async purgeJob(id: number): Promise<void> {
+    for (const profile of Array.from(this.profiles.values())) {
+      if (profile.jobId === id) {
+        this.profiles.delete(profile.id);
+      }
+    }
+    this.jobEvents = this.jobEvents.filter(event => event.jobId !== id);
+    this.jobs.delete(id);
+  }
+
   async updateJobStatus(id: number, status: string, data?: Partial<Job>): Promise<void> {
     const job = this.jobs.get(id);
     if (job) {
@@ -212,23 +460,345 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async updateJobProgress(id: number, data: Partial<Job>): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job) {
+      Object.assign(job, data);
+    }
+  }
+
   async getActiveJob(userId: number): Promise<Job | undefined> {
     return Array.from(this.jobs.values()).find(
-      job => job.userId === userId && (job.status === 'processing' || job.status === 'paused')
+      job => job.userId === userId && !job.deletedAt && (job.status === 'processing' || job.status === 'paused')
+    );
+  }
+
+  async getClaimableJobs(): Promise<Job[]> {
+    const now = new Date();
+    return Array.from(this.jobs.values())
+      .filter(job => this.isClaimable(job, now))
+      .sort((a, b) => (a.queuedAt?.getTime() || 0) - (b.queuedAt?.getTime() || 0));
+  }
+
+  async claimJob(id: number, workerId: string, leaseMs: number): Promise<Job | undefined> {
+    const now = new Date();
+    const job = this.jobs.get(id);
+    if (!job || !this.isClaimable(job, now)) {
+      return undefined;
+    }
+
+    job.leaseOwner = workerId;
+    job.leaseExpiresAt = new Date(now.getTime() + leaseMs);
+    job.heartbeatAt = now;
+    return job;
+  }
+
+  async renewJobLease(id: number, workerId: string, leaseMs: number): Promise<boolean> {
+    const job = this.jobs.get(id);
+    if (!job || job.leaseOwner !== workerId) {
+      return false;
+    }
+
+    const now = new Date();
+    job.leaseExpiresAt = new Date(now.getTime() + leaseMs);
+    job.heartbeatAt = now;
+    return true;
+  }
+
+  async releaseJobLease(id: number, workerId: string): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job && job.leaseOwner === workerId) {
+      job.leaseOwner = null;
+      job.leaseExpiresAt = null;
+    }
+  }
+
+  async getJobsToResume(now: Date): Promise<Job[]> {
+    return Array.from(this.jobs.values()).filter(
+      job => job.status === 'paused' && job.resumeAt !== null && job.resumeAt <= now
+    );
+  }
+
+  private isClaimable(job: Job, now: Date): boolean {
+    return job.status === 'processing' &&
+      job.queuedAt !== null &&
+      (job.leaseExpiresAt === null || job.leaseExpiresAt < now) &&
+      (job.retryAt === null || job.retryAt <= now);
+  }
+
+  async createJobEvent(insertEvent: InsertJobEventRecord): Promise<JobEventRecord> {
+    const event: JobEventRecord = {
+      id: this.currentJobEventId++,
+      jobId: insertEvent.jobId,
+      type: insertEvent.type,
+      actorType: insertEvent.actorType,
+      actorId: insertEvent.actorId ?? null,
+      reason: insertEvent.reason ?? null,
+      data: insertEvent.data ?? null,
+      createdAt: new Date(),
+    };
+    this.jobEvents.push(event);
+    return event;
+  }
+
+  async getJobEvents(jobId: number): Promise<JobEventRecord[]> {
+    return this.jobEvents.filter(event => event.jobId === jobId);
+  }
+
+  async createJobSchedule(userId: number, schedule: InsertJobSchedule, nextRunAt: Date | null): Promise<JobSchedule> {
+    const id = this.currentJobScheduleId++;
+    const now = new Date();
+    const jobSchedule: JobSchedule = {
+      id,
+      userId,
+      name: schedule.name,
+      targetType: schedule.targetType,
+      urls: schedule.urls ?? null,
+      sourceJobId: schedule.sourceJobId ?? null,
+      runAt: schedule.runAt ?? null,
+      cron: schedule.cron ?? null,
+      batchSize: schedule.batchSize ?? 50,
+      priority: schedule.priority ?? 0,
+      profileSource: schedule.profileSource ?? null,
+      enabled: schedule.enabled ?? true,
+      nextRunAt,
+      lastRunAt: null,
+      lastJobId: null,
+      lastError: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobSchedules.set(id, jobSchedule);
+    return jobSchedule;
+  }
+
+  async getJobSchedule(id: number): Promise<JobSchedule | undefined> {
+    return this.jobSchedules.get(id);
+  }
+
+  async getJobSchedulesByUser(userId: number): Promise<JobSchedule[]> {
+    return Array.from(this.jobSchedules.values())
+      .filter(schedule => schedule.userId === userId)
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+  }
+
+  async updateJobSchedule(id: number, data: Partial<JobSchedule>): Promise<JobSchedule | undefined> {
+    const schedule = this.jobSchedules.get(id);
+    if (schedule) {
+      Object.assign(schedule, data, { updatedAt: new Date() });
+    }
+    return schedule;
+  }
+
+  async deleteJobSchedule(id: number): Promise<void> {
+    this.jobSchedules.delete(id);
+  }
+
+  async getDueJobSchedules(now: Date): Promise<JobSchedule[]> {
+    return Array.from(this.jobSchedules.values())
+      .filter(schedule => schedule.enabled && schedule.nextRunAt !== null && schedule.nextRunAt <= now)
+      .sort((a, b) => (a.nextRunAt?.getTime() || 0) - (b.nextRunAt?.getTime() || 0));
+  }
+
+  async claimJobScheduleRun(id: number, expectedNextRunAt: Date, data: Partial<JobSchedule>): Promise<JobSchedule | undefined> {
+    const schedule = this.jobSchedules.get(id);
+    if (!schedule || schedule.nextRunAt?.getTime() !== expectedNextRunAt.getTime()) {
+      return undefined;
+    }
+    Object.assign(schedule, data, { updatedAt: new Date() });
+    return schedule;
+  }
+
+  async createColumnMappingTemplate(userId: number, template: InsertColumnMappingTemplate): Promise<ColumnMappingTemplate> {
+    const columnMappingTemplate: ColumnMappingTemplate = {
+      id: this.currentColumnMappingTemplateId++,
+      userId,
+      name: template.name,
+      sheet: template.sheet ?? null,
+      mapping: template.mapping,
+      createdAt: new Date(),
+    };
+    this.columnMappingTemplates.set(columnMappingTemplate.id, columnMappingTemplate);
+    return columnMappingTemplate;
+  }
+
+  async getColumnMappingTemplate(id: number): Promise<ColumnMappingTemplate | undefined> {
+    return this.columnMappingTemplates.get(id);
+  }
+
+  async getColumnMappingTemplatesByUser(userId: number): Promise<ColumnMappingTemplate[]> {
+    return Array.from(this.columnMappingTemplates.values())
+      .filter(template => template.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async deleteColumnMappingTemplate(id: number): Promise<void> {
+    this.columnMappingTemplates.delete(id);
+  }
+
+  async createExportTemplate(userId: number, template: InsertExportTemplate): Promise<ExportTemplate> {
+    const exportTemplate: ExportTemplate = {
+      id: this.currentExportTemplateId++,
+      userId,
+      name: template.name,
+      columns: template.columns,
+      dateFormat: template.dateFormat ?? null,
+      createdAt: new Date(),
+    };
+    this.exportTemplates.set(exportTemplate.id, exportTemplate);
+    return exportTemplate;
+  }
+
+  async getExportTemplate(id: number): Promise<ExportTemplate | undefined> {
+    return this.exportTemplates.get(id);
+  }
+
+  async getExportTemplatesByUser(userId: number): Promise<ExportTemplate[]> {
+    return Array.from(this.exportTemplates.values())
+      .filter(template => template.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async deleteExportTemplate(id: number): Promise<void> {
+    this.exportTemplates.delete(id);
+  }
+
+  async createSavedSearch(userId: number, search: InsertSavedSearch): Promise<SavedSearch> {
+    const savedSearch: SavedSearch = {
+      id: this.currentSavedSearchId++,
+      userId,
+      name: search.name,
+      filter: search.filter,
+      createdAt: new Date(),
+    };
+    this.savedSearches.set(savedSearch.id, savedSearch);
+    return savedSearch;
+  }
+
+  async getSavedSearch(id: number): Promise<SavedSearch | undefined> {
+    return this.savedSearches.get(id);
+  }
+
+  async getSavedSearchesByUser(userId: number): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values())
+      .filter(search => search.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async deleteSavedSearch(id: number): Promise<void> {
+    this.savedSearches.delete(id);
+  }
+
+  async createExportTask(task: InsertExportTask): Promise<ExportTask> {
+    const exportTask: ExportTask = {
+      ...task,
+      status: 'running',
+      progress: 0,
+      artifactPath: null,
+      fileSize: null,
+      error: null,
+      updatedAt: new Date(),
+      completedAt: null,
+      createdAt: new Date(),
+    };
+    this.exportTasks.set(exportTask.id, exportTask);
+    return exportTask;
+  }
+
+  async getExportTask(id: string): Promise<ExportTask | undefined> {
+    return this.exportTasks.get(id);
+  }
+
+  async getExportTasksByUser(userId: number): Promise<ExportTask[]> {
+    return Array.from(this.exportTasks.values())
+      .filter(task => task.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async updateRunningExportTask(id: string, data: Partial<ExportTask>): Promise<boolean> {
+    const task = this.exportTasks.get(id);
+    if (!task || task.status !== 'running') {
+      return false;
+    }
+    Object.assign(task, data, { updatedAt: new Date() });
+    return true;
+  }
+
+  async deleteExportTask(id: string): Promise<boolean> {
+    return this.exportTasks.delete(id);
+  }
+
+  async getExpiredExportTasks(now: Date): Promise<ExportTask[]> {
+    return Array.from(this.exportTasks.values()).filter(task => task.expiresAt <= now);
+  }
+
+  async getStaleExportTasks(before: Date): Promise<ExportTask[]> {
+    return Array.from(this.exportTasks.values())
+      .filter(task => task.status === 'running' && (!task.updatedAt || task.updatedAt < before));
+  }
+
+  async createUploadPreview(preview: InsertUploadPreview): Promise<UploadPreview> {
+    const uploadPreview: UploadPreview = {
+      ...preview,
+      contentType: preview.contentType ?? null,
+      contentHash: preview.contentHash ?? null,
+      duplicateOfJobId: preview.duplicateOfJobId ?? null,
+      inputMapping: preview.inputMapping ?? null,
+      status: 'parsing',
+      rowsRead: 0,
+      report: null,
+      error: null,
+      updatedAt: new Date(),
+      createdAt: new Date(),
+    };
+    this.uploadPreviews.set(uploadPreview.id, uploadPreview);
+    return uploadPreview;
+  }
+
+  async getUploadPreview(id: string): Promise<UploadPreview | undefined> {
+    return this.uploadPreviews.get(id);
+  }
+
+  async deleteUploadPreview(id: string): Promise<boolean> {
+    return this.uploadPreviews.delete(id);
+  }
+
+  async getExpiredUploadPreviews(now: Date): Promise<UploadPreview[]> {
+    return Array.from(this.uploadPreviews.values()).filter(preview => preview.expiresAt <= now);
+  }
+
+  async updateUploadPreview(id: string, data: Partial<UploadPreview>): Promise<void> {
+    const preview = this.uploadPreviews.get(id);
+    if (preview) {
+      Object.assign(preview, data, { updatedAt: new Date() });
+    }
+  }
+
+  async getStaleUploadPreviews(before: Date): Promise<UploadPreview[]> {
+    return Array.from(this.uploadPreviews.values())
+      .filter(preview => preview.status === 'parsing' && (!preview.updatedAt || preview.updatedAt < before));
+  }
+
+  async getStaleIngestions(before: Date): Promise<Job[]> {
+    return Array.from(this.jobs.values()).filter(job =>
+      job.ingestionStatus === 'ingesting' && (!job.ingestionUpdatedAt || job.ingestionUpdatedAt < before)
     );
   }
 
   async createProfile(insertProfile: InsertProfile): Promise<Profile> {
     const id = this.currentProfileId++;
     const profile: Profile = {
-      ...insertProfile,
       id,
+      canonicalUrl: null,
+      publicId: null,
       profileData: null,
       errorType: null,
       errorMessage: null,
       retryCount: 0,
       lastAttempt: null,
       extractedAt: null,
+      reusedFromProfileId: null,
+      ...insertProfile,
     };
     this.profiles.set(id, profile);
     return profile;
@@ -255,27 +825,151 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getHarvestedProfiles(userId: number, publicIds: string[], since?: Date): Promise<HarvestedProfile[]> {
+    const wanted = new Set(publicIds);
+    const latest = new Map<string, HarvestedProfile>();
+
+    for (const profile of Array.from(this.profiles.values())) {
+      const job = this.jobs.get(profile.jobId);
+      if (
+        profile.status !== 'success' || !profile.publicId || !wanted.has(profile.publicId) ||
+        job?.userId !== userId || job.deletedAt ||
+        (since && (!profile.extractedAt || profile.extractedAt < since))
+      ) {
+        continue;
+      }
+      const current = latest.get(profile.publicId);
+      if (!current || (profile.extractedAt?.getTime() ?? 0) > (current.extractedAt?.getTime() ?? 0)) {
+        latest.set(profile.publicId, {
+          profileId: profile.id,
+          publicId: profile.publicId,
+          linkedinUrl: profile.linkedinUrl,
+          jobId: profile.jobId,
+          extractedAt: profile.extractedAt,
+          profileData: profile.profileData,
+        });
+      }
+    }
+
+    return Array.from(latest.values());
+  }
+
+  async createProfiles(insertProfiles: InsertProfile[]): Promise<number> {
+    for (const insertProfile of insertProfiles) {
+      await this.createProfile(insertProfile);
+    }
+    return insertProfiles.length;
+  }
+
+  async getProfilesAfter(jobId: number, afterId: number, statuses: string[], limit: number): Promise<Profile[]> {
+    return Array.from(this.profiles.values())
+      .filter(profile => profile.jobId === jobId && profile.id > afterId && statuses.includes(profile.status))
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit)
+      .map(profile => ({ ...profile })); // a snapshot, like rows read from the database
+  }
+
+  async getProfilesMatching(query: ProfileQuery, afterId: number, limit: number): Promise<Profile[]> {
+    return Array.from(this.profiles.values())
+      .filter(profile => profile.id > afterId && this.matchesQuery(profile, query))
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit)
+      .map(profile => ({ ...profile }));
+  }
+
+  async countProfilesMatching(query: ProfileQuery): Promise<number> {
+    return Array.from(this.profiles.values()).filter(profile => this.matchesQuery(profile, query)).length;
+  }
+
+  private matchesQuery(profile: Profile, query: ProfileQuery): boolean {
+    const contains = (value: unknown, part: string) =>
+      typeof value === 'string' && value.toLowerCase().includes(part.toLowerCase());
+    const job = this.jobs.get(profile.jobId);
+    const data = (profile.profileData ?? {}) as Record<string, unknown>;
+    const date = profile.extractedAt ?? profile.lastAttempt;
+
+    return !!job && job.userId === query.userId && !job.deletedAt
+      && query.statuses.includes(profile.status)
+      && (!query.jobIds || query.jobIds.includes(profile.jobId))
+      && (!query.from || (date !== null && date >= query.from))
+      && (!query.to || (date !== null && date <= query.to))
+      && (!query.errorTypes || (profile.errorType !== null && query.errorTypes.includes(profile.errorType)))
+      && (!query.industry || contains(data.industry, query.industry))
+      && (!query.location || contains(data.location, query.location))
+      && (!query.tag || (Array.isArray(job.tags) && job.tags.includes(query.tag)));
+  }
+
+  async transitionProfiles(ids: number[], fromStatuses: string[], status: string): Promise<number[]> {
+    const transitioned: number[] = [];
+    for (const id of ids) {
+      const profile = this.profiles.get(id);
+      if (profile && fromStatuses.includes(profile.status)) {
+        profile.status = status;
+        transitioned.push(id);
+      }
+    }
+    return transitioned;
+  }
+
+  async updateProfilesBulk(updates: ProfileUpdate[], fromStatuses: string[]): Promise<number[]> {
+    const applied: number[] = [];
+    for (const update of updates) {
+      const profile = this.profiles.get(update.id);
+      if (profile && fromStatuses.includes(profile.status)) {
+        Object.assign(profile, update.data, { status: update.status });
+        applied.push(update.id);
+      }
+    }
+    return applied;
+  }
+
+  async countProfilesByStatus(jobId: number): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    Array.from(this.profiles.values())
+      .filter(profile => profile.jobId === jobId)
+      .forEach(profile => {
+        counts[profile.status] = (counts[profile.status] || 0) + 1;
+      });
+    return counts;
+  }
+
+  async requeueInterruptedProfiles(jobId: number): Promise<number> {
+    let requeued = 0;
+    Array.from(this.profiles.values())
+      .filter(profile => profile.jobId === jobId && profile.status === 'processing')
+      .forEach(profile => {
+        profile.status = (profile.retryCount || 0) > 0 ? 'retrying' : 'pending';
+        requeued++;
+      });
+    return requeued;
+  }
+
   async getApiStats(userId: number): Promise<ApiStats | undefined> {
-    return Array.from(this.apiStats.values()).find(stats => stats.userId === userId);
-  }
-
-  async updateApiStats(userId: number, data: Partial<ApiStats>): Promise<void> {
-    let stats = Array.from(this.apiStats.values()).find(s => s.userId === userId);
-    if (!stats) {
-      const id = this.currentApiStatsId++;
-      stats = {
-        id,
-        userId,
-        requestsUsed: 0,
-        requestsLimit: 1000,
-        resetTime: new Date(Date.now() + 60 * 60 * 1000), // 1 hour from now
-        lastUpdated: new Date(),
-      };
-      this.apiStats.set(id, stats);
+    return Array.from(this.apiStats.values())
+      .filter(stats => stats.userId === userId)
+      .sort((a, b) => b.date.localeCompare(a.date))[0];
+  }
+
+  async addApiUsage(usage: ApiUsage): Promise<void> {
+    const stats = Array.from(this.apiStats.values()).find(s => s.userId === usage.userId && s.date === usage.date);
+    if (stats) {
+      stats.requestsUsed = (stats.requestsUsed || 0) + usage.requests;
+      stats.requestsLimit = usage.requestsLimit;
+      stats.resetTime = usage.resetTime;
+      stats.lastUpdated = new Date();
+      return;
     }
-    
-    Object.assign(stats, data, { lastUpdated: new Date() });
-    this.apiStats.set(stats.id, stats);
+
+    const id = this.currentApiStatsId++;
+    this.apiStats.set(id, {
+      id,
+      userId: usage.userId,
+      date: usage.date,
+      requestsUsed: usage.requests,
+      requestsLimit: usage.requestsLimit,
+      resetTime: usage.resetTime,
+      lastUpdated: new Date(),
+    });
   }
 
   async getJobStats(userId: number): Promise<{
@@ -388,6 +1082,26 @@ export class DatabaseStorage implements IStorage {
       .where(eq(users.id, userId));
   }
 
+  async updateUserRetryPolicy(userId: number, retryPolicy: RetryPolicyOverrides | null): Promise<void> {
+    await db
+      .update(users)
+      .set({
+        retryPolicy,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+  }
+
+  async updateUserDedupePolicy(userId: number, dedupePolicy: DedupePolicy | null): Promise<void> {
+    await db
+      .update(users)
+      .set({
+        dedupePolicy,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+  }
+
   async createSession(insertSession: InsertSession): Promise<Session> {
     const [session] = await db
       .insert(sessions)
@@ -413,6 +1127,7 @@ export class DatabaseStorage implements IStorage {
     const jobData = {
       ...insertJob,
       status: 'pending',
+      ingestionUpdatedAt: insertJob.ingestionStatus ? new Date() : null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -433,10 +1148,69 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(jobs)
-      .where(eq(jobs.userId, userId))
+      .where(and(eq(jobs.userId, userId), isNull(jobs.deletedAt)))
       .orderBy(jobs.createdAt);
   }
 
+  async getChildJobs(parentJobId: number): Promise<Job[]> {
+    return await db
+      .select()
+      .from(jobs)
+      .where(eq(jobs.parentJobId, parentJobId))
+      .orderBy(asc(jobs.createdAt));
+  }
+
+  async updateJobRetryPolicy(id: number, retryPolicy: RetryPolicyOverrides | null): Promise<void> {
+    await db
+      .update(jobs)
+      .set({ retryPolicy })
+      .where(eq(jobs.id, id));
+  }
+
+  async updateJobTags(id: number, tags: string[]): Promise<void> {
+    await db
+      .update(jobs)
+      .set({ tags })
+      .where(eq(jobs.id, id));
+  }
+
+  async setJobDeletedAt(id: number, deletedAt: Date | null, statusBeforeDelete: string | null = null): Promise<void> {
+    await db
+      .update(jobs)
+      .set({ deletedAt, statusBeforeDelete })
+      .where(eq(jobs.id, id));
+  }
+
+  async getJobsDeletedBefore(cutoff: Date): Promise<Job[]> {
+    return await db
+      .select()
+      .from(jobs)
+      .where(and(isNotNull(jobs.deletedAt), lt(jobs.deletedAt, cutoff)));
+  }
+
+  async getJobsByFilePath(filePath: string): Promise<Job[]> {
+    return await db.select().from(jobs).where(eq(jobs.filePath, filePath));
+  }
+
+  async getJobByContentHash(userId: number, contentHash: string): Promise<Job | undefined> {
+    const [job] = await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.userId, userId), eq(jobs.contentHash, contentHash), isNull(jobs.deletedAt)))
+      .orderBy(desc(jobs.id))
+      .limit(1);
+    return job || undefined;
+  }
+
+  async purgeJob(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(aiAnalyses).where(eq(aiAnalyses.jobId, id));
+      await tx.delete(profiles).where(eq(profiles.jobId, id));
+      await tx.delete(jobEventLog).where(eq(jobEventLog.jobId, id));
+      await tx.delete(jobs).where(eq(jobs.id, id));
+    });
+  }
+
   async updateJobStatus(id: number, status: string, data?: Partial<Job>): Promise<void> {
     const updateData: any = { status };
     if (data) {
@@ -449,17 +1223,324 @@ export class DatabaseStorage implements IStorage {
       .where(eq(jobs.id, id));
   }
 
+  async updateJobProgress(id: number, data: Partial<Job>): Promise<void> {
+    await db
+      .update(jobs)
+      .set(data)
+      .where(eq(jobs.id, id));
+  }
+
   async getActiveJob(userId: number): Promise<Job | undefined> {
     const [job] = await db
       .select()
       .from(jobs)
-      .where(eq(jobs.userId, userId))
+      .where(and(
+        eq(jobs.userId, userId),
+        isNull(jobs.deletedAt),
+        or(eq(jobs.status, 'processing'), eq(jobs.status, 'paused'))
+      ))
+      .orderBy(desc(jobs.createdAt))
       .limit(1);
     
-    if (job && (job.status === 'processing' || job.status === 'paused')) {
-      return job;
-    }
-    return undefined;
+    return job || undefined;
+  }
+
+  async getClaimableJobs(): Promise<Job[]> {
+    return await db
+      .select()
+      .from(jobs)
+      .where(this.claimableCondition(new Date()))
+      .orderBy(asc(jobs.queuedAt));
+  }
+
+  async claimJob(id: number, workerId: string, leaseMs: number): Promise<Job | undefined> {
+    const now = new Date();
+    // The lease is re-checked in the update so that only one worker gets a row back
+    const [claimed] = await db
+      .update(jobs)
+      .set({
+        leaseOwner: workerId,
+        leaseExpiresAt: new Date(now.getTime() + leaseMs),
+        heartbeatAt: now,
+      })
+      .where(and(eq(jobs.id, id), this.claimableCondition(now)))
+      .returning();
+    return claimed || undefined;
+  }
+
+  async renewJobLease(id: number, workerId: string, leaseMs: number): Promise<boolean> {
+    const now = new Date();
+    const renewed = await db
+      .update(jobs)
+      .set({
+        leaseExpiresAt: new Date(now.getTime() + leaseMs),
+        heartbeatAt: now,
+      })
+      .where(and(eq(jobs.id, id), eq(jobs.leaseOwner, workerId)))
+      .returning({ id: jobs.id });
+    return renewed.length > 0;
+  }
+
+  async releaseJobLease(id: number, workerId: string): Promise<void> {
+    await db
+      .update(jobs)
+      .set({ leaseOwner: null, leaseExpiresAt: null })
+      .where(and(eq(jobs.id, id), eq(jobs.leaseOwner, workerId)));
+  }
+
+  async getJobsToResume(now: Date): Promise<Job[]> {
+    return await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.status, 'paused'), isNotNull(jobs.resumeAt), lte(jobs.resumeAt, now)));
+  }
+
+  private claimableCondition(now: Date) {
+    return and(
+      eq(jobs.status, 'processing'),
+      isNotNull(jobs.queuedAt),
+      or(isNull(jobs.leaseExpiresAt), lt(jobs.leaseExpiresAt, now)),
+      or(isNull(jobs.retryAt), lte(jobs.retryAt, now)),
+    );
+  }
+
+  async createJobEvent(insertEvent: InsertJobEventRecord): Promise<JobEventRecord> {
+    const [event] = await db
+      .insert(jobEventLog)
+      .values(insertEvent)
+      .returning();
+    return event;
+  }
+
+  async getJobEvents(jobId: number): Promise<JobEventRecord[]> {
+    return await db
+      .select()
+      .from(jobEventLog)
+      .where(eq(jobEventLog.jobId, jobId))
+      .orderBy(asc(jobEventLog.id));
+  }
+
+  async createJobSchedule(userId: number, schedule: InsertJobSchedule, nextRunAt: Date | null): Promise<JobSchedule> {
+    const [jobSchedule] = await db
+      .insert(jobSchedules)
+      .values({ ...schedule, userId, nextRunAt })
+      .returning();
+    return jobSchedule;
+  }
+
+  async getJobSchedule(id: number): Promise<JobSchedule | undefined> {
+    const [schedule] = await db.select().from(jobSchedules).where(eq(jobSchedules.id, id));
+    return schedule || undefined;
+  }
+
+  async getJobSchedulesByUser(userId: number): Promise<JobSchedule[]> {
+    return await db
+      .select()
+      .from(jobSchedules)
+      .where(eq(jobSchedules.userId, userId))
+      .orderBy(asc(jobSchedules.createdAt));
+  }
+
+  async updateJobSchedule(id: number, data: Partial<JobSchedule>): Promise<JobSchedule | undefined> {
+    const [schedule] = await db
+      .update(jobSchedules)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(jobSchedules.id, id))
+      .returning();
+    return schedule || undefined;
+  }
+
+  async deleteJobSchedule(id: number): Promise<void> {
+    await db.delete(jobSchedules).where(eq(jobSchedules.id, id));
+  }
+
+  async getDueJobSchedules(now: Date): Promise<JobSchedule[]> {
+    return await db
+      .select()
+      .from(jobSchedules)
+      .where(and(eq(jobSchedules.enabled, true), isNotNull(jobSchedules.nextRunAt), lte(jobSchedules.nextRunAt, now)))
+      .orderBy(asc(jobSchedules.nextRunAt));
+  }
+
+  async claimJobScheduleRun(id: number, expectedNextRunAt: Date, data: Partial<JobSchedule>): Promise<JobSchedule | undefined> {
+    // Only the server that moves nextRunAt on from the expected value gets a row back
+    const [claimed] = await db
+      .update(jobSchedules)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(jobSchedules.id, id), eq(jobSchedules.nextRunAt, expectedNextRunAt)))
+      .returning();
+    return claimed || undefined;
+  }
+
+  async createColumnMappingTemplate(userId: number, template: InsertColumnMappingTemplate): Promise<ColumnMappingTemplate> {
+    const [columnMappingTemplate] = await db
+      .insert(columnMappingTemplates)
+      .values({ ...template, userId })
+      .returning();
+    return columnMappingTemplate;
+  }
+
+  async getColumnMappingTemplate(id: number): Promise<ColumnMappingTemplate | undefined> {
+    const [template] = await db.select().from(columnMappingTemplates).where(eq(columnMappingTemplates.id, id));
+    return template || undefined;
+  }
+
+  async getColumnMappingTemplatesByUser(userId: number): Promise<ColumnMappingTemplate[]> {
+    return await db
+      .select()
+      .from(columnMappingTemplates)
+      .where(eq(columnMappingTemplates.userId, userId))
+      .orderBy(asc(columnMappingTemplates.name));
+  }
+
+  async deleteColumnMappingTemplate(id: number): Promise<void> {
+    await db.delete(columnMappingTemplates).where(eq(columnMappingTemplates.id, id));
+  }
+
+  async createExportTemplate(userId: number, template: InsertExportTemplate): Promise<ExportTemplate> {
+    const [exportTemplate] = await db
+      .insert(exportTemplates)
+      .values({ ...template, userId })
+      .returning();
+    return exportTemplate;
+  }
+
+  async getExportTemplate(id: number): Promise<ExportTemplate | undefined> {
+    const [template] = await db.select().from(exportTemplates).where(eq(exportTemplates.id, id));
+    return template || undefined;
+  }
+
+  async getExportTemplatesByUser(userId: number): Promise<ExportTemplate[]> {
+    return await db
+      .select()
+      .from(exportTemplates)
+      .where(eq(exportTemplates.userId, userId))
+      .orderBy(asc(exportTemplates.name));
+  }
+
+  async deleteExportTemplate(id: number): Promise<void> {
+    await db.delete(exportTemplates).where(eq(exportTemplates.id, id));
+  }
+
+  async createSavedSearch(userId: number, search: InsertSavedSearch): Promise<SavedSearch> {
+    const [savedSearch] = await db
+      .insert(savedSearches)
+      .values({ ...search, userId })
+      .returning();
+    return savedSearch;
+  }
+
+  async getSavedSearch(id: number): Promise<SavedSearch | undefined> {
+    const [search] = await db.select().from(savedSearches).where(eq(savedSearches.id, id));
+    return search || undefined;
+  }
+
+  async getSavedSearchesByUser(userId: number): Promise<SavedSearch[]> {
+    return await db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId))
+      .orderBy(asc(savedSearches.name));
+  }
+
+  async deleteSavedSearch(id: number): Promise<void> {
+    await db.delete(savedSearches).where(eq(savedSearches.id, id));
+  }
+
+  async createUploadPreview(preview: InsertUploadPreview): Promise<UploadPreview> {
+    const [uploadPreview] = await db
+      .insert(uploadPreviews)
+      .values(preview)
+      .returning();
+    return uploadPreview;
+  }
+
+  async getUploadPreview(id: string): Promise<UploadPreview | undefined> {
+    const [preview] = await db.select().from(uploadPreviews).where(eq(uploadPreviews.id, id));
+    return preview || undefined;
+  }
+
+  async createExportTask(task: InsertExportTask): Promise<ExportTask> {
+    const [exportTask] = await db
+      .insert(exportTasks)
+      .values(task)
+      .returning();
+    return exportTask;
+  }
+
+  async getExportTask(id: string): Promise<ExportTask | undefined> {
+    const [task] = await db.select().from(exportTasks).where(eq(exportTasks.id, id));
+    return task || undefined;
+  }
+
+  async getExportTasksByUser(userId: number): Promise<ExportTask[]> {
+    return await db
+      .select()
+      .from(exportTasks)
+      .where(eq(exportTasks.userId, userId))
+      .orderBy(desc(exportTasks.createdAt));
+  }
+
+  async updateRunningExportTask(id: string, data: Partial<ExportTask>): Promise<boolean> {
+    const updated = await db
+      .update(exportTasks)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(exportTasks.id, id), eq(exportTasks.status, 'running')))
+      .returning({ id: exportTasks.id });
+    return updated.length > 0;
+  }
+
+  async deleteExportTask(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(exportTasks)
+      .where(eq(exportTasks.id, id))
+      .returning({ id: exportTasks.id });
+    return deleted.length > 0;
+  }
+
+  async getExpiredExportTasks(now: Date): Promise<ExportTask[]> {
+    return await db.select().from(exportTasks).where(lte(exportTasks.expiresAt, now));
+  }
+
+  async getStaleExportTasks(before: Date): Promise<ExportTask[]> {
+    return await db
+      .select()
+      .from(exportTasks)
+      .where(and(eq(exportTasks.status, 'running'), lt(exportTasks.updatedAt, before)));
+  }
+
+  async deleteUploadPreview(id: string): Promise<boolean> {
+    // Confirming claims the preview by deleting it, so it can't create two jobs
+    const deleted = await db
+      .delete(uploadPreviews)
+      .where(eq(uploadPreviews.id, id))
+      .returning({ id: uploadPreviews.id });
+    return deleted.length > 0;
+  }
+
+  async getExpiredUploadPreviews(now: Date): Promise<UploadPreview[]> {
+    return await db.select().from(uploadPreviews).where(lte(uploadPreviews.expiresAt, now));
+  }
+
+  async updateUploadPreview(id: string, data: Partial<UploadPreview>): Promise<void> {
+    await db
+      .update(uploadPreviews)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(uploadPreviews.id, id));
+  }
+
+  async getStaleUploadPreviews(before: Date): Promise<UploadPreview[]> {
+    return await db
+      .select()
+      .from(uploadPreviews)
+      .where(and(eq(uploadPreviews.status, 'parsing'), lt(uploadPreviews.updatedAt, before)));
+  }
+
+  async getStaleIngestions(before: Date): Promise<Job[]> {
+    return await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.ingestionStatus, 'ingesting'), lt(jobs.ingestionUpdatedAt, before)));
   }
 
   async createProfile(insertProfile: InsertProfile): Promise<Profile> {
@@ -493,36 +1574,207 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(profiles)
-      .where(eq(profiles.jobId, jobId));
+      .where(and(eq(profiles.jobId, jobId), eq(profiles.status, 'failed')));
+  }
+
+  async getHarvestedProfiles(userId: number, publicIds: string[], since?: Date): Promise<HarvestedProfile[]> {
+    const latest = new Map<string, HarvestedProfile>();
+
+    const chunkSize = 1000; // stay well under the bind parameter limit
+    for (let i = 0; i < publicIds.length; i += chunkSize) {
+      const rows = await db
+        .select({
+          profileId: profiles.id,
+          publicId: profiles.publicId,
+          linkedinUrl: profiles.linkedinUrl,
+          jobId: profiles.jobId,
+          extractedAt: profiles.extractedAt,
+          profileData: profiles.profileData,
+        })
+        .from(profiles)
+        .innerJoin(jobs, eq(jobs.id, profiles.jobId))
+        .where(and(
+          eq(jobs.userId, userId),
+          isNull(jobs.deletedAt),
+          eq(profiles.status, 'success'),
+          inArray(profiles.publicId, publicIds.slice(i, i + chunkSize)),
+          since ? gte(profiles.extractedAt, since) : undefined
+        ))
+        .orderBy(desc(profiles.extractedAt));
+
+      for (const row of rows) {
+        if (!latest.has(row.publicId!)) {
+          latest.set(row.publicId!, { ...row, publicId: row.publicId! });
+        }
+      }
+    }
+
+    return Array.from(latest.values());
+  }
+
+  async createProfiles(insertProfiles: InsertProfile[]): Promise<number> {
+    const chunkSize = 1000; // stay well under the bind parameter limit
+    for (let i = 0; i < insertProfiles.length; i += chunkSize) {
+      await db.insert(profiles).values(insertProfiles.slice(i, i + chunkSize));
+    }
+    return insertProfiles.length;
+  }
+
+  async getProfilesAfter(jobId: number, afterId: number, statuses: string[], limit: number): Promise<Profile[]> {
+    return await db
+      .select()
+      .from(profiles)
+      .where(and(
+        eq(profiles.jobId, jobId),
+        gt(profiles.id, afterId),
+        inArray(profiles.status, statuses),
+      ))
+      .orderBy(asc(profiles.id))
+      .limit(limit);
+  }
+
+  async getProfilesMatching(query: ProfileQuery, afterId: number, limit: number): Promise<Profile[]> {
+    const rows = await db
+      .select({ profile: profiles })
+      .from(profiles)
+      .innerJoin(jobs, eq(profiles.jobId, jobs.id))
+      .where(and(gt(profiles.id, afterId), ...this.profileQueryConditions(query)))
+      .orderBy(asc(profiles.id))
+      .limit(limit);
+    return rows.map(row => row.profile);
+  }
+
+  async countProfilesMatching(query: ProfileQuery): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(profiles)
+      .innerJoin(jobs, eq(profiles.jobId, jobs.id))
+      .where(and(...this.profileQueryConditions(query)));
+    return row?.count ?? 0;
+  }
+
+  private profileQueryConditions(query: ProfileQuery): SQL[] {
+    const contains = (text: string) => `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+    const attemptedAt = sql`coalesce(${profiles.extractedAt}, ${profiles.lastAttempt})`;
+    const conditions = [
+      eq(jobs.userId, query.userId),
+      isNull(jobs.deletedAt),
+      inArray(profiles.status, query.statuses),
+    ];
+    if (query.jobIds) {
+      conditions.push(inArray(profiles.jobId, query.jobIds));
+    }
+    if (query.from) {
+      conditions.push(sql`${attemptedAt} >= ${query.from}`);
+    }
+    if (query.to) {
+      conditions.push(sql`${attemptedAt} <= ${query.to}`);
+    }
+    if (query.errorTypes) {
+      conditions.push(inArray(profiles.errorType, query.errorTypes));
+    }
+    if (query.industry) {
+      conditions.push(sql`${profiles.profileData}->>'industry' ilike ${contains(query.industry)}`);
+    }
+    if (query.location) {
+      conditions.push(sql`${profiles.profileData}->>'location' ilike ${contains(query.location)}`);
+    }
+    if (query.tag) {
+      conditions.push(sql`${jobs.tags} @> ${JSON.stringify([query.tag])}::jsonb`);
+    }
+    return conditions;
+  }
+
+  async transitionProfiles(ids: number[], fromStatuses: string[], status: string): Promise<number[]> {
+    if (ids.length === 0) return [];
+
+    const rows = await db
+      .update(profiles)
+      .set({ status })
+      .where(and(inArray(profiles.id, ids), inArray(profiles.status, fromStatuses)))
+      .returning({ id: profiles.id });
+    return rows.map(row => row.id);
+  }
+
+  async updateProfilesBulk(updates: ProfileUpdate[], fromStatuses: string[]): Promise<number[]> {
+    if (updates.length === 0) return [];
+
+    return await db.transaction(async (tx) => {
+      const applied: number[] = [];
+      for (const update of updates) {
+        const rows = await tx
+          .update(profiles)
+          .set({ ...update.data, status: update.status })
+          .where(and(eq(profiles.id, update.id), inArray(profiles.status, fromStatuses)))
+          .returning({ id: profiles.id });
+        if (rows.length > 0) {
+          applied.push(update.id);
+        }
+      }
+      return applied;
+    });
+  }
+
+  async countProfilesByStatus(jobId: number): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ status: profiles.status, count: sql<number>`count(*)::int` })
+      .from(profiles)
+      .where(eq(profiles.jobId, jobId))
+      .groupBy(profiles.status);
+
+    const counts: Record<string, number> = {};
+    rows.forEach(row => {
+      counts[row.status] = row.count;
+    });
+    return counts;
+  }
+
+  async requeueInterruptedProfiles(jobId: number): Promise<number> {
+    const interrupted = and(eq(profiles.jobId, jobId), eq(profiles.status, 'processing'));
+
+    const retrying = await db
+      .update(profiles)
+      .set({ status: 'retrying' })
+      .where(and(interrupted, gt(profiles.retryCount, 0)))
+      .returning({ id: profiles.id });
+    const pending = await db
+      .update(profiles)
+      .set({ status: 'pending' })
+      .where(interrupted)
+      .returning({ id: profiles.id });
+    return retrying.length + pending.length;
   }
 
   async getApiStats(userId: number): Promise<ApiStats | undefined> {
     const [stats] = await db
       .select()
       .from(apiStats)
-      .where(eq(apiStats.userId, userId));
+      .where(eq(apiStats.userId, userId))
+      .orderBy(desc(apiStats.date))
+      .limit(1);
     return stats || undefined;
   }
 
-  async updateApiStats(userId: number, data: Partial<ApiStats>): Promise<void> {
-    const existing = await this.getApiStats(userId);
-    
-    if (existing) {
-      await db
-        .update(apiStats)
-        .set({ ...data, lastUpdated: new Date() })
-        .where(eq(apiStats.userId, userId));
-    } else {
-      await db
-        .insert(apiStats)
-        .values({
-          userId,
-          requestsUsed: 0,
-          requestsLimit: 1000,
-          resetTime: new Date(Date.now() + 60 * 60 * 1000),
-          ...data,
-        });
-    }
+  // One statement, so servers adding usage for the same day at once don't create a row each
+  async addApiUsage(usage: ApiUsage): Promise<void> {
+    await db
+      .insert(apiStats)
+      .values({
+        userId: usage.userId,
+        date: usage.date,
+        requestsUsed: usage.requests,
+        requestsLimit: usage.requestsLimit,
+        resetTime: usage.resetTime,
+      })
+      .onConflictDoUpdate({
+        target: [apiStats.userId, apiStats.date],
+        set: {
+          requestsUsed: sql`${apiStats.requestsUsed} + ${usage.requests}`,
+          requestsLimit: usage.requestsLimit,
+          resetTime: usage.resetTime,
+          lastUpdated: new Date(),
+        },
+      });
   }
 
   async getJobStats(userId: number): Promise<{
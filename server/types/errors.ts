@@ -64,4 +64,11 @@ export class ProfileExtractionError extends AppError {
     super(message, 422, 'EXTRACTION_ERROR');
     this.name = 'ProfileExtractionError';
   }
-}
\ No newline at end of file
+}
+
+export class JobCancelledError extends AppError {
+  constructor(jobId?: number) {
+    super(jobId ? `Job ${jobId} was cancelled` : 'Job was cancelled', 409, 'JOB_CANCELLED');
+    this.name = 'JobCancelledError';
+  }
+}
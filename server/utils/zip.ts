@@ -0,0 +1,277 @@
+import fs from 'fs';
+import zlib from 'zlib';
+import { once } from 'events';
+import { pipeline as pipelineCallback, Readable, type Writable } from 'stream';
+import { finished, pipeline } from 'stream/promises';
+import { ValidationError } from '../types/errors';
+
+// Zip structures, see APPNOTE.TXT sections 4.3.7, 4.3.9, 4.3.12 and 4.3.16
+const LOCAL_HEADER = 0x04034b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const MAX_END_RECORD_SIZE = 22 + 0xffff; // the record plus the longest comment
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const VERSION = 20; // 2.0: deflate and folders
+
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8_NAME = 0x0800;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  flags: number;
+  modifiedTime: number; // MS-DOS time and date, as stored
+  modifiedDate: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+// CRC-32 of the data, continuing from the CRC of what came before it
+export function crc32(data: Buffer, previous = 0): number {
+  let crc = previous ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * The entries of a zip archive by lower-cased name, in the order of its
+ * central directory. Zip64 archives are not supported.
+ */
+export async function readZipEntries(filePath: string): Promise<Map<string, ZipEntry>> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const tailLength = Math.min(size, MAX_END_RECORD_SIZE);
+    const tail = Buffer.alloc(tailLength);
+    await handle.read(tail, 0, tailLength, size - tailLength);
+
+    const signature = Buffer.alloc(4);
+    signature.writeUInt32LE(END_OF_CENTRAL_DIRECTORY);
+    const end = tail.lastIndexOf(signature);
+    if (end === -1 || end + 22 > tail.length) {
+      throw new ValidationError('not a valid zip archive', 'file');
+    }
+
+    const directorySize = tail.readUInt32LE(end + 12);
+    const directoryOffset = tail.readUInt32LE(end + 16);
+    const directory = Buffer.alloc(directorySize);
+    await handle.read(directory, 0, directorySize, directoryOffset);
+
+    const entries = new Map<string, ZipEntry>();
+    let offset = 0;
+    while (offset + CENTRAL_HEADER_SIZE <= directory.length && directory.readUInt32LE(offset) === CENTRAL_DIRECTORY_HEADER) {
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const name = directory.toString('utf8', offset + CENTRAL_HEADER_SIZE, offset + CENTRAL_HEADER_SIZE + nameLength);
+      entries.set(name.toLowerCase(), {
+        name,
+        flags: directory.readUInt16LE(offset + 8),
+        method: directory.readUInt16LE(offset + 10),
+        modifiedTime: directory.readUInt16LE(offset + 12),
+        modifiedDate: directory.readUInt16LE(offset + 14),
+        crc: directory.readUInt32LE(offset + 16),
+        compressedSize: directory.readUInt32LE(offset + 20),
+        size: directory.readUInt32LE(offset + 24),
+        localHeaderOffset: directory.readUInt32LE(offset + 42),
+      });
+      offset += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+    }
+    return entries;
+  } finally {
+    await handle.close();
+  }
+}
+
+// The entry's compressed bytes; the local header's name and extra field lengths may differ from the directory's
+async function openRawEntry(filePath: string, entry: ZipEntry): Promise<Readable> {
+  const handle = await fs.promises.open(filePath, 'r');
+  const header = Buffer.alloc(LOCAL_HEADER_SIZE);
+  try {
+    await handle.read(header, 0, LOCAL_HEADER_SIZE, entry.localHeaderOffset);
+  } finally {
+    await handle.close();
+  }
+
+  if (entry.compressedSize === 0) {
+    return Readable.from([]);
+  }
+  const start = entry.localHeaderOffset + LOCAL_HEADER_SIZE + header.readUInt16LE(26) + header.readUInt16LE(28);
+  return fs.createReadStream(filePath, { start, end: start + entry.compressedSize - 1 });
+}
+
+// The entry's uncompressed bytes
+export async function openEntry(filePath: string, entry: ZipEntry): Promise<Readable> {
+  if (entry.method !== STORED && entry.method !== DEFLATED) {
+    throw new ValidationError(`unsupported compression in ${entry.name}`, 'file');
+  }
+
+  const raw = await openRawEntry(filePath, entry);
+  if (entry.method === STORED) {
+    return raw;
+  }
+  return pipelineCallback(raw, zlib.createInflateRaw(), () => {}); // errors surface on the returned stream
+}
+
+export async function readEntryText(filePath: string, entry: ZipEntry): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await openEntry(filePath, entry)) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Writes a zip archive to a stream, one entry after the other. Entries of
+ * another archive can be copied without recompressing them, which is how a
+ * workbook is rewritten with only the parts that changed.
+ */
+export class ZipWriter {
+  private directory: Buffer[] = [];
+  private offset = 0;
+
+  constructor(private output: Writable) {}
+
+  async copyEntry(sourcePath: string, entry: ZipEntry): Promise<void> {
+    const header = {
+      ...entry,
+      flags: entry.flags & ~FLAG_DATA_DESCRIPTOR, // the sizes are known, so they go in the local header
+      localHeaderOffset: this.offset,
+    };
+    await this.write(this.localHeader(header));
+    for await (const chunk of await openRawEntry(sourcePath, entry)) {
+      await this.write(chunk);
+    }
+    this.directory.push(this.centralHeader(header));
+  }
+
+  // Deflates the content as it comes; its sizes and CRC follow it in a data descriptor
+  async addEntry(name: string, content: string | AsyncIterable<string | Buffer>): Promise<void> {
+    const { time, date } = dosDateTime(new Date());
+    const entry: ZipEntry = {
+      name,
+      method: DEFLATED,
+      flags: FLAG_DATA_DESCRIPTOR | (/[^\x00-\x7f]/.test(name) ? FLAG_UTF8_NAME : 0),
+      modifiedTime: time,
+      modifiedDate: date,
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      localHeaderOffset: this.offset,
+    };
+    await this.write(this.localHeader(entry));
+
+    await pipeline(
+      async function* () {
+        for await (const chunk of typeof content === 'string' ? [content] : content) {
+          const data = typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk;
+          entry.crc = crc32(data, entry.crc);
+          entry.size += data.length;
+          yield data;
+        }
+      },
+      zlib.createDeflateRaw(),
+      async (deflated: AsyncIterable<Buffer>) => {
+        for await (const data of deflated) {
+          entry.compressedSize += data.length;
+          await this.write(data);
+        }
+      }
+    );
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    await this.write(descriptor);
+    this.directory.push(this.centralHeader(entry));
+  }
+
+  // Writes the central directory and ends the stream
+  async finish(): Promise<void> {
+    const directoryOffset = this.offset;
+    for (const header of this.directory) {
+      await this.write(header);
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(this.directory.length, 8);
+    end.writeUInt16LE(this.directory.length, 10);
+    end.writeUInt32LE(this.offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    await this.write(end);
+
+    this.output.end();
+    await finished(this.output);
+  }
+
+  private localHeader(entry: ZipEntry): Buffer {
+    const name = Buffer.from(entry.name, 'utf8');
+    const header = Buffer.alloc(LOCAL_HEADER_SIZE + name.length);
+    header.writeUInt32LE(LOCAL_HEADER, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(entry.flags, 6);
+    header.writeUInt16LE(entry.method, 8);
+    header.writeUInt16LE(entry.modifiedTime, 10);
+    header.writeUInt16LE(entry.modifiedDate, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(0, 28);
+    name.copy(header, LOCAL_HEADER_SIZE);
+    return header;
+  }
+
+  private centralHeader(entry: ZipEntry): Buffer {
+    const name = Buffer.from(entry.name, 'utf8');
+    const header = Buffer.alloc(CENTRAL_HEADER_SIZE + name.length);
+    header.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(VERSION, 6);
+    header.writeUInt16LE(entry.flags, 8);
+    header.writeUInt16LE(entry.method, 10);
+    header.writeUInt16LE(entry.modifiedTime, 12);
+    header.writeUInt16LE(entry.modifiedDate, 14);
+    header.writeUInt32LE(entry.crc, 16);
+    header.writeUInt32LE(entry.compressedSize, 20);
+    header.writeUInt32LE(entry.size, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(entry.localHeaderOffset, 42);
+    name.copy(header, CENTRAL_HEADER_SIZE);
+    return header;
+  }
+
+  private async write(data: Buffer): Promise<void> {
+    this.offset += data.length;
+    if (!this.output.write(data)) {
+      await once(this.output, 'drain');
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -12,6 +12,8 @@ export const users = pgTable("users", {
   linkedinAccessToken: text("linkedin_access_token"),
   linkedinRefreshToken: text("linkedin_refresh_token"),
   linkedinTokenExpiry: timestamp("linkedin_token_expiry"),
+  retryPolicy: jsonb("retry_policy"), // per error type overrides of the default retry policy
+  dedupePolicy: jsonb("dedupe_policy"), // DedupePolicy for people extracted in earlier jobs
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -20,7 +22,7 @@ export const jobs = pgTable("jobs", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   fileName: text("file_name").notNull(),
-  status: text("status").notNull(), // 'pending', 'processing', 'completed', 'failed', 'paused'
+  status: text("status").notNull(), // 'pending', 'processing', 'completed', 'failed', 'paused', 'cancelled'
   totalProfiles: integer("total_profiles").notNull(),
   processedProfiles: integer("processed_profiles").default(0),
   successfulProfiles: integer("successful_profiles").default(0),
@@ -28,19 +30,46 @@ export const jobs = pgTable("jobs", {
   retryingProfiles: integer("retrying_profiles").default(0),
   batchSize: integer("batch_size").default(50),
   errorBreakdown: jsonb("error_breakdown"), // JSON object with error types and counts
-  filePath: text("file_path").notNull(),
-  resultPath: text("result_path"),
+  filePath: text("file_path").notNull(), // blob store key of the uploaded file
+  resultPath: text("result_path"), // blob store key of the results workbook
+  contentHash: text("content_hash"), // SHA-256 of the uploaded file; null on reruns and scheduled runs
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
   estimatedCompletion: timestamp("estimated_completion"),
   processingRate: text("processing_rate"), // e.g., "12.3 profiles/min"
+  profileSource: text("profile_source").default("mock"), // 'linkedin', 'ai', 'mock', 'fixture'
+  priority: integer("priority").default(0), // higher runs sooner among the same user's jobs
+  queuedAt: timestamp("queued_at"), // set when the job is handed to the durable queue
+  leaseOwner: text("lease_owner"), // worker id currently holding the job
+  leaseExpiresAt: timestamp("lease_expires_at"),
+  heartbeatAt: timestamp("heartbeat_at"),
+  parentJobId: integer("parent_job_id"), // set on jobs that rerun another job's failed profiles
+  retryPolicy: jsonb("retry_policy"), // per error type overrides, applied on top of the user's
+  pauseReason: jsonb("pause_reason"), // PauseReason explaining why the job is paused
+  resumeAt: timestamp("resume_at"), // a paused job is resumed automatically at this time
+  checkpointProfileId: integer("checkpoint_profile_id"), // last profile id of the most recent committed batch
+  checkpointAt: timestamp("checkpoint_at"),
+  retryPass: integer("retry_pass").default(0), // the retry pass over 'retrying' profiles the job is due to run; 0 before the first
+  retryAt: timestamp("retry_at"), // a job waiting for its next retry pass is only claimed from this time
+  scheduleId: integer("schedule_id"), // set on jobs started by a job schedule
+  deletedAt: timestamp("deleted_at"), // soft-deleted; purged with its files once the restore window ends
+  statusBeforeDelete: text("status_before_delete"), // status the job had when deleted; restoring puts an active one back
+  inputMapping: jsonb("input_mapping"), // InputMapping used to read a spreadsheet upload
+  ingestionStatus: text("ingestion_status"), // 'ingesting', 'ready', 'failed'; null when the profiles were created with the job
+  ingestedRows: integer("ingested_rows").default(0), // rows of the uploaded file read so far
+  ingestionUpdatedAt: timestamp("ingestion_updated_at"), // last progress write; a stale one means the server stopped mid-file
+  tags: jsonb("tags"), // string[] the user labels the job with; exports can be scoped by tag
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("jobs_user_id_content_hash_idx").on(table.userId, table.contentHash),
+]);
 
 export const profiles = pgTable("profiles", {
   id: serial("id").primaryKey(),
   jobId: integer("job_id").notNull(),
-  linkedinUrl: text("linkedin_url").notNull(),
+  linkedinUrl: text("linkedin_url").notNull(), // as submitted
+  canonicalUrl: text("canonical_url"), // https://www.linkedin.com/in/<publicId>
+  publicId: text("public_id"), // lower-cased vanity name; null when the URL isn't a profile URL
   status: text("status").notNull(), // 'pending', 'processing', 'success', 'failed', 'retrying'
   profileData: jsonb("profile_data"), // LinkedIn profile information
   errorType: text("error_type"), // 'captcha', 'not_found', 'access_restricted', 'rate_limit'
@@ -48,16 +77,133 @@ export const profiles = pgTable("profiles", {
   retryCount: integer("retry_count").default(0),
   lastAttempt: timestamp("last_attempt"),
   extractedAt: timestamp("extracted_at"),
+  reusedFromProfileId: integer("reused_from_profile_id"), // earlier extraction whose data was copied
+}, (table) => [
+  index("profiles_job_id_idx").on(table.jobId, table.id),
+  index("profiles_public_id_idx").on(table.publicId),
+]);
+
+// Audit trail of job state transitions, shown as the job's timeline
+export const jobEventLog = pgTable("job_events", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull(),
+  type: text("type").notNull(), // JobEventType
+  actorType: text("actor_type").notNull(), // 'user', 'worker', 'scheduler', 'system'
+  actorId: text("actor_id"), // user id, worker id or schedule id
+  reason: text("reason"),
+  data: jsonb("data"), // counters, pause reason or error details for the event
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("job_events_job_id_idx").on(table.jobId, table.id),
+]);
+
+// Future and recurring runs over a stored URL list or a previous job's profiles
+export const jobSchedules = pgTable("job_schedules", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  targetType: text("target_type").notNull(), // 'url_list' or 'job'
+  urls: jsonb("urls"), // string[] of LinkedIn URLs when targetType is 'url_list'
+  sourceJobId: integer("source_job_id"), // job whose profiles are re-run when targetType is 'job'
+  runAt: timestamp("run_at"), // one-off run time; unused when cron is set
+  cron: text("cron"), // five-field cron expression evaluated in UTC
+  batchSize: integer("batch_size").default(50),
+  priority: integer("priority").default(0),
+  profileSource: text("profile_source"), // defaults to the source job's, then the configured default
+  enabled: boolean("enabled").default(true),
+  nextRunAt: timestamp("next_run_at"), // null once a one-off schedule has run
+  lastRunAt: timestamp("last_run_at"),
+  lastJobId: integer("last_job_id"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("job_schedules_next_run_at_idx").on(table.nextRunAt),
+]);
+
+// Saved column mappings, reused across uploads with the same layout
+export const columnMappingTemplates = pgTable("column_mapping_templates", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  sheet: text("sheet"), // preferred sheet, used when the workbook has one by this name
+  mapping: jsonb("mapping").notNull(), // ColumnMapping
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Saved export layouts: which result columns go out, in what order, under what headers
+export const exportTemplates = pgTable("export_templates", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  columns: jsonb("columns").notNull(), // ExportTemplateColumn[]
+  dateFormat: text("date_format"), // for date columns without their own format
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Named export filters, reused as `savedSearchId` in an export's filter
+export const savedSearches = pgTable("saved_searches", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  filter: jsonb("filter").notNull(), // ExportFilter without a savedSearchId
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Exports generated in the background; the file is kept until expiresAt, then removed with the row
+export const exportTasks = pgTable("export_tasks", {
+  id: text("id").primaryKey(), // random UUID, used in download links
+  userId: integer("user_id").notNull(),
+  type: text("type").notNull(), // 'successful', 'failed', 'all'
+  options: jsonb("options").notNull(), // ExportTaskOptions
+  status: text("status").notNull().default("running"), // 'running', 'ready', 'failed'
+  progress: integer("progress").default(0), // percent of the profiles read
+  fileName: text("file_name").notNull(), // offered to the browser
+  artifactPath: text("artifact_path"), // blob store key, once ready
+  fileSize: integer("file_size"),
+  error: text("error"), // why the export failed
+  updatedAt: timestamp("updated_at").defaultNow(), // last progress write
+  completedAt: timestamp("completed_at"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("export_tasks_user_id_idx").on(table.userId),
+  index("export_tasks_expires_at_idx").on(table.expiresAt),
+]);
+
+// Parsed uploads waiting for the user to confirm them; confirming creates the job
+export const uploadPreviews = pgTable("upload_previews", {
+  id: text("id").primaryKey(), // random UUID, used in the confirm URL
+  userId: integer("user_id").notNull(),
+  fileName: text("file_name").notNull(),
+  filePath: text("file_path").notNull(), // blob store key
+  fileSize: integer("file_size").notNull(),
+  contentType: text("content_type"),
+  contentHash: text("content_hash"), // SHA-256 of the file
+  duplicateOfJobId: integer("duplicate_of_job_id"), // the user's latest job from a file with the same content
+  inputMapping: jsonb("input_mapping"), // InputMapping the preview was read with, reused on confirm
+  status: text("status").notNull().default("parsing"), // 'parsing', 'ready', 'failed'
+  rowsRead: integer("rows_read").default(0),
+  report: jsonb("report"), // UploadPreviewReport, once the whole file was read
+  error: text("error"), // why reading the file failed
+  updatedAt: timestamp("updated_at").defaultNow(), // last progress write
+  expiresAt: timestamp("expires_at").notNull(), // the preview and its file are removed after this
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("upload_previews_expires_at_idx").on(table.expiresAt),
+]);
+
 export const apiStats = pgTable("api_stats", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
+  date: text("date").notNull(), // UTC day the usage counts towards, YYYY-MM-DD
   requestsUsed: integer("requests_used").default(0),
   requestsLimit: integer("requests_limit").default(1000),
   resetTime: timestamp("reset_time"),
   lastUpdated: timestamp("last_updated").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("api_stats_user_date_idx").on(table.userId, table.date),
+]);
 
 // Session management for JWT refresh tokens
 export const sessions = pgTable("sessions", {
@@ -93,6 +239,135 @@ export const loginSchema = z.object({
   password: z.string().min(1),
 });
 
+// A spreadsheet column, by header name or zero-based index
+export const columnReferenceSchema = z.union([z.string().trim().min(1).max(255), z.number().int().min(0)]);
+
+// Which columns hold what; only the URL column is required
+export const columnMappingSchema = z.object({
+  url: columnReferenceSchema,
+  name: columnReferenceSchema.optional(),
+  email: columnReferenceSchema.optional(),
+  company: columnReferenceSchema.optional(),
+  externalId: columnReferenceSchema.optional(), // candidate id in the ATS
+});
+
+export const insertColumnMappingTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  sheet: z.string().max(255).nullable().optional(),
+  mapping: columnMappingSchema,
+});
+
+// Column mapping fields sent with a spreadsheet upload
+export const uploadMappingSchema = z.object({
+  sheet: z.string().max(255).optional(),
+  mapping: columnMappingSchema.optional(),
+  templateId: z.coerce.number().int().positive().optional(),
+  saveTemplateAs: z.string().trim().min(1).max(100).optional(), // save the mapping used as a template
+});
+
+// File formats results can be downloaded in
+export const exportFormatSchema = z.enum(['xlsx', 'csv', 'json', 'ndjson']);
+
+// One row per profile, or related sheets of positions, education, skills and errors joined by profile id
+export const exportLayoutSchema = z.enum(['flat', 'related']);
+
+// A column of an export template: a result field by key, or the same text on every row
+export const exportTemplateColumnSchema = z.object({
+  header: z.string().trim().min(1).max(255),
+  source: z.string().max(100).optional(), // a result field key, e.g. firstName or extractedAt
+  value: z.string().max(1000).optional(), // constant text, when there's no source
+  transform: z.enum(['uppercase', 'lowercase', 'titlecase', 'trim']).optional(),
+  dateFormat: z.string().max(50).optional(), // tokens YYYY, YY, MM, M, DD, D, HH, mm, ss
+  fallback: z.string().max(1000).optional(), // written when the field is empty
+}).refine(column => (column.source === undefined) !== (column.value === undefined), {
+  message: "A column needs either a source or a value",
+});
+
+export const exportTemplateSpecSchema = z.object({
+  columns: z.array(exportTemplateColumnSchema).min(1).max(100),
+  dateFormat: z.string().max(50).nullable().optional(),
+});
+
+export const insertExportTemplateSchema = exportTemplateSpecSchema.extend({
+  name: z.string().trim().min(1).max(100),
+});
+
+// A list in a query string is comma separated
+function listOf<T extends z.ZodTypeAny>(item: T) {
+  return z.preprocess(
+    value => typeof value === 'string' ? value.split(',').map(part => part.trim()).filter(Boolean) : value,
+    z.array(item).min(1).max(1000)
+  );
+}
+
+/**
+ * Which profiles an export includes, from a query string or JSON. Every
+ * field narrows the set. `to` is inclusive, and a date alone runs to the
+ * end of that day (UTC).
+ */
+export const exportFilterSchema = z.object({
+  jobIds: listOf(z.coerce.number().int().positive()).optional(),
+  from: z.coerce.date().optional(), // extracted, or last attempted when it failed, on or after
+  to: z.preprocess(
+    value => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value,
+    z.coerce.date()
+  ).optional(),
+  errorTypes: listOf(z.string().trim().min(1).max(50)).optional(),
+  industry: z.string().trim().min(1).max(255).optional(), // contains, ignoring case
+  location: z.string().trim().min(1).max(255).optional(), // contains, ignoring case
+  tag: z.string().trim().min(1).max(50).optional(), // on the profile's job
+  savedSearchId: z.coerce.number().int().positive().optional(), // its filter, with the other fields taking precedence
+});
+
+export const insertSavedSearchSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  filter: exportFilterSchema.omit({ savedSearchId: true }),
+});
+
+export const jobTagsSchema = z.object({
+  tags: z.array(z.string().trim().min(1).max(50)).max(20),
+});
+
+// Rows left out when confirming an upload preview
+export const confirmUploadSchema = z.object({
+  excludeRows: z.array(z.number().int().min(0)).max(100000).default([]), // zero-based row indexes from the preview
+  excludeHarvested: z.boolean().default(false), // leave out profiles already extracted in earlier jobs
+});
+
+// What to do with people the user already extracted in an earlier job
+export const dedupePolicySchema = z.object({
+  mode: z.enum(['off', 'skip', 'reuse']), // 'reuse' copies the earlier data instead of extracting again
+  withinDays: z.number().int().min(1).max(3650), // how recent an earlier extraction must be to count
+}).strict();
+
+// URLs pasted as text instead of uploaded in a file
+export const pasteUrlsSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  text: z.string().min(1),
+});
+
+// Retry policy, configurable per error type
+export const retryErrorTypeSchema = z.enum(['captcha', 'not_found', 'access_restricted', 'auth_expired', 'rate_limit', 'unknown']);
+
+export const retryRuleSchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10), // attempts per pass, including the first
+  backoff: z.enum(['fixed', 'linear', 'exponential']),
+  baseDelayMs: z.number().int().min(0).max(10 * 60 * 1000),
+  maxDelayMs: z.number().int().min(0).max(60 * 60 * 1000),
+  jitter: z.number().min(0).max(1), // +/- fraction of the delay to randomize
+  maxRetryPasses: z.number().int().min(0).max(10), // later passes over the profile once a pass fails
+  pauseJob: z.boolean(), // pause the whole job when this error occurs
+});
+
+export const retryPolicyOverridesSchema = z.object({
+  captcha: retryRuleSchema.partial(),
+  not_found: retryRuleSchema.partial(),
+  access_restricted: retryRuleSchema.partial(),
+  auth_expired: retryRuleSchema.partial(),
+  rate_limit: retryRuleSchema.partial(),
+  unknown: retryRuleSchema.partial(),
+}).partial().strict();
+
 export const insertSessionSchema = createInsertSchema(sessions).pick({
   userId: true,
   refreshToken: true,
@@ -105,12 +380,88 @@ export const insertJobSchema = createInsertSchema(jobs).pick({
   totalProfiles: true,
   batchSize: true,
   filePath: true,
+  priority: true,
+  profileSource: true,
+  parentJobId: true,
+  scheduleId: true,
+  inputMapping: true,
+  ingestionStatus: true,
+  contentHash: true,
+});
+
+const jobScheduleFieldsSchema = z.object({
+  name: z.string().min(1).max(200),
+  targetType: z.enum(['url_list', 'job']),
+  urls: z.array(z.string().url()).min(1).max(50000).optional(),
+  sourceJobId: z.number().int().positive().optional(),
+  runAt: z.coerce.date().optional(),
+  cron: z.string().min(1).max(100).optional(),
+  batchSize: z.number().int().min(10).max(100).optional(),
+  priority: z.number().int().min(0).max(10).optional(),
+  profileSource: z.string().optional(),
+  enabled: z.boolean().optional(),
+});
+
+function refineJobSchedule(schedule: z.infer<typeof jobScheduleFieldsSchema>, ctx: z.RefinementCtx) {
+  if (!schedule.runAt === !schedule.cron) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Set either runAt or cron", path: ['cron'] });
+  }
+  if (schedule.targetType === 'url_list' && !schedule.urls?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A url_list schedule needs urls", path: ['urls'] });
+  }
+  if (schedule.targetType === 'job' && !schedule.sourceJobId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A job schedule needs sourceJobId", path: ['sourceJobId'] });
+  }
+}
+
+export const insertJobScheduleSchema = jobScheduleFieldsSchema.superRefine(refineJobSchedule);
+
+// Partial edits are merged onto the stored schedule and checked again as a whole
+export const updateJobScheduleSchema = jobScheduleFieldsSchema.partial().extend({
+  runAt: z.coerce.date().nullable().optional(),
+  cron: z.string().min(1).max(100).nullable().optional(),
+});
+
+export const insertJobEventRecordSchema = createInsertSchema(jobEventLog).pick({
+  jobId: true,
+  type: true,
+  actorType: true,
+  actorId: true,
+  reason: true,
+  data: true,
+});
+
+export const insertExportTaskSchema = createInsertSchema(exportTasks).pick({
+  id: true,
+  userId: true,
+  type: true,
+  options: true,
+  fileName: true,
+  expiresAt: true,
+});
+
+export const insertUploadPreviewSchema = createInsertSchema(uploadPreviews).pick({
+  id: true,
+  userId: true,
+  fileName: true,
+  filePath: true,
+  fileSize: true,
+  contentType: true,
+  contentHash: true,
+  duplicateOfJobId: true,
+  inputMapping: true,
+  expiresAt: true,
 });
 
 export const insertProfileSchema = createInsertSchema(profiles).pick({
   jobId: true,
   linkedinUrl: true,
+  canonicalUrl: true,
+  publicId: true,
   status: true,
+  profileData: true,
+  extractedAt: true,
+  reusedFromProfileId: true,
 });
 
 export const insertAiAnalysisSchema = createInsertSchema(aiAnalyses).pick({
@@ -122,6 +473,7 @@ export const insertAiAnalysisSchema = createInsertSchema(aiAnalyses).pick({
 
 export const insertApiStatsSchema = createInsertSchema(apiStats).pick({
   userId: true,
+  date: true,
   requestsUsed: true,
   requestsLimit: true,
   resetTime: true,
@@ -142,9 +494,52 @@ export type InsertApiStats = z.infer<typeof insertApiStatsSchema>;
 export type AiAnalysis = typeof aiAnalyses.$inferSelect;
 export type InsertAiAnalysis = z.infer<typeof insertAiAnalysisSchema>;
 
+export type JobEventRecord = typeof jobEventLog.$inferSelect;
+export type InsertJobEventRecord = z.infer<typeof insertJobEventRecordSchema>;
+
+export type JobSchedule = typeof jobSchedules.$inferSelect;
+export type InsertJobSchedule = z.infer<typeof insertJobScheduleSchema>;
+export type UpdateJobSchedule = z.infer<typeof updateJobScheduleSchema>;
+
+export type ColumnReference = z.infer<typeof columnReferenceSchema>;
+export type ColumnMapping = z.infer<typeof columnMappingSchema>;
+export type ColumnMappingTemplate = typeof columnMappingTemplates.$inferSelect;
+export type InsertColumnMappingTemplate = z.infer<typeof insertColumnMappingTemplateSchema>;
+
+export type ExportTemplate = typeof exportTemplates.$inferSelect;
+export type InsertExportTemplate = z.infer<typeof insertExportTemplateSchema>;
+export type ExportTemplateColumn = z.infer<typeof exportTemplateColumnSchema>;
+export type ExportTemplateSpec = z.infer<typeof exportTemplateSpecSchema>;
+
+export type ExportFilter = z.infer<typeof exportFilterSchema>;
+export type ExportTask = typeof exportTasks.$inferSelect;
+export type InsertExportTask = z.infer<typeof insertExportTaskSchema>;
+
+// What a background export writes, with its template and saved search already looked up
+export interface ExportTaskOptions {
+  format: ExportFormat;
+  layout: ExportLayout;
+  template?: ExportTemplateSpec;
+  filter: Omit<ExportFilter, 'savedSearchId'>;
+}
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+
+export type UploadPreview = typeof uploadPreviews.$inferSelect;
+export type InsertUploadPreview = z.infer<typeof insertUploadPreviewSchema>;
+export type ConfirmUpload = z.infer<typeof confirmUploadSchema>;
+export type ExportFormat = z.infer<typeof exportFormatSchema>;
+export type ExportLayout = z.infer<typeof exportLayoutSchema>;
+
 export type Session = typeof sessions.$inferSelect;
 export type InsertSession = z.infer<typeof insertSessionSchema>;
 
+export type RetryErrorType = z.infer<typeof retryErrorTypeSchema>;
+export type RetryRule = z.infer<typeof retryRuleSchema>;
+export type RetryPolicy = Record<RetryErrorType, RetryRule>;
+export type RetryPolicyOverrides = z.infer<typeof retryPolicyOverridesSchema>;
+export type DedupePolicy = z.infer<typeof dedupePolicySchema>;
+
 // Shared interfaces
 export interface LinkedInUrl {
   url: string;
@@ -152,6 +547,135 @@ export interface LinkedInUrl {
   additionalData?: Record<string, any>;
 }
 
+// How a spreadsheet upload was read, kept on the job
+export interface InputMapping {
+  sheet: string;
+  headerRow: number | null; // zero-based; null when the sheet has no header row
+  columns: ColumnMapping;
+}
+
+export interface PauseReason {
+  type: 'user' | 'circuit_breaker' | 'retry_policy';
+  errorType?: string;
+  failures?: number; // consecutive failures that tripped the circuit breaker
+  message: string;
+}
+
+export type JobEventType =
+  | 'created'
+  | 'ingested'
+  | 'queued'
+  | 'started'
+  | 'paused'
+  | 'resumed'
+  | 'stopped'
+  | 'batch_finished'
+  | 'circuit_tripped'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'deleted'
+  | 'restored'
+  | 'reinstated';
+
+// The `data` recorded with each type of job event; null for those with none
+export interface JobEventDataMap {
+  created:
+    | { // an upload; the counts are there once its profiles were created with the job
+        fileName: string;
+        totalProfiles?: number;
+        duplicateUrls?: number;
+        skippedRecent?: number;
+        reusedRecent?: number;
+      }
+    | { parentJobId: number; errorTypes?: string[]; totalProfiles: number } // a rerun of failed profiles
+    | { scheduleId: number; targetType: string; sourceJobId: number | null; totalProfiles: number }; // a scheduled run
+  ingested: {
+    rowsRead: number;
+    totalProfiles: number;
+    duplicateUrls: number;
+    skippedRecent: number;
+    reusedRecent: number;
+  };
+  queued: { batchSize: number; priority: number; profileSource?: string };
+  started: null;
+  paused: { pauseReason: PauseReason; resumeAt: string | null };
+  resumed: { pauseReason: PauseReason | null };
+  stopped: { processedProfiles: number | null };
+  batch_finished: {
+    pass: number; // 0 for the first pass, then each retry pass
+    profiles: number;
+    lastProfileId: number;
+    processedProfiles: number;
+    successfulProfiles: number;
+    failedProfiles: number;
+    retryingProfiles: number;
+  };
+  circuit_tripped: { errorType?: string; failures?: number };
+  completed: { successfulProfiles: number; failedProfiles: number; resultPath: string | null };
+  failed: { stack: string } | null;
+  cancelled: { processedProfiles: number | null };
+  deleted: null;
+  restored: null;
+  reinstated: { status: 'pending' | 'paused'; previousStatus: string };
+}
+
+// A recorded job event, its `data` narrowed by its `type`
+export type TypedJobEventRecord = {
+  [T in JobEventType]: Omit<JobEventRecord, 'type' | 'data'> & { type: T; data: JobEventDataMap[T] };
+}[JobEventType];
+
+// Who caused a recorded job event
+export interface JobEventActor {
+  type: 'user' | 'worker' | 'scheduler' | 'system';
+  id?: string | number;
+}
+
+// Events pushed to the owner of a job or export over `/api/jobs/events`
+export type JobEvent =
+  | {
+      type: 'job.status';
+      jobId: number;
+      status: string;
+      pauseReason: PauseReason | null;
+      resumeAt: string | null;
+    }
+  | {
+      type: 'job.progress';
+      jobId: number;
+      totalProfiles: number;
+      processedProfiles: number;
+      successfulProfiles: number;
+      failedProfiles: number;
+      retryingProfiles: number;
+      processingRate: string;
+      estimatedCompletion: string | null;
+    }
+  | {
+      type: 'profile.finished';
+      jobId: number;
+      profileId: number;
+      linkedinUrl: string;
+      status: 'success' | 'failed' | 'retrying';
+      errorType: string | null;
+    }
+  | {
+      type: 'export.progress';
+      taskId: string;
+      progress: number;
+    }
+  | {
+      type: 'export.ready';
+      taskId: string;
+      fileName: string;
+      downloadUrl: string; // signed, expiring
+    }
+  | {
+      type: 'export.failed';
+      taskId: string;
+      error: string;
+    };
+
 export interface ProcessedProfile {
   url: string;
   status: 'success' | 'failed' | 'retrying';